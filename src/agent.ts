@@ -0,0 +1,469 @@
+/**
+ * Local Functions
+ *
+ * Read-only functions the model may call in agent mode (gpt_generate with
+ * `agent`): read a file, list a directory, grep, and git diff/log. The
+ * definitions are sent as Responses API function tools; the server runs the
+ * calls the model returns and feeds the output back.
+ *
+ * Everything is confined to the workspace roots (the same rules as the
+ * `files` parameter). Functions never throw: failures are returned to the
+ * model as an "Error: ..." output so it can try something else.
+ */
+
+import fg from "fast-glob";
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import type OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+import { GLOB_IGNORE, isBinary, readHead, resolveWorkspaceFile, resolveWorkspacePath } from "./files.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Limits applied when running local functions */
+export interface LocalFunctionOptions {
+  /** Absolute workspace root directories; the first one resolves relative paths */
+  roots: string[];
+  /** Maximum bytes read from a single file */
+  maxFileBytes: number;
+  /** Maximum characters of output returned to the model per call */
+  maxOutputChars: number;
+  /** Timeout of git commands and of grep's pattern matching */
+  timeoutMs: number;
+}
+
+/** One function call made by the model, as reported in the result */
+export interface FunctionCallTrace {
+  /** Agent iteration (model call) that requested the function */
+  iteration: number;
+  name: string;
+  arguments: unknown;
+  status: "ok" | "error";
+  /** Characters of output returned to the model */
+  output_chars: number;
+  truncated: boolean;
+  duration_ms: number;
+  /** Error message (status "error") */
+  error?: string;
+}
+
+/** Output of a local function call */
+export interface LocalFunctionResult {
+  output: string;
+  status: "ok" | "error";
+  truncated: boolean;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown function or invalid arguments of a local function call */
+export class LocalFunctionError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocalFunctionError";
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Directory names skipped by list_directory
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+// Entries listed by list_directory
+const MAX_DIRECTORY_ENTRIES = 500;
+
+// grep limits: matches returned, files scanned, size of a scanned file and
+// bytes scanned per call
+const MAX_GREP_MATCHES = 200;
+const MAX_GREP_FILES = 5000;
+const MAX_GREP_FILE_BYTES = 1024 * 1024;
+const MAX_GREP_TOTAL_BYTES = 32 * 1024 * 1024;
+
+// Matches the model's pattern in a worker thread, so a pattern with
+// catastrophic backtracking can be stopped instead of blocking the server
+const GREP_WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const { pattern, flags, files, maxMatches } = workerData;
+const regex = new RegExp(pattern, flags);
+const matches = [];
+search: for (const file of files) {
+  const lines = file.text.split("\\n");
+  for (let index = 0; index < lines.length; index++) {
+    if (regex.test(lines[index])) {
+      matches.push(file.name + ":" + (index + 1) + ": " + lines[index].trim());
+      if (matches.length >= maxMatches) {
+        break search;
+      }
+    }
+  }
+}
+parentPort.postMessage(matches);
+`;
+
+// Commits listed by git_log
+const DEFAULT_LOG_COUNT = 20;
+const MAX_LOG_COUNT = 100;
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+/** Function tools sent to the model (strict schemas: optional fields are nullable) */
+export const LOCAL_FUNCTIONS: OpenAI.Responses.FunctionTool[] = [
+  {
+    type: "function",
+    name: "read_file",
+    description: "Read a text file from the workspace. Lines are prefixed with their line number.",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path, relative to the workspace root" },
+        start_line: { type: ["integer", "null"], description: "First line to return (1-based)" },
+        end_line: { type: ["integer", "null"], description: "Last line to return" },
+      },
+      required: ["path", "start_line", "end_line"],
+      additionalProperties: false,
+    },
+  },
+  {
+    type: "function",
+    name: "list_directory",
+    description: "List the files and directories in a workspace directory. Directories end with '/'.",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: ["string", "null"], description: "Directory path (default: the workspace root)" },
+        depth: { type: ["integer", "null"], description: "Levels to descend, 1-3 (default: 1)" },
+      },
+      required: ["path", "depth"],
+      additionalProperties: false,
+    },
+  },
+  {
+    type: "function",
+    name: "grep",
+    description: "Search workspace files for a regular expression. Returns 'file:line: text' for each match.",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "JavaScript regular expression" },
+        path: { type: ["string", "null"], description: "Directory or file to search (default: the workspace root)" },
+        glob: { type: ["string", "null"], description: "Only search files matching this glob, e.g. '**/*.ts'" },
+        ignore_case: { type: ["boolean", "null"], description: "Case-insensitive search" },
+      },
+      required: ["pattern", "path", "glob", "ignore_case"],
+      additionalProperties: false,
+    },
+  },
+  {
+    type: "function",
+    name: "git_diff",
+    description: "Show uncommitted changes (or the changes since a ref) in the workspace git repository.",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: {
+        ref: { type: ["string", "null"], description: "Commit, branch or range to diff against, e.g. 'main' or 'HEAD~3'" },
+        path: { type: ["string", "null"], description: "Limit the diff to this file or directory" },
+        staged: { type: ["boolean", "null"], description: "Show staged changes instead of unstaged ones" },
+      },
+      required: ["ref", "path", "staged"],
+      additionalProperties: false,
+    },
+  },
+  {
+    type: "function",
+    name: "git_log",
+    description: "List recent commits (hash, date, author, subject) of the workspace git repository.",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: ["string", "null"], description: "Only commits touching this file or directory" },
+        max_count: { type: ["integer", "null"], description: `Number of commits (default: ${DEFAULT_LOG_COUNT}, max: ${MAX_LOG_COUNT})` },
+      },
+      required: ["path", "max_count"],
+      additionalProperties: false,
+    },
+  },
+];
+
+/** Names of the local functions */
+export const LOCAL_FUNCTION_NAMES = ["read_file", "list_directory", "grep", "git_diff", "git_log"] as const;
+
+export type LocalFunctionName = typeof LOCAL_FUNCTION_NAMES[number];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Path relative to its root, with forward slashes ("." for the root itself) */
+function displayPath(root: string, target: string): string {
+  return path.relative(root, target).split(path.sep).join("/") || ".";
+}
+
+/** Optional argument of a function call (strict schemas send null) */
+function optional<T>(value: T | null | undefined): T | undefined {
+  return value === null ? undefined : value;
+}
+
+/** Run git in a workspace root and return its output */
+export function runGit(args: string[], cwd: string, options: LocalFunctionOptions): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: options.timeoutMs, maxBuffer: options.maxOutputChars * 4, encoding: "utf8" },
+      (error, stdout, stderr) => {
+        if (error) {
+          const killed = (error as { killed?: boolean }).killed;
+          reject(new Error(killed ? `git ${args[0]} timed out or produced too much output` : stderr.trim() || error.message));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/** Reject refs that git could read as options or that contain odd characters */
+export function checkRef(ref: string): string {
+  if (ref.startsWith("-") || !/^[\w./~^@{}:-]+$/.test(ref)) {
+    throw new LocalFunctionError(`Invalid ref "${ref}".`);
+  }
+  return ref;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+async function readFile(args: { path: string; start_line?: number | null; end_line?: number | null }, options: LocalFunctionOptions): Promise<string> {
+  const filePath = await resolveWorkspaceFile(args.path, options.roots);
+  const stat = await fs.stat(filePath);
+  const buffer = await readHead(filePath, Math.min(stat.size, options.maxFileBytes));
+  if (isBinary(buffer)) {
+    throw new LocalFunctionError(`"${args.path}" is a binary file.`);
+  }
+
+  const lines = buffer.toString("utf8").split("\n");
+  const start = Math.max(1, optional(args.start_line) ?? 1);
+  const end = Math.min(lines.length, optional(args.end_line) ?? lines.length);
+  if (start > end) {
+    throw new LocalFunctionError(`Line range ${start}-${end} is empty (the file has ${lines.length} lines).`);
+  }
+  let text = lines.slice(start - 1, end).map((line, index) => `${start + index}: ${line}`).join("\n");
+  if (stat.size > buffer.length) {
+    text += `\n[file truncated at ${options.maxFileBytes} bytes of ${stat.size}]`;
+  }
+  return text;
+}
+
+async function listDirectory(args: { path?: string | null; depth?: number | null }, options: LocalFunctionOptions): Promise<string> {
+  const { root, path: dir } = await resolveWorkspacePath(optional(args.path) ?? ".", options.roots);
+  if (!(await fs.stat(dir)).isDirectory()) {
+    throw new LocalFunctionError(`"${args.path}" is not a directory.`);
+  }
+  const depth = Math.min(3, Math.max(1, optional(args.depth) ?? 1));
+
+  const entries: string[] = [];
+  const visit = async (current: string, level: number): Promise<void> => {
+    const children = (await fs.readdir(current, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      if (entries.length >= MAX_DIRECTORY_ENTRIES) {
+        return;
+      }
+      if (IGNORED_DIRECTORIES.has(child.name)) {
+        continue;
+      }
+      const childPath = path.join(current, child.name);
+      entries.push(child.isDirectory() ? `${displayPath(root, childPath)}/` : displayPath(root, childPath));
+      if (child.isDirectory() && level < depth) {
+        await visit(childPath, level + 1);
+      }
+    }
+  };
+  await visit(dir, 1);
+
+  if (entries.length === 0) {
+    return "(empty directory)";
+  }
+  return entries.join("\n") + (entries.length >= MAX_DIRECTORY_ENTRIES ? `\n[stopped after ${MAX_DIRECTORY_ENTRIES} entries]` : "");
+}
+
+/**
+ * Run grep's pattern over file contents in a worker thread, stopping it
+ * once `timeoutMs` has passed.
+ */
+function matchInWorker(
+  pattern: string,
+  flags: string,
+  files: { name: string; text: string }[],
+  timeoutMs: number
+): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(GREP_WORKER_SOURCE, {
+      eval: true,
+      workerData: { pattern, flags, files, maxMatches: MAX_GREP_MATCHES },
+    });
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      reject(new Error(
+        `The pattern took longer than ${Math.round(timeoutMs / 1000)}s to match and was stopped. ` +
+        "Use a simpler pattern (avoid nested quantifiers) or a narrower path or glob."
+      ));
+    }, timeoutMs);
+    worker.once("message", (matches: string[]) => {
+      clearTimeout(timer);
+      resolve(matches);
+      void worker.terminate();
+    });
+    worker.once("error", error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    worker.once("exit", () => {
+      clearTimeout(timer);
+      reject(new Error("grep stopped unexpectedly."));
+    });
+  });
+}
+
+async function grep(
+  args: { pattern: string; path?: string | null; glob?: string | null; ignore_case?: boolean | null },
+  options: LocalFunctionOptions
+): Promise<string> {
+  const flags = optional(args.ignore_case) ? "i" : "";
+  try {
+    new RegExp(args.pattern, flags);
+  } catch (error) {
+    throw new LocalFunctionError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { root, path: target } = await resolveWorkspacePath(optional(args.path) ?? ".", options.roots);
+  const glob = optional(args.glob);
+  if (glob && glob.split(/[\\/]/).includes("..")) {
+    throw new LocalFunctionError("The glob must not contain '..' segments.");
+  }
+  const files = (await fs.stat(target)).isFile()
+    ? [target]
+    : (await fg(glob ?? "**/*", { cwd: target, absolute: true, onlyFiles: true, followSymbolicLinks: false, ignore: GLOB_IGNORE }))
+      .sort()
+      .slice(0, MAX_GREP_FILES);
+
+  const texts: { name: string; text: string }[] = [];
+  let totalBytes = 0;
+  let skipped = 0;
+  for (const file of files) {
+    const stat = await fs.stat(file);
+    if (stat.size > MAX_GREP_FILE_BYTES) {
+      continue;
+    }
+    if (totalBytes + stat.size > MAX_GREP_TOTAL_BYTES) {
+      skipped++;
+      continue;
+    }
+    const buffer = await readHead(file, stat.size);
+    if (isBinary(buffer)) {
+      continue;
+    }
+    totalBytes += buffer.length;
+    texts.push({ name: displayPath(root, file), text: buffer.toString("utf8") });
+  }
+
+  const matches = await matchInWorker(args.pattern, flags, texts, options.timeoutMs);
+  const notes = [
+    ...(matches.length >= MAX_GREP_MATCHES ? [`[stopped after ${MAX_GREP_MATCHES} matches]`] : []),
+    ...(skipped > 0 ? [`[${skipped} file(s) not searched: ${MAX_GREP_TOTAL_BYTES / (1024 * 1024)} MB scan limit reached; narrow the path or glob]`] : []),
+  ];
+  if (matches.length === 0) {
+    return ["No matches.", ...notes].join("\n");
+  }
+  return [...matches, ...notes].join("\n");
+}
+
+async function gitDiff(args: { ref?: string | null; path?: string | null; staged?: boolean | null }, options: LocalFunctionOptions): Promise<string> {
+  const { root, path: target } = await resolveWorkspacePath(optional(args.path) ?? ".", options.roots);
+  const gitArgs = ["diff", "--no-color", "--no-ext-diff"];
+  if (optional(args.staged)) {
+    gitArgs.push("--cached");
+  }
+  const ref = optional(args.ref);
+  if (ref) {
+    gitArgs.push(checkRef(ref));
+  }
+  gitArgs.push("--", displayPath(root, target));
+  const output = await runGit(gitArgs, root, options);
+  return output.trim() === "" ? "No changes." : output;
+}
+
+async function gitLog(args: { path?: string | null; max_count?: number | null }, options: LocalFunctionOptions): Promise<string> {
+  const { root, path: target } = await resolveWorkspacePath(optional(args.path) ?? ".", options.roots);
+  const count = Math.min(MAX_LOG_COUNT, Math.max(1, optional(args.max_count) ?? DEFAULT_LOG_COUNT));
+  const output = await runGit(
+    ["log", "--no-color", `--max-count=${count}`, "--date=short", "--format=%h %ad %an: %s", "--", displayPath(root, target)],
+    root,
+    options
+  );
+  return output.trim() === "" ? "No commits." : output;
+}
+
+// =============================================================================
+// Dispatch
+// =============================================================================
+
+/**
+ * Run a function call returned by the model. Never throws: unknown
+ * functions, bad arguments and failures come back as an error output.
+ * Output longer than `maxOutputChars` is truncated.
+ */
+export async function runLocalFunction(
+  name: string,
+  argumentsJson: string,
+  allowed: readonly string[],
+  options: LocalFunctionOptions
+): Promise<LocalFunctionResult> {
+  let output: string;
+  try {
+    if (!allowed.includes(name)) {
+      throw new LocalFunctionError(`Unknown function "${name}". Available: ${allowed.join(", ")}`);
+    }
+    const args = JSON.parse(argumentsJson) as Record<string, unknown>;
+    switch (name as LocalFunctionName) {
+      case "read_file":
+        output = await readFile(args as Parameters<typeof readFile>[0], options);
+        break;
+      case "list_directory":
+        output = await listDirectory(args, options);
+        break;
+      case "grep":
+        output = await grep(args as Parameters<typeof grep>[0], options);
+        break;
+      case "git_diff":
+        output = await gitDiff(args, options);
+        break;
+      case "git_log":
+        output = await gitLog(args, options);
+        break;
+    }
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, status: "error", truncated: false };
+  }
+
+  if (output.length > options.maxOutputChars) {
+    const rest = output.length - options.maxOutputChars;
+    return { output: `${output.slice(0, options.maxOutputChars)}\n[output truncated, ${rest} more characters]`, status: "ok", truncated: true };
+  }
+  return { output, status: "ok", truncated: false };
+}
@@ -0,0 +1,260 @@
+/**
+ * Batches
+ *
+ * Support for gpt_batch: a bounded-concurrency pool for running many prompts
+ * with shared settings, and the pieces needed to go through the OpenAI Batch
+ * API instead (JSONL request file, output parsing and a persistent record of
+ * submitted jobs so their results can be collected later by id).
+ */
+
+import { UserFacingError } from "./errors.js";
+import { JsonFile } from "./storage.js";
+import type { JsonSchema } from "./schema.js";
+import type { TokenUsage } from "./sessions.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One input of a batch */
+export interface BatchItem {
+  /** Caller-supplied id (defaults to the 1-based position) */
+  id: string;
+  input: string;
+}
+
+/** Outcome of one batch item */
+export interface BatchItemResult {
+  id: string;
+  status: "ok" | "error" | "skipped";
+  /** Answer (first page if it is longer than a page) */
+  text?: string;
+  /** Parsed answer (only with a JSON Schema) */
+  data?: unknown;
+  usage?: TokenUsage;
+  /** Handle of the stored full answer, for gpt_read_more */
+  response_handle?: string;
+  total_pages?: number;
+  error?: { category: string; message: string };
+  /** Calls made for the item (0 for Batch API results and skipped items) */
+  attempts: number;
+}
+
+/** Aggregate over all items of a batch */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  usage: TokenUsage;
+}
+
+/** Batch API endpoint a job was submitted to */
+export type BatchEndpoint = "/v1/responses" | "/v1/chat/completions";
+
+/** A job submitted to the OpenAI Batch API */
+export interface BatchJob {
+  /** Batch API id */
+  id: string;
+  provider: string;
+  model: string;
+  endpoint: BatchEndpoint;
+  /** Item ids in submission order; the custom_id of item i is `item-<i>` */
+  items: string[];
+  /** JSON Schema the answers are validated against */
+  schema?: JsonSchema;
+  /** Last status reported by the Batch API */
+  status: string;
+  /** Set once the usage of the finished job is in the ledger */
+  usage_recorded: boolean;
+  created_at: string;
+}
+
+/** One line of a Batch API output or error file */
+export interface BatchOutputLine {
+  custom_id: string;
+  /** Response body of a successful request */
+  body?: unknown;
+  error?: string;
+}
+
+interface BatchJobFile {
+  version: 1;
+  jobs: BatchJob[];
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown batch job, or a batch the provider or mode cannot run */
+export class BatchError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchError";
+  }
+}
+
+// =============================================================================
+// Concurrency Pool
+// =============================================================================
+
+/**
+ * Run `worker` over all items with at most `concurrency` calls in flight.
+ * Results keep the order of the items. The worker is expected to turn
+ * failures into results; a thrown error rejects the whole run.
+ */
+export async function runPool<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lane = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+  return results;
+}
+
+/** Add up the usage of two calls (undefined counts as none) */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!total || !usage) {
+    return total ?? usage;
+  }
+  return {
+    input_tokens: total.input_tokens + usage.input_tokens,
+    output_tokens: total.output_tokens + usage.output_tokens,
+    reasoning_tokens: (total.reasoning_tokens ?? 0) + (usage.reasoning_tokens ?? 0),
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+/** Count the outcomes and add up the usage of a batch */
+export function summarizeBatch(results: BatchItemResult[]): BatchSummary {
+  const summary: BatchSummary = {
+    total: results.length,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+  };
+  for (const result of results) {
+    if (result.status === "ok") summary.succeeded++;
+    else if (result.status === "error") summary.failed++;
+    else summary.skipped++;
+    if (result.usage) {
+      summary.usage.input_tokens += result.usage.input_tokens;
+      summary.usage.output_tokens += result.usage.output_tokens;
+      summary.usage.total_tokens += result.usage.total_tokens;
+    }
+  }
+  return summary;
+}
+
+// =============================================================================
+// Batch API Files
+// =============================================================================
+
+/** custom_id of the item at `index` */
+export function batchCustomId(index: number): string {
+  return `item-${index}`;
+}
+
+/** Build the JSONL request file of a Batch API job */
+export function buildBatchFile(endpoint: BatchEndpoint, bodies: unknown[]): string {
+  return bodies
+    .map((body, index) => JSON.stringify({ custom_id: batchCustomId(index), method: "POST", url: endpoint, body }))
+    .join("\n") + "\n";
+}
+
+/**
+ * Parse a Batch API output or error file. Requests that failed (an error
+ * object, or a response with an error status) come back with `error` set.
+ */
+export function parseBatchOutput(jsonl: string): BatchOutputLine[] {
+  const lines: BatchOutputLine[] = [];
+  for (const raw of jsonl.split("\n")) {
+    if (raw.trim() === "") {
+      continue;
+    }
+    const line = JSON.parse(raw) as {
+      custom_id: string;
+      response?: { status_code: number; body?: { error?: { message?: string } } } | null;
+      error?: { code?: string; message?: string } | null;
+    };
+    if (line.error) {
+      lines.push({ custom_id: line.custom_id, error: line.error.message ?? line.error.code ?? "Request failed" });
+    } else if (!line.response || line.response.status_code >= 400) {
+      const status = line.response?.status_code;
+      lines.push({
+        custom_id: line.custom_id,
+        error: line.response?.body?.error?.message ?? `Request failed${status ? ` with status ${status}` : ""}`,
+      });
+    } else {
+      lines.push({ custom_id: line.custom_id, body: line.response.body });
+    }
+  }
+  return lines;
+}
+
+// =============================================================================
+// Job Store
+// =============================================================================
+
+/**
+ * JSON-file backed record of submitted Batch API jobs.
+ * Written through to disk on every change.
+ */
+export class BatchJobStore {
+  private jobs = new Map<string, BatchJob>();
+  private readonly file: JsonFile<BatchJobFile>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<BatchJobFile>(filePath);
+  }
+
+  /** Load jobs from disk. A missing file means no jobs. */
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    this.jobs.clear();
+    for (const job of data?.jobs ?? []) {
+      this.jobs.set(job.id, job);
+    }
+  }
+
+  async add(job: BatchJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    await this.save();
+  }
+
+  /** Look up a job, throwing a BatchError for unknown ids */
+  get(id: string): BatchJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new BatchError(`Batch job "${id}" not found. Call gpt_batch_results without batch_id to list jobs.`);
+    }
+    return job;
+  }
+
+  /** Update fields of a job and persist */
+  async update(id: string, changes: Partial<Pick<BatchJob, "status" | "usage_recorded">>): Promise<BatchJob> {
+    const job = this.get(id);
+    Object.assign(job, changes);
+    await this.save();
+    return job;
+  }
+
+  /** Jobs, newest first */
+  list(): BatchJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  private save(): Promise<void> {
+    return this.file.write({ version: 1, jobs: [...this.jobs.values()] });
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Built-in Tools
+ *
+ * Configuration and result extraction for the Responses API built-in tools:
+ * web search, file search (vector stores) and code interpreter.
+ *
+ * Builds the `tools` / `include` request fields from the tool options, and
+ * collects what the tools did from the response output - citations from
+ * `output_text` annotations, search calls and code interpreter runs - so it
+ * can be shown in both markdown and structuredContent.
+ */
+
+import type OpenAI from "openai";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Web search options (`true` enables it with defaults) */
+export interface WebSearchOptions {
+  search_context_size?: "low" | "medium" | "high";
+  allowed_domains?: string[];
+}
+
+/** File search options - searches the given vector stores */
+export interface FileSearchOptions {
+  vector_store_ids: string[];
+  max_num_results?: number;
+  /** Return the matched chunks, not just the queries */
+  include_results?: boolean;
+}
+
+/** Code interpreter options (`true` enables it with defaults) */
+export interface CodeInterpreterOptions {
+  file_ids?: string[];
+}
+
+/** The `tools` parameter of the generation tools */
+export interface BuiltinToolsOptions {
+  web_search?: boolean | WebSearchOptions;
+  file_search?: FileSearchOptions;
+  code_interpreter?: boolean | CodeInterpreterOptions;
+}
+
+/** A source cited by the model in its answer */
+export interface Citation {
+  type: "url" | "file";
+  url?: string;
+  title?: string;
+  file_id?: string;
+  filename?: string;
+}
+
+export interface WebSearchCall {
+  id: string;
+  status: string;
+  query?: string;
+}
+
+export interface FileSearchCall {
+  id: string;
+  status: string;
+  queries: string[];
+  results?: { file_id?: string; filename?: string; score?: number; text?: string }[];
+}
+
+export interface CodeInterpreterCall {
+  id: string;
+  status: string;
+  code: string;
+  logs: string[];
+  files: { file_id: string; mime_type?: string }[];
+  images: string[];
+}
+
+/** Everything the built-in tools did during one response */
+export interface ToolActivity {
+  citations: Citation[];
+  web_searches: WebSearchCall[];
+  file_searches: FileSearchCall[];
+  code_executions: CodeInterpreterCall[];
+}
+
+// =============================================================================
+// Request Building
+// =============================================================================
+
+/**
+ * Build the Responses API `tools` and `include` fields for the enabled
+ * built-in tools.
+ *
+ * Some fields (the GA `web_search` type with domain filters, code interpreter
+ * outputs) are newer than the SDK's type definitions, hence the casts.
+ */
+export function buildBuiltinTools(options: BuiltinToolsOptions): {
+  tools: OpenAI.Responses.Tool[];
+  include: OpenAI.Responses.ResponseIncludable[];
+} {
+  const tools: OpenAI.Responses.Tool[] = [];
+  const include: string[] = [];
+
+  if (options.web_search) {
+    const web = options.web_search === true ? {} : options.web_search;
+    tools.push({
+      type: "web_search",
+      ...(web.search_context_size ? { search_context_size: web.search_context_size } : {}),
+      ...(web.allowed_domains?.length ? { filters: { allowed_domains: web.allowed_domains } } : {}),
+    } as unknown as OpenAI.Responses.Tool);
+  }
+
+  if (options.file_search) {
+    tools.push({
+      type: "file_search",
+      vector_store_ids: options.file_search.vector_store_ids,
+      ...(options.file_search.max_num_results !== undefined
+        ? { max_num_results: options.file_search.max_num_results }
+        : {}),
+    });
+    if (options.file_search.include_results) {
+      include.push("file_search_call.results");
+    }
+  }
+
+  if (options.code_interpreter) {
+    const code = options.code_interpreter === true ? {} : options.code_interpreter;
+    tools.push({
+      type: "code_interpreter",
+      container: { type: "auto", ...(code.file_ids?.length ? { file_ids: code.file_ids } : {}) },
+    });
+    include.push("code_interpreter_call.outputs");
+  }
+
+  return { tools, include: include as OpenAI.Responses.ResponseIncludable[] };
+}
+
+// =============================================================================
+// Result Extraction
+// =============================================================================
+
+type LooseRecord = Record<string, unknown>;
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Collect citations from output_text annotations, de-duplicated */
+function extractCitations(output: LooseRecord[]): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+
+  for (const item of output) {
+    if (item.type !== "message" || !Array.isArray(item.content)) {
+      continue;
+    }
+    for (const content of item.content as LooseRecord[]) {
+      if (content.type !== "output_text" || !Array.isArray(content.annotations)) {
+        continue;
+      }
+      for (const annotation of content.annotations as LooseRecord[]) {
+        let citation: Citation | undefined;
+        if (annotation.type === "url_citation") {
+          citation = { type: "url", url: str(annotation.url), title: str(annotation.title) };
+        } else if (annotation.type === "file_citation" || annotation.type === "container_file_citation") {
+          citation = { type: "file", file_id: str(annotation.file_id), filename: str(annotation.filename) };
+        }
+        const key = citation && (citation.url ?? citation.file_id);
+        if (citation && key && !seen.has(key)) {
+          seen.add(key);
+          citations.push(citation);
+        }
+      }
+    }
+  }
+
+  return citations;
+}
+
+/** Code interpreter outputs - `outputs` in the current API, `results` in older SDK types */
+function extractCodeOutputs(item: LooseRecord): Pick<CodeInterpreterCall, "logs" | "files" | "images"> {
+  const logs: string[] = [];
+  const files: CodeInterpreterCall["files"] = [];
+  const images: string[] = [];
+  const outputs = (Array.isArray(item.outputs) ? item.outputs : Array.isArray(item.results) ? item.results : []) as LooseRecord[];
+
+  for (const output of outputs) {
+    if (output.type === "logs" && typeof output.logs === "string") {
+      logs.push(output.logs);
+    } else if (output.type === "image" && typeof output.url === "string") {
+      images.push(output.url);
+    } else if (output.type === "files" && Array.isArray(output.files)) {
+      for (const file of output.files as LooseRecord[]) {
+        if (typeof file.file_id === "string") {
+          files.push({ file_id: file.file_id, mime_type: str(file.mime_type) });
+        }
+      }
+    }
+  }
+
+  return { logs, files, images };
+}
+
+/**
+ * Collect built-in tool activity from a response.
+ * Returns undefined when no tool was used and nothing was cited.
+ */
+export function extractToolActivity(response: OpenAI.Responses.Response): ToolActivity | undefined {
+  const output = (response.output ?? []) as unknown as LooseRecord[];
+  const activity: ToolActivity = {
+    citations: extractCitations(output),
+    web_searches: [],
+    file_searches: [],
+    code_executions: [],
+  };
+
+  for (const item of output) {
+    const id = str(item.id) ?? "";
+    const status = str(item.status) ?? "unknown";
+
+    if (item.type === "web_search_call") {
+      const action = (item.action ?? {}) as LooseRecord;
+      activity.web_searches.push({ id, status, query: str(action.query) });
+    } else if (item.type === "file_search_call") {
+      const results = Array.isArray(item.results)
+        ? (item.results as LooseRecord[]).map(result => ({
+          file_id: str(result.file_id),
+          filename: str(result.filename),
+          score: typeof result.score === "number" ? result.score : undefined,
+          text: str(result.text),
+        }))
+        : undefined;
+      activity.file_searches.push({
+        id,
+        status,
+        queries: Array.isArray(item.queries) ? (item.queries as unknown[]).filter((q): q is string => typeof q === "string") : [],
+        results,
+      });
+    } else if (item.type === "code_interpreter_call") {
+      activity.code_executions.push({ id, status, code: str(item.code) ?? "", ...extractCodeOutputs(item) });
+    }
+  }
+
+  const empty = activity.citations.length === 0 &&
+    activity.web_searches.length === 0 &&
+    activity.file_searches.length === 0 &&
+    activity.code_executions.length === 0;
+  return empty ? undefined : activity;
+}
+
+// =============================================================================
+// Markdown Rendering
+// =============================================================================
+
+/** Render tool activity as a markdown section appended to the answer */
+export function formatToolActivity(activity: ToolActivity | undefined): string {
+  if (!activity) {
+    return "";
+  }
+
+  let text = "";
+
+  if (activity.citations.length > 0) {
+    text += "\n\n**Sources:**";
+    activity.citations.forEach((citation, index) => {
+      text += citation.type === "url"
+        ? `\n${index + 1}. [${citation.title || citation.url}](${citation.url})`
+        : `\n${index + 1}. ${citation.filename ?? citation.file_id} (file)`;
+    });
+  }
+
+  if (activity.web_searches.length > 0) {
+    text += "\n\n**Web searches:**";
+    for (const search of activity.web_searches) {
+      text += `\n- ${search.query ? `"${search.query}"` : "_(query not reported)_"} (${search.status})`;
+    }
+  }
+
+  if (activity.file_searches.length > 0) {
+    text += "\n\n**File searches:**";
+    for (const search of activity.file_searches) {
+      const queries = search.queries.map(q => `"${q}"`).join(", ") || "_(no queries)_";
+      const results = search.results ? `, ${search.results.length} results` : "";
+      text += `\n- ${queries} (${search.status}${results})`;
+    }
+  }
+
+  for (const run of activity.code_executions) {
+    text += `\n\n**Code interpreter** (${run.status}):\n\`\`\`python\n${run.code}\n\`\`\``;
+    if (run.logs.length > 0) {
+      text += `\nOutput:\n\`\`\`\n${run.logs.join("\n")}\n\`\`\``;
+    }
+    if (run.files.length > 0) {
+      text += `\nFiles: ${run.files.map(f => `\`${f.file_id}\``).join(", ")}`;
+    }
+    if (run.images.length > 0) {
+      text += `\nImages: ${run.images.length}`;
+    }
+  }
+
+  return text;
+}
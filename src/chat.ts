@@ -0,0 +1,267 @@
+/**
+ * Chat Completions Fallback
+ *
+ * Adapter for backends without `/v1/responses` (older Azure API versions,
+ * local OpenAI-compatible servers). Converts a Responses API request into a
+ * Chat Completions request and the completion (or its stream) back into a
+ * Responses API `Response`, so the tools handle both the same way.
+ *
+ * Features that only exist in the Responses API - built-in tools, chaining
+ * with previous_response_id, file inputs - are rejected with a ProviderError.
+ */
+
+import { randomUUID } from "node:crypto";
+import type OpenAI from "openai";
+import { ProviderError } from "./providers.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Request dialect of a Chat Completions backend */
+export interface ChatDialect {
+  /** Provider name, used in error messages */
+  provider: string;
+  /**
+   * OpenAI-compatible servers: send `max_tokens` instead of
+   * `max_completion_tokens` and no `reasoning_effort`.
+   */
+  compatible: boolean;
+}
+
+type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
+type ChatContentPart = OpenAI.Chat.ChatCompletionContentPart;
+
+// =============================================================================
+// Request Conversion
+// =============================================================================
+
+function unsupported(dialect: ChatDialect, feature: string): ProviderError {
+  return new ProviderError(
+    `Provider "${dialect.provider}" only supports Chat Completions; the Responses API is required for ${feature}.`
+  );
+}
+
+/** Convert Responses input content to Chat Completions content */
+function toChatContent(
+  content: string | OpenAI.Responses.ResponseInputMessageContentList,
+  dialect: ChatDialect
+): string | ChatContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.map((part): ChatContentPart => {
+    if (part.type === "input_text") {
+      return { type: "text", text: part.text };
+    }
+    if (part.type === "input_image" && part.image_url) {
+      return { type: "image_url", image_url: { url: part.image_url, detail: part.detail } };
+    }
+    throw unsupported(dialect, `input of type "${part.type}"`);
+  });
+}
+
+/** Plain text of assistant content (assistant messages cannot carry images) */
+function toAssistantText(content: string | ChatContentPart[]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.map(part => (part.type === "text" ? part.text : "")).join("");
+}
+
+/** Convert Responses input items to chat messages */
+function toChatMessages(
+  input: OpenAI.Responses.ResponseCreateParams["input"],
+  dialect: ChatDialect
+): ChatMessage[] {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }];
+  }
+
+  return (input ?? []).map((item): ChatMessage => {
+    if ((item.type !== undefined && item.type !== "message") || !("role" in item) || !("content" in item)) {
+      throw unsupported(dialect, `input items of type "${item.type}"`);
+    }
+    const content = toChatContent(item.content as string | OpenAI.Responses.ResponseInputMessageContentList, dialect);
+    switch (item.role) {
+      case "assistant":
+        return { role: "assistant", content: toAssistantText(content) };
+      case "developer":
+      case "system":
+        // Compatible servers rarely know "developer"; "system" works everywhere
+        return { role: "system", content: toAssistantText(content) };
+      default:
+        return { role: "user", content };
+    }
+  });
+}
+
+/**
+ * Convert a Responses API request to a Chat Completions request.
+ * Throws a ProviderError for features Chat Completions cannot express.
+ */
+export function toChatRequest(
+  request: OpenAI.Responses.ResponseCreateParams,
+  dialect: ChatDialect
+): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+  if (request.tools && request.tools.length > 0) {
+    throw unsupported(dialect, "built-in tools");
+  }
+  if (request.previous_response_id) {
+    throw unsupported(dialect, "previous_response_id");
+  }
+
+  const messages = toChatMessages(request.input, dialect);
+  if (request.instructions) {
+    messages.unshift({ role: "system", content: request.instructions });
+  }
+
+  const chatRequest: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+    model: request.model ?? "",
+    messages,
+  };
+
+  if (request.max_output_tokens != null) {
+    if (dialect.compatible) {
+      chatRequest.max_tokens = request.max_output_tokens;
+    } else {
+      chatRequest.max_completion_tokens = request.max_output_tokens;
+    }
+  }
+  if (request.temperature != null) {
+    chatRequest.temperature = request.temperature;
+  }
+  if (request.top_p != null) {
+    chatRequest.top_p = request.top_p;
+  }
+  if (request.reasoning?.effort && !dialect.compatible) {
+    chatRequest.reasoning_effort = request.reasoning.effort;
+  }
+
+  const format = request.text?.format;
+  if (format?.type === "json_schema") {
+    chatRequest.response_format = {
+      type: "json_schema",
+      json_schema: { name: format.name, schema: format.schema, strict: format.strict },
+    };
+  } else if (format?.type === "json_object") {
+    chatRequest.response_format = { type: "json_object" };
+  }
+
+  return chatRequest;
+}
+
+// =============================================================================
+// Response Conversion
+// =============================================================================
+
+/** Fields of a completion needed to build a Response */
+interface CompletionParts {
+  created: number;
+  model: string;
+  text: string;
+  refusal: string | null;
+  finishReason: string | null;
+  usage?: OpenAI.CompletionUsage;
+}
+
+/**
+ * Build a Responses API Response from completion parts.
+ * Compatible servers don't guarantee unique completion ids, so the response
+ * gets its own id (it is used as the response handle).
+ */
+function toResponse(parts: CompletionParts): OpenAI.Responses.Response {
+  const content: unknown[] = [];
+  if (parts.text) {
+    content.push({ type: "output_text", text: parts.text, annotations: [] });
+  }
+  if (parts.refusal) {
+    content.push({ type: "refusal", refusal: parts.refusal });
+  }
+  const incomplete = parts.finishReason === "length" || parts.finishReason === "content_filter";
+
+  const id = `chat_${randomUUID()}`;
+  const response = {
+    id,
+    object: "response",
+    created_at: parts.created,
+    model: parts.model,
+    status: incomplete ? "incomplete" : "completed",
+    incomplete_details: incomplete
+      ? { reason: parts.finishReason === "length" ? "max_output_tokens" : "content_filter" }
+      : null,
+    error: null,
+    output: [{
+      type: "message",
+      id: `msg_${id}`,
+      role: "assistant",
+      status: incomplete ? "incomplete" : "completed",
+      content,
+    }],
+    output_text: parts.text,
+    usage: parts.usage
+      ? {
+        input_tokens: parts.usage.prompt_tokens,
+        input_tokens_details: { cached_tokens: parts.usage.prompt_tokens_details?.cached_tokens ?? 0 },
+        output_tokens: parts.usage.completion_tokens,
+        output_tokens_details: { reasoning_tokens: parts.usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+        total_tokens: parts.usage.total_tokens,
+      }
+      : undefined,
+  };
+  return response as unknown as OpenAI.Responses.Response;
+}
+
+/** Convert a chat completion to a Responses API Response */
+export function chatCompletionToResponse(completion: OpenAI.Chat.ChatCompletion): OpenAI.Responses.Response {
+  const choice = completion.choices[0];
+  return toResponse({
+    created: completion.created,
+    model: completion.model,
+    text: choice?.message.content ?? "",
+    refusal: choice?.message.refusal ?? null,
+    finishReason: choice?.finish_reason ?? null,
+    usage: completion.usage,
+  });
+}
+
+/**
+ * Collects a streamed chat completion.
+ * `add()` returns the text delta of each chunk for progress reporting.
+ */
+export class ChatStreamAccumulator {
+  private parts: CompletionParts = {
+    created: 0,
+    model: "",
+    text: "",
+    refusal: null,
+    finishReason: null,
+  };
+
+  add(chunk: OpenAI.Chat.ChatCompletionChunk): string {
+    this.parts.created ||= chunk.created;
+    this.parts.model ||= chunk.model;
+    if (chunk.usage) {
+      this.parts.usage = chunk.usage;
+    }
+
+    const choice = chunk.choices[0];
+    if (!choice) {
+      return "";
+    }
+    if (choice.finish_reason) {
+      this.parts.finishReason = choice.finish_reason;
+    }
+    if (choice.delta.refusal) {
+      this.parts.refusal = (this.parts.refusal ?? "") + choice.delta.refusal;
+    }
+    const delta = choice.delta.content ?? "";
+    this.parts.text += delta;
+    return delta;
+  }
+
+  /** The collected completion as a Response */
+  toResponse(): OpenAI.Responses.Response {
+    return toResponse(this.parts);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Config File
+ *
+ * Optional `gpt-mcp.config.json` with server defaults and named presets.
+ * The file is looked up from the working directory upwards, then in the home
+ * directory (GPT_CONFIG_FILE names it explicitly). It is re-read whenever it
+ * changes; an invalid edit is reported and the last valid config stays active.
+ *
+ * Parsing/validation is passed in by the caller (the zod schema lives with
+ * the other schemas in index.ts).
+ */
+
+import { existsSync, readFileSync, watchFile } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { UserFacingError } from "./errors.js";
+import { logger } from "./logger.js";
+import type { RedactionConfig } from "./redaction.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Generation settings a preset or the defaults can set */
+export interface PresetSettings {
+  provider?: string;
+  model?: string;
+  instructions?: string;
+  reasoning_effort?: "none" | "low" | "medium" | "high";
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+}
+
+/** A named bundle of generation settings */
+export interface Preset extends PresetSettings {
+  description?: string;
+}
+
+/** Server-wide defaults */
+export interface ConfigDefaults extends PresetSettings {
+  /** Maximum characters per response page */
+  page_size?: number;
+}
+
+/** Contents of the config file */
+export interface ServerConfig {
+  defaults: ConfigDefaults;
+  presets: Record<string, Preset>;
+  /** Secret scanning of outgoing requests */
+  redaction?: RedactionConfig;
+}
+
+/** Config state reported by gpt_status */
+export interface ConfigStatus {
+  path: string | null;
+  loaded_at: string | null;
+  /** Error of the last load attempt (the previous config stays active) */
+  error: string | null;
+  presets: string[];
+  defaults: ConfigDefaults;
+}
+
+export const CONFIG_FILE_NAME = "gpt-mcp.config.json";
+
+const EMPTY_CONFIG: ServerConfig = { defaults: {}, presets: {} };
+
+// How often the config file is checked for changes
+const WATCH_INTERVAL_MS = 2_000;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown preset or other invalid use of the config */
+export class ConfigError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Find the config file: `explicit` if given, else the nearest
+ * gpt-mcp.config.json from `startDir` upwards, else the one in the home
+ * directory. Returns undefined if there is none.
+ */
+export function findConfigFile(explicit: string | undefined, startDir = process.cwd()): string | undefined {
+  if (explicit) {
+    return path.resolve(explicit);
+  }
+
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_FILE_NAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  const home = path.join(os.homedir(), CONFIG_FILE_NAME);
+  return existsSync(home) ? home : undefined;
+}
+
+// =============================================================================
+// Config Manager
+// =============================================================================
+
+/**
+ * Holds the active config and reloads it when the file changes.
+ */
+export class ConfigManager {
+  private config: ServerConfig = EMPTY_CONFIG;
+  private loadedAt: string | null = null;
+  private lastError: string | null = null;
+  private listeners: ((config: ServerConfig) => void)[] = [];
+
+  constructor(
+    readonly filePath: string | undefined,
+    private readonly parse: (raw: unknown) => ServerConfig
+  ) {}
+
+  get current(): ServerConfig {
+    return this.config;
+  }
+
+  /**
+   * (Re)load the file. Returns false and keeps the previous config if the
+   * file cannot be read or is invalid.
+   */
+  load(): boolean {
+    if (!this.filePath) {
+      return true;
+    }
+    try {
+      const raw = existsSync(this.filePath) ? JSON.parse(readFileSync(this.filePath, "utf8")) : {};
+      this.config = this.parse(raw);
+      this.loadedAt = new Date().toISOString();
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return false;
+    }
+    for (const listener of this.listeners) {
+      listener(this.config);
+    }
+    return true;
+  }
+
+  /** Register a callback for every successful (re)load */
+  onChange(listener: (config: ServerConfig) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /** Reload the file whenever it changes (polling, so editors' atomic saves are seen) */
+  watch(): void {
+    if (!this.filePath) {
+      return;
+    }
+    watchFile(this.filePath, { interval: WATCH_INTERVAL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      if (this.load()) {
+        logger.info("config", `Reloaded config from ${this.filePath}`);
+      } else {
+        logger.warning("config", `Invalid config in ${this.filePath}, keeping the previous one: ${this.lastError}`);
+      }
+    });
+  }
+
+  /** Look up a preset, throwing a ConfigError that lists the known ones */
+  preset(name: string): Preset {
+    const preset = this.config.presets[name];
+    if (!preset) {
+      const known = Object.keys(this.config.presets);
+      throw new ConfigError(
+        `Unknown preset "${name}". ` +
+        (known.length > 0 ? `Available presets: ${known.join(", ")}` : `No presets are defined (${this.filePath ?? CONFIG_FILE_NAME}).`)
+      );
+    }
+    return preset;
+  }
+
+  status(): ConfigStatus {
+    return {
+      path: this.filePath ?? null,
+      loaded_at: this.loadedAt,
+      error: this.lastError,
+      presets: Object.keys(this.config.presets),
+      defaults: this.config.defaults,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Context Window Management
+ *
+ * Token estimates for conversation histories and the plan for fitting a
+ * history into a model's context window. When the messages do not fit, a
+ * strategy decides what goes: the oldest turns, the middle of the
+ * conversation (keeping its first and last messages), or the older turns are
+ * replaced by a summary. The last message is always kept.
+ *
+ * Estimates are rough (about 4 characters per token, images a flat 1000
+ * tokens), so the plan leaves some headroom below the window.
+ */
+
+import type OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const CONTEXT_STRATEGIES = ["drop_oldest", "keep_ends", "summarize", "fail"] as const;
+
+/** What happens to a history that does not fit the context window */
+export type ContextStrategy = typeof CONTEXT_STRATEGIES[number];
+
+export interface ContextOptions {
+  strategy: ContextStrategy;
+  /** Leading messages never dropped (keep_ends) */
+  keep_first: number;
+  /** Trailing messages never dropped or summarized (keep_ends, summarize) */
+  keep_last: number;
+}
+
+/** A message as the plan sees it */
+export interface ContextMessage {
+  role: string;
+  tokens: number;
+}
+
+/** Which messages to send, drop or summarize (indexes into the history) */
+export interface ContextPlan {
+  kept: number[];
+  dropped: number[];
+  summarized: number[];
+}
+
+/** How a history was fitted, reported in the tool result */
+export interface ContextReport {
+  /** Estimated input tokens as given: messages, instructions and attached files */
+  estimated_tokens: number;
+  /** Estimated input tokens as sent */
+  sent_tokens: number;
+  /** Context window of the model (null if the model is not in the capability table) */
+  context_window: number | null;
+  /** Tokens reserved for the answer */
+  reserved_output_tokens: number;
+  strategy: ContextStrategy;
+  /** Whether the strategy had to change the history */
+  applied: boolean;
+  /** Indexes of the messages left out */
+  dropped: number[];
+  /** Indexes of the messages replaced by the summary */
+  summarized: number[];
+  /** Model that wrote the summary */
+  summary_model?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1000;
+
+// Share of the window the input may fill (the estimate is only approximate)
+const WINDOW_HEADROOM = 0.95;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** A history that cannot be fitted into the context window */
+export class ContextWindowError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContextWindowError";
+  }
+}
+
+// =============================================================================
+// Estimation
+// =============================================================================
+
+/** Rough token estimate of request content: strings by length, images at a flat rate */
+export function estimateTokens(value: unknown): number {
+  let characters = 0;
+  let imageTokens = 0;
+
+  const visit = (node: unknown): void => {
+    if (typeof node === "string") {
+      characters += node.length;
+    } else if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === "object") {
+      const record = node as Record<string, unknown>;
+      if (record.type === "input_image") {
+        imageTokens += IMAGE_TOKENS;
+        return;
+      }
+      Object.values(record).forEach(visit);
+    }
+  };
+  visit(value);
+
+  return Math.ceil(characters / CHARS_PER_TOKEN) + imageTokens;
+}
+
+/** Input tokens available in a window once the answer and fixed input are reserved */
+export function inputBudget(contextWindow: number, reservedTokens: number): number {
+  return Math.floor(contextWindow * WINDOW_HEADROOM) - reservedTokens;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Decide which messages to send within `budget` tokens. `summaryTokens` is
+ * the room reserved for the summary message (strategy "summarize").
+ * Throws a ContextWindowError if the strategy cannot make the history fit.
+ */
+export function planContext(
+  messages: ContextMessage[],
+  budget: number,
+  options: ContextOptions,
+  summaryTokens: number
+): ContextPlan {
+  const all = messages.map((_, index) => index);
+  const total = messages.reduce((sum, message) => sum + message.tokens, 0);
+  if (total <= budget) {
+    return { kept: all, dropped: [], summarized: [] };
+  }
+
+  const last = messages.length - 1;
+  if (budget <= 0 || messages[last].tokens > budget) {
+    throw new ContextWindowError(
+      `The last message alone (~${messages[last].tokens.toLocaleString()} tokens) does not fit the ` +
+      `~${Math.max(budget, 0).toLocaleString()} input tokens left in the context window. ` +
+      `Shorten it, attach fewer files, lower max_output_tokens or use a model with a larger window.`
+    );
+  }
+  if (options.strategy === "fail") {
+    throw new ContextWindowError(
+      `The messages (~${total.toLocaleString()} tokens) exceed the ~${budget.toLocaleString()} input tokens ` +
+      `left in the context window. Shorten the history or choose a context strategy.`
+    );
+  }
+
+  if (options.strategy === "summarize") {
+    // Summarize everything before the last keep_last messages, more if needed
+    let split = Math.max(0, messages.length - Math.max(options.keep_last, 1));
+    const sentTokens = (): number =>
+      messages.slice(split).reduce((sum, message) => sum + message.tokens, 0) + (split > 0 ? summaryTokens : 0);
+    while (sentTokens() > budget && split < last) {
+      split++;
+    }
+    if (sentTokens() > budget) {
+      throw new ContextWindowError(
+        `The last message and a summary of the rest do not fit the ~${budget.toLocaleString()} input tokens ` +
+        `left in the context window.`
+      );
+    }
+    return { kept: all.slice(split), dropped: [], summarized: all.slice(0, split) };
+  }
+
+  // drop_oldest: everything but the last message may go; keep_ends: only the middle
+  const keepFirst = options.strategy === "keep_ends" ? Math.min(options.keep_first, last) : 0;
+  const keepLast = options.strategy === "keep_ends" ? Math.max(options.keep_last, 1) : 1;
+  const candidates = all.slice(keepFirst, Math.max(keepFirst, messages.length - keepLast));
+
+  const dropped = new Set<number>();
+  let remaining = total;
+  for (const index of candidates) {
+    // Keep dropping assistant replies whose question is gone
+    if (remaining <= budget && messages[index].role !== "assistant") {
+      break;
+    }
+    dropped.add(index);
+    remaining -= messages[index].tokens;
+  }
+  if (remaining > budget) {
+    throw new ContextWindowError(
+      `Keeping the first ${keepFirst} and last ${keepLast} message(s) still needs ~${remaining.toLocaleString()} ` +
+      `tokens, more than the ~${budget.toLocaleString()} input tokens left in the context window. ` +
+      `Lower keep_first / keep_last or use the strategy "drop_oldest" or "summarize".`
+    );
+  }
+  return { kept: all.filter(index => !dropped.has(index)), dropped: [...dropped], summarized: [] };
+}
+
+// =============================================================================
+// Summaries
+// =============================================================================
+
+/** Plain-text transcript of messages for the summarizer (images become placeholders) */
+export function formatTranscript(items: OpenAI.Responses.ResponseInputItem[]): string {
+  return items.map(item => {
+    if (!("role" in item) || !("content" in item)) {
+      return "";
+    }
+    const content = typeof item.content === "string"
+      ? item.content
+      : (item.content as unknown[]).map(part => {
+        const record = part as Record<string, unknown>;
+        return typeof record.text === "string" ? record.text : record.type === "input_image" ? "[image]" : "";
+      }).join("\n");
+    return `[${item.role}]\n${content}`;
+  }).filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,17 @@
+/**
+ * User-Facing Errors
+ *
+ * Base class for errors raised by the server's own checks (unknown ids,
+ * invalid arguments, policy refusals, budget caps). The message is shown to
+ * the client as is, and `category` is reported in the structured error
+ * output; these errors are never retried.
+ */
+
+import type { ErrorCategory } from "./resilience.js";
+
+export class UserFacingError extends Error {
+  constructor(message: string, readonly category: ErrorCategory = "bad_request") {
+    super(message);
+    this.name = "UserFacingError";
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * File Context
+ *
+ * Reads local files (paths and glob patterns) on behalf of the client and
+ * turns them into labelled fenced blocks that are prepended to the prompt.
+ *
+ * Access is restricted to the configured workspace roots: paths that resolve
+ * outside a root (via `..` or symlinks) are rejected, binaries are skipped,
+ * and per-file and total size limits are enforced.
+ */
+
+import fg from "fast-glob";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { UserFacingError } from "./errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Limits and roots applied when reading files */
+export interface FileContextOptions {
+  /** Absolute workspace root directories; the first one resolves relative paths */
+  roots: string[];
+  /** Maximum bytes read from a single file (larger files are truncated) */
+  maxFileBytes: number;
+  /** Maximum bytes across all files (later files are truncated or skipped) */
+  maxTotalBytes: number;
+  /** Maximum number of files included */
+  maxFiles: number;
+}
+
+/** A file that was read and included in the prompt */
+export interface IncludedFile {
+  path: string;
+  bytes: number;
+  truncated: boolean;
+}
+
+/** A requested file (or pattern) that was not included */
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+/** What was done with each requested file, reported in structured output */
+export interface FileContextReport {
+  included: IncludedFile[];
+  skipped: SkippedFile[];
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Path with '..' segments, outside the workspace roots, missing or of the wrong type */
+export class WorkspacePathError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspacePathError";
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Bytes inspected for NUL characters when detecting binary files
+const BINARY_SNIFF_BYTES = 8000;
+
+// Don't include a truncated tail smaller than this - skip the file instead
+const MIN_USEFUL_BYTES = 256;
+
+// Directories never expanded by glob patterns
+export const GLOB_IGNORE = ["**/node_modules/**", "**/.git/**"];
+
+// Fence language hints by file extension
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ".ts": "ts", ".tsx": "tsx", ".js": "js", ".jsx": "jsx", ".mjs": "js", ".cjs": "js",
+  ".json": "json", ".md": "markdown", ".py": "python", ".rb": "ruby", ".go": "go",
+  ".rs": "rust", ".java": "java", ".kt": "kotlin", ".swift": "swift", ".c": "c",
+  ".h": "c", ".cpp": "cpp", ".hpp": "cpp", ".cs": "csharp", ".php": "php",
+  ".sh": "bash", ".yml": "yaml", ".yaml": "yaml", ".toml": "toml", ".sql": "sql",
+  ".html": "html", ".css": "css", ".scss": "scss", ".xml": "xml",
+};
+
+// =============================================================================
+// Path Safety
+// =============================================================================
+
+/** Whether `target` is `root` itself or inside it */
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a path to its real location and return the workspace root that
+ * contains it, or undefined if it escapes every root.
+ */
+async function findContainingRoot(realRoots: string[], target: string): Promise<string | undefined> {
+  const real = await fs.realpath(target);
+  return realRoots.find(root => isInside(root, real));
+}
+
+/** Whether a pattern or path contains a `..` segment */
+function hasParentSegment(pattern: string): boolean {
+  return pattern.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Resolve a single file path inside the workspace roots.
+ * Relative paths resolve against the first root. Throws if the path uses
+ * `..`, does not exist, is not a regular file or resolves outside every root.
+ */
+export async function resolveWorkspaceFile(filePath: string, roots: string[]): Promise<string> {
+  if (hasParentSegment(filePath)) {
+    throw new WorkspacePathError(`Path "${filePath}" must not contain '..' segments.`);
+  }
+
+  const resolved = path.resolve(roots[0], filePath);
+  const realRoots = await Promise.all(roots.map(root => fs.realpath(root).catch(() => root)));
+
+  let root: string | undefined;
+  try {
+    root = await findContainingRoot(realRoots, resolved);
+  } catch {
+    throw new WorkspacePathError(`File "${filePath}" not found.`);
+  }
+  if (!root) {
+    throw new WorkspacePathError(`File "${filePath}" is outside the workspace roots.`);
+  }
+  if (!(await fs.stat(resolved)).isFile()) {
+    throw new WorkspacePathError(`Path "${filePath}" is not a regular file.`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve a file or directory path inside the workspace roots.
+ * Relative paths resolve against the first root. Returns the real path and
+ * the (real) root containing it. Throws if the path uses `..`, does not exist
+ * or resolves outside every root.
+ */
+export async function resolveWorkspacePath(filePath: string, roots: string[]): Promise<{ root: string; path: string }> {
+  if (hasParentSegment(filePath)) {
+    throw new WorkspacePathError(`Path "${filePath}" must not contain '..' segments.`);
+  }
+
+  const realRoots = await Promise.all(roots.map(root => fs.realpath(root).catch(() => root)));
+  let real: string;
+  try {
+    real = await fs.realpath(path.resolve(roots[0], filePath));
+  } catch {
+    throw new WorkspacePathError(`Path "${filePath}" not found.`);
+  }
+  const root = realRoots.find(r => isInside(r, real));
+  if (!root) {
+    throw new WorkspacePathError(`Path "${filePath}" is outside the workspace roots.`);
+  }
+  return { root, path: real };
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/** Read at most `limit` bytes of a file */
+export async function readHead(filePath: string, limit: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(limit);
+    const { bytesRead } = await handle.read(buffer, 0, limit, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Heuristic binary check: NUL bytes near the start of the file */
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/** Pick a backtick fence longer than any backtick run inside the content */
+export function fenceFor(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return "`".repeat(longest + 1);
+}
+
+/** Render a file as a labelled fenced block */
+function renderFile(displayPath: string, content: string, truncated: boolean): string {
+  const fence = fenceFor(content);
+  const language = LANGUAGE_BY_EXTENSION[path.extname(displayPath).toLowerCase()] ?? "";
+  const label = truncated ? `File: ${displayPath} (truncated)` : `File: ${displayPath}`;
+  return `${label}\n${fence}${language}\n${content.replace(/\n$/, "")}\n${fence}`;
+}
+
+/**
+ * Expand the requested paths/patterns into absolute file paths.
+ * Patterns that cannot be used are reported as skipped.
+ */
+async function expandPatterns(
+  patterns: string[],
+  options: FileContextOptions,
+  skipped: SkippedFile[]
+): Promise<string[]> {
+  const baseRoot = options.roots[0];
+  const files: string[] = [];
+
+  for (const pattern of patterns) {
+    if (hasParentSegment(pattern)) {
+      skipped.push({ path: pattern, reason: "'..' segments are not allowed" });
+      continue;
+    }
+
+    if (!fg.isDynamicPattern(pattern)) {
+      files.push(path.resolve(baseRoot, pattern));
+      continue;
+    }
+
+    // Glob patterns are always evaluated inside a workspace root
+    const root = path.isAbsolute(pattern)
+      ? options.roots.find(r => isInside(r, pattern))
+      : baseRoot;
+    if (!root) {
+      skipped.push({ path: pattern, reason: "outside the workspace roots" });
+      continue;
+    }
+
+    const relativePattern = path.isAbsolute(pattern)
+      ? path.relative(root, pattern).split(path.sep).join("/")
+      : pattern;
+    const matches = await fg(relativePattern, {
+      cwd: root,
+      absolute: true,
+      onlyFiles: true,
+      followSymbolicLinks: false,
+      ignore: GLOB_IGNORE,
+    });
+    if (matches.length === 0) {
+      skipped.push({ path: pattern, reason: "pattern matched no files" });
+    }
+    files.push(...matches.sort().map(match => path.normalize(match)));
+  }
+
+  return [...new Set(files)];
+}
+
+/**
+ * Read the requested files and build the prompt context.
+ *
+ * Returns the rendered blocks (empty string if nothing was included) and a
+ * report of which files were included, truncated or skipped and why.
+ */
+export async function buildFileContext(
+  patterns: string[],
+  options: FileContextOptions
+): Promise<{ text: string; report: FileContextReport }> {
+  const report: FileContextReport = { included: [], skipped: [] };
+  const realRoots = await Promise.all(options.roots.map(root => fs.realpath(root).catch(() => root)));
+  const blocks: string[] = [];
+  let remaining = options.maxTotalBytes;
+
+  const files = await expandPatterns(patterns, options, report.skipped);
+
+  for (const filePath of files) {
+    const displayRoot = options.roots.find(r => isInside(r, filePath));
+    const displayPath = displayRoot ? path.relative(displayRoot, filePath) || filePath : filePath;
+
+    if (report.included.length >= options.maxFiles) {
+      report.skipped.push({ path: displayPath, reason: `file count limit (${options.maxFiles}) reached` });
+      continue;
+    }
+
+    let stat;
+    let root: string | undefined;
+    try {
+      stat = await fs.stat(filePath);
+      root = await findContainingRoot(realRoots, filePath);
+    } catch {
+      report.skipped.push({ path: displayPath, reason: "not found" });
+      continue;
+    }
+    if (!root) {
+      report.skipped.push({ path: displayPath, reason: "outside the workspace roots" });
+      continue;
+    }
+    if (!stat.isFile()) {
+      report.skipped.push({ path: displayPath, reason: "not a regular file" });
+      continue;
+    }
+
+    const limit = Math.min(options.maxFileBytes, remaining);
+    if (limit < Math.min(MIN_USEFUL_BYTES, stat.size) || limit <= 0) {
+      report.skipped.push({ path: displayPath, reason: `total size limit (${options.maxTotalBytes} bytes) reached` });
+      continue;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await readHead(filePath, Math.min(limit, stat.size));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? "read error";
+      report.skipped.push({ path: displayPath, reason: `unreadable (${code})` });
+      continue;
+    }
+    if (isBinary(buffer)) {
+      report.skipped.push({ path: displayPath, reason: "binary file" });
+      continue;
+    }
+
+    const truncated = stat.size > buffer.length;
+    // A cut in the middle of a multi-byte character decodes as U+FFFD - harmless
+    const content = buffer.toString("utf8");
+    blocks.push(renderFile(displayPath, content, truncated));
+    report.included.push({ path: displayPath, bytes: buffer.length, truncated });
+    remaining -= buffer.length;
+  }
+
+  return { text: blocks.join("\n\n"), report };
+}
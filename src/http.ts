@@ -0,0 +1,372 @@
+/**
+ * HTTP Transport
+ *
+ * Serves the MCP server over HTTP so one shared instance (holding the
+ * organization's API key and budget) can serve a whole team:
+ *
+ *   POST/GET/DELETE /mcp   Streamable HTTP transport (one session per client)
+ *   GET /sse, POST /messages   Legacy HTTP+SSE transport for older clients
+ *   GET /health            Liveness check (no authentication)
+ *
+ * Clients authenticate with a shared token, sent either as
+ * `Authorization: Bearer <token>` or `X-API-Key: <token>`. Requests from
+ * browsers are only accepted from the configured origins. Every client
+ * session gets its own McpServer instance from the factory; idle sessions
+ * are closed after a timeout.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { ErrorCode, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** HTTP server settings */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Accepted tokens; empty disables authentication */
+  authTokens: string[];
+  /** Origins allowed to call the server from a browser ("*" allows any) */
+  allowedOrigins: string[];
+  /** Sessions without requests for this long are closed */
+  sessionIdleMs: number;
+  /** Maximum size of a request body */
+  maxBodyBytes: number;
+  /** Reported by the health endpoint */
+  name: string;
+  version: string;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** An HTTP error response with a JSON-RPC error body */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: number = ErrorCode.InvalidRequest
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SWEEP_INTERVAL_MS = 60_000;
+const SHUTDOWN_GRACE_MS = 10_000;
+
+const CORS_ALLOW_HEADERS = "Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID";
+
+/** Compare secrets in constant time (hashing first evens out the lengths) */
+function tokenMatches(candidate: string, token: string): boolean {
+  const a = createHash("sha256").update(candidate).digest();
+  const b = createHash("sha256").update(token).digest();
+  return timingSafeEqual(a, b);
+}
+
+/** Token from `Authorization: Bearer` or `X-API-Key`, if any */
+function requestToken(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim();
+  }
+  const apiKey = req.headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+/** Read and parse a JSON request body */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Parse error: request body is not valid JSON", ErrorCode.ParseError);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: HttpError): void {
+  const headers: Record<string, string> = error.status === 401 ? { "WWW-Authenticate": "Bearer" } : {};
+  sendJson(res, error.status, { jsonrpc: "2.0", error: { code: error.code, message: error.message }, id: null }, headers);
+}
+
+function sessionHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers["mcp-session-id"];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// =============================================================================
+// HTTP Server
+// =============================================================================
+
+/**
+ * MCP over HTTP.
+ * `createServer` is called once per client session; the sessions share
+ * everything the factory closes over (stores, ledger, providers).
+ */
+export class McpHttpServer {
+  private readonly sessions = new Map<string, HttpSession>();
+  private readonly http: http.Server;
+  private sweepTimer?: NodeJS.Timeout;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly createServer: () => McpServer,
+    private readonly options: HttpServerOptions
+  ) {
+    this.http = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!(error instanceof HttpError)) {
+          logger.warning("http", `HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+          error = new HttpError(500, "Internal server error", ErrorCode.InternalError);
+        }
+        if (!res.headersSent) {
+          sendError(res, error as HttpError);
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  /** Base URL of the server */
+  get url(): string {
+    const host = this.options.host.includes(":") ? `[${this.options.host}]` : this.options.host;
+    return `http://${host}:${this.options.port}`;
+  }
+
+  /** Number of open client sessions */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /** Start listening */
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.http.once("error", reject);
+      this.http.listen(this.options.port, this.options.host, () => {
+        this.http.off("error", reject);
+        this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+        this.sweepTimer.unref();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Graceful shutdown: stop accepting connections, close every session and
+   * wait for in-flight requests (at most SHUTDOWN_GRACE_MS).
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const closed = new Promise<void>(resolve => this.http.close(() => resolve()));
+    this.http.closeIdleConnections();
+    await Promise.all([...this.sessions.keys()].map(id => this.closeSession(id)));
+    const grace = setTimeout(() => this.http.closeAllConnections(), SHUTDOWN_GRACE_MS);
+    await closed;
+    clearTimeout(grace);
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (!this.checkOrigin(req, res)) {
+      throw new HttpError(403, `Origin ${req.headers.origin} is not allowed`);
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      sendJson(res, 200, {
+        status: "ok",
+        name: this.options.name,
+        version: this.options.version,
+        sessions: this.sessions.size,
+        uptime_seconds: Math.round((Date.now() - this.startedAt) / 1000),
+      });
+      return;
+    }
+
+    this.authenticate(req);
+
+    switch (url.pathname) {
+      case "/mcp":
+        return this.handleStreamable(req, res);
+      case "/sse":
+        if (req.method !== "GET") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        return this.openSse(res);
+      case "/messages":
+        if (req.method !== "POST") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        return this.postSse(req, res, url.searchParams.get("sessionId"));
+      default:
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Browsers send an Origin header; only listed origins may call the server
+   * (this also guards against DNS rebinding). Sets the CORS headers.
+   */
+  private checkOrigin(req: IncomingMessage, res: ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin) {
+      return true;
+    }
+    const { allowedOrigins } = this.options;
+    if (!allowedOrigins.includes("*") && !allowedOrigins.includes(origin)) {
+      return false;
+    }
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", CORS_ALLOW_HEADERS);
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    return true;
+  }
+
+  private authenticate(req: IncomingMessage): void {
+    const { authTokens } = this.options;
+    if (authTokens.length === 0) {
+      return;
+    }
+    const token = requestToken(req);
+    // Check every token so the response time does not reveal which one matched
+    const matched = token !== undefined && authTokens.map(t => tokenMatches(token, t)).includes(true);
+    if (!matched) {
+      throw new HttpError(401, "Unauthorized: send a valid token as 'Authorization: Bearer <token>' or 'X-API-Key'");
+    }
+  }
+
+  // ===========================================================================
+  // Streamable HTTP
+  // ===========================================================================
+
+  private async handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = sessionHeader(req);
+    const body = req.method === "POST" ? await readJsonBody(req, this.options.maxBodyBytes) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // Tells the client to start a new session
+        throw new HttpError(404, "Session not found");
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, "Session belongs to the SSE transport");
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "Bad request: missing Mcp-Session-Id header (only initialize may start a session)");
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { transport, server, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // ===========================================================================
+  // Legacy HTTP+SSE
+  // ===========================================================================
+
+  private async openSse(res: ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    this.sessions.set(transport.sessionId, { transport, server, lastSeen: Date.now() });
+    res.on("close", () => {
+      this.closeSession(transport.sessionId).catch(() => {});
+    });
+    await server.connect(transport);
+  }
+
+  private async postSse(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      throw new HttpError(404, "Session not found");
+    }
+    session.lastSeen = Date.now();
+    const body = await readJsonBody(req, this.options.maxBodyBytes);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  // ===========================================================================
+  // Sessions
+  // ===========================================================================
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warning("http", `Could not close session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /** Close Streamable HTTP sessions idle for longer than sessionIdleMs (SSE sessions end with their stream) */
+  private sweep(): void {
+    const cutoff = Date.now() - this.options.sessionIdleMs;
+    for (const [id, session] of this.sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastSeen < cutoff) {
+        this.closeSession(id).catch(() => {});
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Image Inputs
+ *
+ * Loads images for vision requests - from local paths inside the workspace
+ * roots or from base64 data - and converts them to Responses API
+ * `input_image` items. Every image is size-checked and its type is sniffed
+ * from the magic bytes before anything is uploaded.
+ */
+
+import { promises as fs } from "node:fs";
+import type OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+import { resolveWorkspaceFile } from "./files.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Image detail level passed to the API */
+export type ImageDetail = "low" | "high" | "auto";
+
+/** Image mime types accepted by the Responses API */
+export type ImageMimeType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+
+/** An image referenced by local path */
+export interface ImagePathSource {
+  type: "image_path";
+  path: string;
+  detail?: ImageDetail;
+}
+
+/** An image passed inline as base64 (optionally as a data URL) */
+export interface ImageBase64Source {
+  type: "image_base64";
+  data: string;
+  mime_type: ImageMimeType;
+  detail?: ImageDetail;
+}
+
+export type ImageSource = ImagePathSource | ImageBase64Source;
+
+/** Limits and roots applied when loading images */
+export interface ImageOptions {
+  /** Workspace roots that local image paths must resolve inside */
+  roots: string[];
+  /** Maximum decoded size of a single image in bytes */
+  maxBytes: number;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Invalid, oversized or unsupported image */
+export class ImageError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageError";
+  }
+}
+
+// =============================================================================
+// Mime Sniffing
+// =============================================================================
+
+/** Detect the image type from its magic bytes */
+export function sniffImageMime(buffer: Buffer): ImageMimeType | undefined {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.subarray(0, 6).toString("latin1"))) {
+    return "image/gif";
+  }
+  if (buffer.length >= 12 &&
+      buffer.subarray(0, 4).toString("latin1") === "RIFF" &&
+      buffer.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/** Decode base64 image data, accepting an optional data URL prefix */
+function decodeBase64(data: string): Buffer {
+  const payload = data.replace(/^data:[^;,]+;base64,/, "").replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(payload)) {
+    throw new ImageError("Image data is not valid base64.");
+  }
+  return Buffer.from(payload, "base64");
+}
+
+/**
+ * Load an image and convert it to a Responses API `input_image` item.
+ * Throws with an actionable message if the image is missing, too large,
+ * not a supported type, or (for base64) does not match its declared type.
+ */
+export async function loadImage(
+  source: ImageSource,
+  options: ImageOptions
+): Promise<OpenAI.Responses.ResponseInputImage> {
+  let buffer: Buffer;
+  let label: string;
+
+  if (source.type === "image_path") {
+    label = source.path;
+    const filePath = await resolveWorkspaceFile(source.path, options.roots);
+    const { size } = await fs.stat(filePath);
+    if (size > options.maxBytes) {
+      throw new ImageError(`Image "${label}" is ${size} bytes, above the ${options.maxBytes} byte limit.`);
+    }
+    buffer = await fs.readFile(filePath);
+  } else {
+    label = "base64 image";
+    buffer = decodeBase64(source.data);
+    if (buffer.length > options.maxBytes) {
+      throw new ImageError(`Image data is ${buffer.length} bytes, above the ${options.maxBytes} byte limit.`);
+    }
+  }
+
+  if (buffer.length === 0) {
+    throw new ImageError(`Image "${label}" is empty.`);
+  }
+
+  const mime = sniffImageMime(buffer);
+  if (!mime) {
+    throw new ImageError(`Image "${label}" is not a supported format (PNG, JPEG, GIF or WEBP).`);
+  }
+  if (source.type === "image_base64" && source.mime_type !== mime) {
+    throw new ImageError(`Image data declared as ${source.mime_type} but looks like ${mime}.`);
+  }
+
+  return {
+    type: "input_image",
+    image_url: `data:${mime};base64,${buffer.toString("base64")}`,
+    detail: source.detail ?? "auto",
+  };
+}
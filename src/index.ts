@@ -15,10 +15,147 @@
  * @see https://platform.openai.com/docs/api-reference/responses
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  McpError,
+  type Resource,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import OpenAI from "openai";
+import { readFileSync, realpathSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import { z } from "zod";
+import {
+  buildBuiltinTools,
+  extractToolActivity,
+  formatToolActivity,
+  type BuiltinToolsOptions,
+  type ToolActivity,
+} from "./builtins.js";
+import {
+  BatchError,
+  BatchJobStore,
+  addUsage,
+  batchCustomId,
+  buildBatchFile,
+  parseBatchOutput,
+  runPool,
+  summarizeBatch,
+  type BatchEndpoint,
+  type BatchItem,
+  type BatchItemResult,
+  type BatchJob,
+  type BatchOutputLine,
+  type BatchSummary,
+} from "./batch.js";
+import { ChatStreamAccumulator, chatCompletionToResponse, toChatRequest, type ChatDialect } from "./chat.js";
+import { ConfigManager, findConfigFile, type ServerConfig } from "./config.js";
+import {
+  CONTEXT_STRATEGIES,
+  ContextWindowError,
+  estimateTokens,
+  formatTranscript,
+  inputBudget,
+  planContext,
+  type ContextOptions,
+  type ContextReport,
+  type ContextStrategy,
+} from "./context.js";
+import {
+  LOCAL_FUNCTIONS,
+  LOCAL_FUNCTION_NAMES,
+  runLocalFunction,
+  type FunctionCallTrace,
+  type LocalFunctionName,
+} from "./agent.js";
+import { buildFileContext, type FileContextReport, type SkippedFile } from "./files.js";
+import { McpHttpServer } from "./http.js";
+import { loadImage, type ImageSource } from "./images.js";
+import {
+  JobError,
+  JobStore,
+  isJobFinished,
+  type BackgroundJob,
+  type JobResultContext,
+  type JobStatus,
+} from "./jobs.js";
+import { LOG_LEVELS, logger, type LogLevel } from "./logger.js";
+import {
+  DEFAULT_CAPABILITIES,
+  ModelCapabilityError,
+  ModelCatalog,
+  applyCapabilities,
+  defaultReasoningEffort,
+  findCapabilities,
+  type CapabilityMode,
+  type CapabilityTable,
+  type ModelCapabilities,
+  type ReasoningEffort,
+} from "./models.js";
+import { ResponseStore, decodeCursor, type ResponsePage } from "./pages.js";
+import {
+  Provider,
+  ProviderError,
+  ProviderRegistry,
+  type ProviderApi,
+  type ProviderProfile,
+} from "./providers.js";
+import { RECORD_MODES, Recorder, unwrapRecordingError, type RecordMode } from "./recording.js";
+import {
+  REDACTION_MODES,
+  SecretPolicyError,
+  createRedactionPolicy,
+  describeFinding,
+  scanRequest,
+  type RedactionMode,
+} from "./redaction.js";
+import { ResourceSubscriptions, installPaginatedResourceList } from "./resources.js";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  RetryError,
+  describeError,
+  withRetry,
+  type RetryPolicy,
+} from "./resilience.js";
+import {
+  REVIEW_CATEGORIES,
+  REVIEW_SCHEMA,
+  REVIEW_SEVERITIES,
+  ReviewError,
+  mergeFindings,
+  planReview,
+  type ReviewChunk,
+  type ReviewFinding,
+  type ReviewSeverity,
+  type ReviewSource,
+} from "./review.js";
+import { loadJsonSchema, validateStructuredOutput, type JsonSchema } from "./schema.js";
+import { SessionStore, type Session, type TokenUsage } from "./sessions.js";
+import {
+  BUILTIN_TEMPLATES,
+  TemplateError,
+  loadTemplateDir,
+  renderTemplate,
+  type PromptTemplate,
+  type TemplateMeta,
+} from "./templates.js";
+import {
+  BudgetExceededError,
+  DEFAULT_PRICES,
+  UsageLedger,
+  estimateCost,
+  utcDate,
+  type BudgetLimits,
+  type LedgerEntry,
+  type PriceTable,
+} from "./usage.js";
 
 // =============================================================================
 // Constants
@@ -30,14 +167,194 @@ const SERVER_VERSION = "2.1.0";
 // Model configuration - gpt-5.4 works with Responses API
 const FALLBACK_MODEL = "gpt-5.4";
 const CONFIGURED_MODEL = process.env.GPT_MODEL;
-let ACTIVE_MODEL = CONFIGURED_MODEL || FALLBACK_MODEL;
-let MODEL_FALLBACK_USED = false;
 
 // Reasoning configuration - "low" is the minimum supported level for gpt-5.4
-const DEFAULT_REASONING_EFFORT = "low";
+const DEFAULT_REASONING_EFFORT: ReasoningEffort = "low";
 
-// Response limits - prevent context overflow
-const CHARACTER_LIMIT = 25000;
+// Model catalog - cached model lists and the local capability table
+const MODELS_CACHE_TTL_MS = Number(process.env.GPT_MODELS_CACHE_TTL_MS) || 3_600_000;
+const CAPABILITIES_FILE = process.env.GPT_MODEL_CAPABILITIES_FILE;
+const CAPABILITY_MODE = (process.env.GPT_CAPABILITY_CHECK || "drop") as CapabilityMode;
+
+// Response pages - long answers are split into pages instead of truncated
+// (GPT_PAGE_SIZE overrides the config file's defaults.page_size)
+const DEFAULT_PAGE_SIZE = 25_000;
+const PAGE_SIZE_OVERRIDE = optionalNumber(process.env.GPT_PAGE_SIZE);
+const RESPONSE_TTL_MS = Number(process.env.GPT_RESPONSE_TTL_MS) || 3_600_000;
+const RESPONSE_CACHE_MAX = Number(process.env.GPT_RESPONSE_CACHE_MAX) || 200;
+const RESPONSE_CACHE_DIR = process.env.GPT_RESPONSE_CACHE_DIR || undefined;
+const RESPONSE_SWEEP_INTERVAL_MS = 60_000;
+
+// MCP resources - entries per resources/list page
+const RESOURCE_PAGE_SIZE = 50;
+
+// Config file - defaults and named presets (gpt-mcp.config.json)
+const CONFIG_FILE = findConfigFile(process.env.GPT_CONFIG_FILE);
+
+// Providers - named backend profiles (JSON) and the default provider
+const PROVIDERS_FILE = process.env.GPT_PROVIDERS_FILE;
+const DEFAULT_PROVIDER = process.env.GPT_PROVIDER || "openai";
+
+// Local storage - persistent server state (conversation sessions, ...)
+const DATA_DIR = process.env.GPT_MCP_DATA_DIR || path.join(os.homedir(), ".gpt-mcp-server");
+const SESSIONS_FILE = process.env.GPT_SESSIONS_FILE || path.join(DATA_DIR, "sessions.json");
+
+// Logging - level, JSONL log file with rotation ("off" = stderr only) and
+// whether prompt bodies go into the audit records
+const LOG_LEVEL = (process.env.GPT_LOG_LEVEL || "info") as LogLevel;
+const LOG_FILE = process.env.GPT_LOG_FILE === "off"
+  ? undefined
+  : process.env.GPT_LOG_FILE || path.join(DATA_DIR, "logs", "gpt-mcp.jsonl");
+const LOG_MAX_BYTES = Number(process.env.GPT_LOG_MAX_BYTES) || 10 * 1024 * 1024;
+const LOG_MAX_FILES = Number(process.env.GPT_LOG_MAX_FILES) || 5;
+const LOG_PROMPTS = process.env.GPT_LOG_PROMPTS === "true";
+// Window of the error counts reported by gpt_status
+const LOG_ERROR_WINDOW_MS = 3_600_000;
+
+// Context window - what gpt_messages does with histories that do not fit, and
+// the model and size of summaries of older turns
+const CONTEXT_STRATEGY = (process.env.GPT_CONTEXT_STRATEGY || "drop_oldest") as ContextStrategy;
+const CONTEXT_SUMMARY_MODEL = process.env.GPT_CONTEXT_SUMMARY_MODEL || undefined;
+const CONTEXT_KEEP_FIRST = 1;
+const CONTEXT_KEEP_LAST = 4;
+const CONTEXT_SUMMARY_MAX_TOKENS = 4000;
+// Summary model for OpenAI providers when GPT_CONTEXT_SUMMARY_MODEL is not set
+const DEFAULT_SUMMARY_MODEL = "gpt-5-mini";
+
+// Comparisons - maximum number of variants per gpt_compare call
+const COMPARE_MAX_VARIANTS = 8;
+
+// Code review - characters of diff and context per gpt_review call, calls per
+// review and calls in flight at once
+const REVIEW_CHUNK_CHARS = Number(process.env.GPT_REVIEW_CHUNK_CHARS) || 60_000;
+const REVIEW_MAX_CHUNKS = Number(process.env.GPT_REVIEW_MAX_CHUNKS) || 10;
+const REVIEW_CONCURRENCY = 4;
+const REVIEW_DEFAULT_CONTEXT_LINES = 20;
+const REVIEW_MAX_DIFF_CHARS = 2_000_000;
+
+// Batches - concurrency of direct batches and the record of Batch API jobs
+const BATCHES_FILE = process.env.GPT_BATCHES_FILE || path.join(DATA_DIR, "batches.json");
+const BATCH_DEFAULT_CONCURRENCY = Number(process.env.GPT_BATCH_CONCURRENCY) || 4;
+const BATCH_MAX_CONCURRENCY = 16;
+const BATCH_MAX_DIRECT_ITEMS = 200;
+const BATCH_MAX_ITEMS = 10_000;
+// Batch API calls cost half the list price
+const BATCH_API_PRICE_FACTOR = 0.5;
+
+// Background jobs - record of background calls and the finished jobs kept
+const JOBS_FILE = process.env.GPT_JOBS_FILE || path.join(DATA_DIR, "jobs.json");
+const JOB_HISTORY_MAX = Number(process.env.GPT_JOB_HISTORY_MAX) || 100;
+
+// Prompt templates - Markdown files with front matter, loaded at startup
+const TEMPLATES_DIR = process.env.GPT_TEMPLATES_DIR || path.join(DATA_DIR, "templates");
+
+// File context - workspace roots and read limits for the `files` parameter
+const WORKSPACE_ROOTS = (process.env.GPT_WORKSPACE_ROOTS || process.cwd())
+  .split(path.delimiter)
+  .filter(Boolean)
+  .map(root => path.resolve(root));
+const FILE_MAX_BYTES = Number(process.env.GPT_FILE_MAX_BYTES) || 100_000;
+const FILES_MAX_TOTAL_BYTES = Number(process.env.GPT_FILES_MAX_TOTAL_BYTES) || 400_000;
+const FILES_MAX_COUNT = 100;
+
+// Agent mode - limits of the local function-calling loop of gpt_generate
+const AGENT_MAX_ITERATIONS = 25;
+const AGENT_DEFAULT_ITERATIONS = Math.min(Number(process.env.GPT_AGENT_MAX_ITERATIONS) || 8, AGENT_MAX_ITERATIONS);
+const AGENT_DEFAULT_MAX_TOKENS = Number(process.env.GPT_AGENT_MAX_TOKENS) || 200_000;
+const AGENT_OUTPUT_MAX_CHARS = Number(process.env.GPT_AGENT_OUTPUT_MAX_CHARS) || 50_000;
+const AGENT_COMMAND_TIMEOUT_MS = 15_000;
+
+// Secret redaction - what happens to secrets found in outgoing requests
+// (GPT_REDACTION_MODE overrides the config file's redaction.mode)
+const REDACTION_MODE = process.env.GPT_REDACTION_MODE as RedactionMode | undefined;
+
+// Record / replay - record upstream traffic to fixture files or replay it offline
+const RECORD_MODE = (process.env.GPT_RECORD_MODE || "off") as RecordMode;
+const RECORD_DIR = process.env.GPT_RECORD_DIR || path.join(DATA_DIR, "fixtures");
+
+// Image inputs - maximum size of a single image
+const IMAGE_MAX_BYTES = Number(process.env.GPT_IMAGE_MAX_BYTES) || 20 * 1024 * 1024;
+
+// Resilience - timeout, retry/backoff and circuit breaker for OpenAI calls
+const RETRY_POLICY: RetryPolicy = {
+  timeoutMs: Number(process.env.GPT_REQUEST_TIMEOUT_MS) || 600_000,
+  maxRetries: process.env.GPT_MAX_RETRIES !== undefined ? Number(process.env.GPT_MAX_RETRIES) : 3,
+  baseDelayMs: Number(process.env.GPT_RETRY_BASE_DELAY_MS) || 1_000,
+  maxDelayMs: Number(process.env.GPT_RETRY_MAX_DELAY_MS) || 30_000,
+  circuitThreshold: Number(process.env.GPT_CIRCUIT_BREAKER_THRESHOLD) || 5,
+  circuitCooldownMs: Number(process.env.GPT_CIRCUIT_BREAKER_COOLDOWN_MS) || 30_000,
+};
+
+// Usage ledger - token accounting, price table and budget caps (USD)
+const USAGE_FILE = process.env.GPT_USAGE_FILE || path.join(DATA_DIR, "usage.json");
+const PRICES_FILE = process.env.GPT_PRICES_FILE;
+const BUDGET_LIMITS: BudgetLimits = {
+  daily: optionalNumber(process.env.GPT_BUDGET_DAILY_USD),
+  monthly: optionalNumber(process.env.GPT_BUDGET_MONTHLY_USD),
+  per_call: optionalNumber(process.env.GPT_BUDGET_PER_CALL_USD),
+};
+
+// Output tokens assumed for budget checks when max_output_tokens is not set
+const DEFAULT_OUTPUT_ESTIMATE = 4096;
+
+// Incomplete answers - continuations per call with auto_continue: true, and
+// the most a call may ask for
+const AUTO_CONTINUE_MAX = 10;
+const AUTO_CONTINUE_DEFAULT = Math.min(Number(process.env.GPT_AUTO_CONTINUE_MAX) || 3, AUTO_CONTINUE_MAX);
+const CONTINUE_PROMPT = "Your previous answer was cut off. Continue exactly where it stopped, " +
+  "without repeating anything or adding an introduction.";
+
+// Streaming - minimum interval between progress notifications
+const PROGRESS_INTERVAL_MS = 500;
+
+// Transport - stdio (default) or HTTP for a shared instance; the command-line
+// flags --http / --transport, --host and --port override the env vars
+const CLI_OPTIONS = parseCliOptions(process.argv.slice(2));
+const TRANSPORT = CLI_OPTIONS.transport ?? process.env.GPT_MCP_TRANSPORT ?? "stdio";
+const HTTP_HOST = CLI_OPTIONS.host ?? process.env.GPT_MCP_HTTP_HOST ?? "127.0.0.1";
+const HTTP_PORT = CLI_OPTIONS.port ?? (optionalNumber(process.env.GPT_MCP_HTTP_PORT) ?? 3000);
+const HTTP_AUTH_TOKENS = splitList(process.env.GPT_MCP_AUTH_TOKENS);
+const HTTP_ALLOWED_ORIGINS = splitList(process.env.GPT_MCP_ALLOWED_ORIGINS);
+const HTTP_SESSION_IDLE_MS = Number(process.env.GPT_MCP_HTTP_SESSION_IDLE_MS) || 1_800_000;
+const HTTP_MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+/** Parse an optional numeric env var (undefined when unset or empty) */
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/** Split a comma-separated env var */
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+/** Parse the command line: --http, --stdio, --transport <stdio|http>, --host <host>, --port <port> */
+function parseCliOptions(args: string[]): { transport?: string; host?: string; port?: number } {
+  const options: { transport?: string; host?: string; port?: number } = {};
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--([\w-]+)(?:=(.*))?$/.exec(args[i]);
+    const value = (): string => match?.[2] ?? args[++i] ?? "";
+    switch (match?.[1]) {
+      case "http":
+      case "stdio":
+        options.transport = match[1];
+        break;
+      case "transport":
+        options.transport = value();
+        break;
+      case "host":
+        options.host = value();
+        break;
+      case "port":
+        options.port = Number(value());
+        break;
+      default:
+        console.error(`ERROR: Unknown argument "${args[i]}". Usage: gpt-mcp-server [--http | --stdio] [--host <host>] [--port <port>]`);
+        process.exit(1);
+    }
+  }
+  return options;
+}
 
 // =============================================================================
 // Types
@@ -49,91 +366,485 @@ enum ResponseFormat {
   JSON = "json"
 }
 
-/** Reasoning effort levels supported by GPT-5.x models */
-type ReasoningEffort = "none" | "low" | "medium" | "high";
+/** Extra context passed by the MCP SDK to every tool handler */
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Generation settings shared by every tool that calls the model */
+interface GenerationOptions {
+  instructions?: string;
+  reasoning_effort?: ReasoningEffort;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+}
+
+/** Who is calling the model, for usage accounting and progress reporting */
+interface CallContext {
+  /** Tool name recorded in the usage ledger */
+  tool: string;
+  /** Backend the call goes to */
+  provider: Provider;
+  extra: ToolExtra;
+  stream: boolean;
+  /** Capability warnings (dropped or clamped parameters), filled in by createResponse */
+  warnings: string[];
+  /** Last request sent upstream (after redaction and capability checks), filled in by createResponse */
+  sent?: OpenAI.Responses.ResponseCreateParams;
+  /** Continuations requested when an answer stops at max_output_tokens (0 or unset = none) */
+  autoContinue?: number;
+}
+
+/** Phase of a streamed response, reported in progress notifications */
+type StreamPhase = "reasoning" | "output";
+
+/** Pagination fields added to every generation result (a type alias, so it stays assignable to structuredContent) */
+type PageFields = {
+  /** Handle of the stored full answer */
+  response_handle: string;
+  page: number;
+  total_pages: number;
+  /** Cursor for gpt_read_more, null on the last page */
+  next_cursor: string | null;
+};
+
+// =============================================================================
+// Logging Initialization
+// =============================================================================
+
+if (!LOG_LEVELS.includes(LOG_LEVEL)) {
+  console.error(`ERROR: GPT_LOG_LEVEL must be one of: ${LOG_LEVELS.join(", ")}`);
+  process.exit(1);
+}
+
+logger.configure({ level: LOG_LEVEL, file: LOG_FILE, maxBytes: LOG_MAX_BYTES, maxFiles: LOG_MAX_FILES });
+
+// =============================================================================
+// Provider Initialization
+// =============================================================================
+
+const ProviderProfileSchema = z.object({
+  type: z.enum(["openai", "azure", "compatible"]).default("compatible"),
+  base_url: z.string().url().optional(),
+  auth: z.enum(["bearer", "api-key", "none"]).optional(),
+  api_key_env: z.string().min(1).optional(),
+  api_version: z.string().min(1).optional(),
+  api: z.enum(["responses", "chat", "auto"]).optional(),
+  default_model: z.string().min(1).optional(),
+  headers: z.record(z.string()).optional(),
+}).strict()
+  .refine(profile => profile.type === "openai" || profile.base_url, {
+    message: "base_url is required for azure and compatible providers",
+  })
+  .refine(profile => profile.type !== "azure" || profile.api_version, {
+    message: "api_version is required for azure providers",
+  });
+
+/**
+ * Build the provider profiles: the built-in "openai" profile (OPENAI_API_KEY,
+ * optional OPENAI_BASE_URL, GPT_MODEL), plus the profiles from
+ * GPT_PROVIDERS_FILE and then the GPT_PROVIDERS env var (JSON objects keyed by
+ * provider name). A configured "openai" profile replaces the built-in one.
+ */
+function loadProviderProfiles(): ProviderProfile[] {
+  const profiles = new Map<string, ProviderProfile>([["openai", {
+    name: "openai",
+    type: "openai",
+    base_url: process.env.OPENAI_BASE_URL || undefined,
+    auth: "bearer",
+    api: "responses",
+    default_model: CONFIGURED_MODEL,
+  }]]);
+
+  const add = (json: string): void => {
+    const config = z.record(ProviderProfileSchema).parse(JSON.parse(json));
+    for (const [name, profile] of Object.entries(config)) {
+      profiles.set(name, {
+        ...profile,
+        name,
+        // Local servers usually need no key; everything else uses one
+        auth: profile.auth ?? (profile.type === "compatible" && !profile.api_key_env ? "none"
+          : profile.type === "azure" ? "api-key" : "bearer"),
+        api: profile.api ?? (profile.type === "openai" ? "responses" : "auto"),
+      });
+    }
+  };
+
+  try {
+    if (PROVIDERS_FILE) {
+      add(readFileSync(PROVIDERS_FILE, "utf8"));
+    }
+    if (process.env.GPT_PROVIDERS) {
+      add(process.env.GPT_PROVIDERS);
+    }
+  } catch (error) {
+    console.error(
+      `ERROR: Invalid provider configuration (GPT_PROVIDERS_FILE / GPT_PROVIDERS): ` +
+      `${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
+  return [...profiles.values()];
+}
+
+/**
+ * Create the provider registry; each provider gets its own circuit breaker.
+ * All providers share the recorder of GPT_RECORD_MODE.
+ */
+function createProviders(): ProviderRegistry {
+  if (!RECORD_MODES.includes(RECORD_MODE)) {
+    console.error(`ERROR: GPT_RECORD_MODE must be one of: ${RECORD_MODES.join(", ")}`);
+    process.exit(1);
+  }
+  const recorder = new Recorder(RECORD_MODE, RECORD_DIR);
+
+  const providers = loadProviderProfiles().map(profile => new Provider(
+    profile,
+    new CircuitBreaker(RETRY_POLICY.circuitThreshold, RETRY_POLICY.circuitCooldownMs),
+    profile.default_model,
+    FALLBACK_MODEL,
+    RETRY_POLICY.timeoutMs,
+    recorder
+  ));
+  if (recorder.offline) {
+    logger.info("recording", `Replaying upstream traffic from ${RECORD_DIR}; requests without a fixture fail`);
+  } else if (RECORD_MODE === "record") {
+    logger.info("recording", `Recording upstream traffic to ${RECORD_DIR}`);
+  }
+
+  if (!providers.some(provider => provider.name === DEFAULT_PROVIDER)) {
+    console.error(
+      `ERROR: GPT_PROVIDER "${DEFAULT_PROVIDER}" is not configured. ` +
+      `Available providers: ${providers.map(provider => provider.name).join(", ")}`
+    );
+    process.exit(1);
+  }
+  return new ProviderRegistry(providers, DEFAULT_PROVIDER);
+}
+
+const providers = createProviders();
 
 // =============================================================================
 // Environment Validation
 // =============================================================================
 
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) {
+if (!providers.default.apiKeyConfigured) {
   console.error(
-    "ERROR: OPENAI_API_KEY environment variable is required.\n" +
-    "Get your API key at: https://platform.openai.com/api-keys"
+    providers.default.name === "openai"
+      ? "ERROR: OPENAI_API_KEY environment variable is required.\n" +
+        "Get your API key at: https://platform.openai.com/api-keys"
+      : `ERROR: ${providers.default.apiKeyEnv ?? "An API key"} environment variable is required ` +
+        `for the default provider "${providers.default.name}".`
   );
   process.exit(1);
 }
 
+if (REDACTION_MODE !== undefined && !REDACTION_MODES.includes(REDACTION_MODE)) {
+  console.error(`ERROR: GPT_REDACTION_MODE must be one of: ${REDACTION_MODES.join(", ")}`);
+  process.exit(1);
+}
+
+/**
+ * Run an upstream call through the shared retry policy and the provider's
+ * circuit breaker. Every upstream call in the server goes through here.
+ * A missing replay fixture fails at once instead of counting as a network error.
+ */
+function callOpenAI<T>(
+  provider: Provider,
+  fn: () => Promise<T>,
+  signal?: AbortSignal,
+  shouldRetry?: (error: unknown) => boolean
+): Promise<T> {
+  provider.assertConfigured();
+  const call = (): Promise<T> => fn().catch(error => {
+    throw unwrapRecordingError(error);
+  });
+  return withRetry(call, { policy: RETRY_POLICY, breaker: provider.breaker, signal, shouldRetry });
+}
+
+// =============================================================================
+// Config File Initialization
+// =============================================================================
+
+const ReasoningEffortSchema = z.enum(["none", "low", "medium", "high"]);
+
+const PresetSettingsSchema = z.object({
+  provider: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  instructions: z.string().optional(),
+  reasoning_effort: ReasoningEffortSchema.optional(),
+  max_output_tokens: z.number().int().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+});
+
+const ConfigFileSchema = z.object({
+  $schema: z.string().optional(),
+  defaults: PresetSettingsSchema.extend({
+    page_size: z.number().int().min(1000).optional(),
+  }).strict().default({}),
+  presets: z.record(
+    z.string().regex(/^[\w.-]+$/, "Preset names may only contain letters, digits, '_', '.' and '-'"),
+    PresetSettingsSchema.extend({ description: z.string().optional() }).strict()
+  ).default({}),
+  redaction: z.object({
+    mode: z.enum(REDACTION_MODES).optional(),
+    entropy: z.boolean().optional(),
+    patterns: z.array(z.object({
+      name: z.string().regex(/^\w+$/, "Pattern names may only contain letters, digits and '_'"),
+      pattern: z.string().min(1),
+      flags: z.string().regex(/^[imsu]*$/, "Pattern flags may only be i, m, s and u").optional(),
+    }).strict()).optional(),
+    allow: z.array(z.string().min(1)).optional(),
+  }).strict().optional(),
+}).strict();
+
+/** Validate the config file contents; zod messages are joined into one error */
+function parseConfig(raw: unknown): ServerConfig {
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; "));
+  }
+  const { defaults, presets, redaction } = result.data;
+
+  // Provider names must refer to configured profiles
+  const unknown = [["defaults", defaults.provider], ...Object.entries(presets).map(([name, preset]) => [`presets.${name}`, preset.provider])]
+    .filter(([, provider]) => provider !== undefined && !providers.list().some(p => p.name === provider));
+  if (unknown.length > 0) {
+    throw new Error(unknown.map(([where, provider]) => `${where}.provider: unknown provider "${provider}"`).join("; "));
+  }
+
+  // Custom patterns must compile
+  createRedactionPolicy(redaction);
+  return { defaults, presets, redaction };
+}
+
+const serverConfig = new ConfigManager(CONFIG_FILE, parseConfig);
+if (!serverConfig.load()) {
+  console.error(`ERROR: Invalid config file ${CONFIG_FILE}: ${serverConfig.status().error}`);
+  process.exit(1);
+}
+
+// Secret redaction policy, rebuilt when the config file changes
+let redactionPolicy = createRedactionPolicy(serverConfig.current.redaction, REDACTION_MODE);
+serverConfig.onChange(config => {
+  redactionPolicy = createRedactionPolicy(config.redaction, REDACTION_MODE);
+});
+
+// =============================================================================
+// Usage Ledger Initialization
+// =============================================================================
+
+const PriceTableSchema = z.record(z.object({
+  input: z.number().min(0),
+  cached_input: z.number().min(0).optional(),
+  output: z.number().min(0),
+}).strict());
+
+/**
+ * Build the price table: defaults, overridden by GPT_PRICES_FILE and then by
+ * the GPT_PRICES env var (both JSON, USD per 1M tokens keyed by model).
+ */
+function loadPriceTable(): PriceTable {
+  const prices: PriceTable = { ...DEFAULT_PRICES };
+  try {
+    if (PRICES_FILE) {
+      Object.assign(prices, PriceTableSchema.parse(JSON.parse(readFileSync(PRICES_FILE, "utf8"))));
+    }
+    if (process.env.GPT_PRICES) {
+      Object.assign(prices, PriceTableSchema.parse(JSON.parse(process.env.GPT_PRICES)));
+    }
+  } catch (error) {
+    console.error(
+      `ERROR: Invalid price table (GPT_PRICES_FILE / GPT_PRICES): ` +
+      `${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
+  return prices;
+}
+
+// A cap that is not a number would make every budget check pass
+for (const [name, value] of [
+  ["GPT_BUDGET_DAILY_USD", BUDGET_LIMITS.daily],
+  ["GPT_BUDGET_MONTHLY_USD", BUDGET_LIMITS.monthly],
+  ["GPT_BUDGET_PER_CALL_USD", BUDGET_LIMITS.per_call],
+] as const) {
+  if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+    console.error(`ERROR: ${name} must be a number of USD >= 0 (got "${process.env[name]}")`);
+    process.exit(1);
+  }
+}
+
+const usageLedger = new UsageLedger(USAGE_FILE, loadPriceTable(), BUDGET_LIMITS);
+
 // =============================================================================
-// OpenAI Client Initialization
+// Model Catalog Initialization
 // =============================================================================
 
-const openai = new OpenAI({ apiKey });
+const CapabilityTableSchema = z.record(z.object({
+  reasoning: z.boolean(),
+  reasoning_efforts: z.array(ReasoningEffortSchema).default([]),
+  sampling: z.boolean(),
+  context_window: z.number().int().min(1),
+  max_output_tokens: z.number().int().min(1),
+  vision: z.boolean(),
+  tools: z.boolean(),
+}).strict());
+
+/**
+ * Build the capability table: defaults, overridden by
+ * GPT_MODEL_CAPABILITIES_FILE and then by the GPT_MODEL_CAPABILITIES env var
+ * (both JSON keyed by model id or prefix).
+ */
+function loadCapabilityTable(): CapabilityTable {
+  const table: CapabilityTable = { ...DEFAULT_CAPABILITIES };
+  try {
+    if (CAPABILITIES_FILE) {
+      Object.assign(table, CapabilityTableSchema.parse(JSON.parse(readFileSync(CAPABILITIES_FILE, "utf8"))));
+    }
+    if (process.env.GPT_MODEL_CAPABILITIES) {
+      Object.assign(table, CapabilityTableSchema.parse(JSON.parse(process.env.GPT_MODEL_CAPABILITIES)));
+    }
+  } catch (error) {
+    console.error(
+      `ERROR: Invalid model capability table (GPT_MODEL_CAPABILITIES_FILE / GPT_MODEL_CAPABILITIES): ` +
+      `${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
+  return table;
+}
+
+if (!["drop", "reject", "off"].includes(CAPABILITY_MODE)) {
+  console.error(`ERROR: GPT_CAPABILITY_CHECK must be "drop", "reject" or "off" (got "${CAPABILITY_MODE}")`);
+  process.exit(1);
+}
+
+if (!CONTEXT_STRATEGIES.includes(CONTEXT_STRATEGY)) {
+  console.error(`ERROR: GPT_CONTEXT_STRATEGY must be one of: ${CONTEXT_STRATEGIES.join(", ")}`);
+  process.exit(1);
+}
+
+const modelCapabilities = loadCapabilityTable();
+const modelCatalog = new ModelCatalog(MODELS_CACHE_TTL_MS);
+
+/** List a provider's models through the catalog cache */
+function listModels(provider: Provider, refresh = false) {
+  return modelCatalog.list(provider.name, async () => {
+    const models = await callOpenAI(provider, () => provider.client.models.list({ timeout: RETRY_POLICY.timeoutMs }));
+    return models.data.map(m => m.id);
+  }, refresh);
+}
+
+// Same rule as the config file's defaults.page_size
+if (PAGE_SIZE_OVERRIDE !== undefined && !(Number.isInteger(PAGE_SIZE_OVERRIDE) && PAGE_SIZE_OVERRIDE >= 1000)) {
+  console.error(`ERROR: GPT_PAGE_SIZE must be an integer of at least 1000 (got "${process.env.GPT_PAGE_SIZE}")`);
+  process.exit(1);
+}
+
+// Full text of recent answers, served page by page via gpt_read_more
+const responseStore = new ResponseStore({
+  pageSize: PAGE_SIZE_OVERRIDE ?? serverConfig.current.defaults.page_size ?? DEFAULT_PAGE_SIZE,
+  ttlMs: RESPONSE_TTL_MS,
+  maxEntries: RESPONSE_CACHE_MAX,
+  dir: RESPONSE_CACHE_DIR,
+});
 
 // =============================================================================
 // Model Validation
 // =============================================================================
 
 /**
- * Validate configured model exists in OpenAI API.
- * Only validates if GPT_MODEL env var is explicitly set.
- * Falls back to FALLBACK_MODEL if validation fails.
+ * Validate the configured model of a provider against its model list.
+ *
+ * - OpenAI: only when GPT_MODEL / default_model is set; falls back to
+ *   FALLBACK_MODEL if the model does not exist.
+ * - Compatible servers: without a default_model, the first listed model is
+ *   used; a configured model that is not listed falls back to it as well.
+ * - Azure: deployments are not listed by the API, nothing to validate.
  */
-async function validateConfiguredModel(): Promise<void> {
-  // No custom model configured - use default without validation
-  if (!CONFIGURED_MODEL) {
+async function validateProviderModel(provider: Provider): Promise<void> {
+  const { type } = provider.profile;
+  if (type === "azure" || (type === "openai" && !provider.configuredModel)) {
+    return;
+  }
+  if (!provider.apiKeyConfigured) {
+    logger.warning("models", `Provider "${provider.name}" has no API key (${provider.apiKeyEnv}). Skipping model validation.`);
     return;
   }
 
+  const configured = provider.configuredModel;
   try {
-    const models = await openai.models.list();
-    const modelIds = models.data.map(m => m.id);
+    const modelIds = (await listModels(provider)).ids;
 
-    const modelExists = modelIds.includes(CONFIGURED_MODEL);
+    if (configured && modelIds.includes(configured)) {
+      return;
+    }
 
-    if (!modelExists) {
-      console.error(
-        `Warning: Model "${CONFIGURED_MODEL}" not found in available models. ` +
-        `Falling back to: ${FALLBACK_MODEL}`
+    const fallback = type === "openai" ? FALLBACK_MODEL : modelIds[0];
+    if (!fallback) {
+      logger.warning("models", `Provider "${provider.name}" lists no models. Using "${provider.activeModel}".`);
+      return;
+    }
+    if (configured) {
+      logger.warning(
+        "models",
+        `Model "${configured}" not found in available models of provider "${provider.name}". ` +
+        `Falling back to: ${fallback}`
       );
-      ACTIVE_MODEL = FALLBACK_MODEL;
-      MODEL_FALLBACK_USED = true;
+      provider.modelFallbackUsed = true;
     }
+    provider.activeModel = fallback;
   } catch (error) {
     // API error - can't validate, use configured model with warning
-    console.error(
-      `Warning: Could not validate model "${CONFIGURED_MODEL}". ` +
+    logger.warning(
+      "models",
+      `Could not validate model "${provider.activeModel}" of provider "${provider.name}". ` +
       `API error: ${error instanceof Error ? error.message : String(error)}. ` +
       `Using configured model anyway.`
     );
   }
 }
 
+/** Validate the models of all providers (in parallel) */
+async function validateConfiguredModels(): Promise<void> {
+  await Promise.all(providers.list().map(validateProviderModel));
+}
+
 // =============================================================================
 // Shared Utilities
 // =============================================================================
 
 /**
- * Truncate response if it exceeds CHARACTER_LIMIT.
- * Returns truncated text with warning message.
+ * Handle errors from OpenAI API calls.
+ * Returns actionable error messages to guide users.
  */
-function truncateResponse(text: string): { text: string; truncated: boolean } {
-  if (text.length <= CHARACTER_LIMIT) {
-    return { text, truncated: false };
+function handleOpenAIError(error: unknown): string {
+  if (error instanceof RetryError) {
+    const message = handleOpenAIError(error.cause);
+    return error.attempts > 1 ? `${message} (gave up after ${error.attempts} attempts)` : message;
   }
 
-  const truncated = text.slice(0, CHARACTER_LIMIT);
-  const truncatedText = truncated + `\n\n---\n⚠️ **Response truncated** from ${text.length} to ${CHARACTER_LIMIT} characters. Use \`max_output_tokens\` parameter to limit output size.`;
+  if (error instanceof CircuitOpenError) {
+    return `Error: ${error.message}`;
+  }
 
-  return { text: truncatedText, truncated: true };
-}
+  if (error instanceof BudgetExceededError) {
+    return `Error: Budget exceeded. ${error.message}`;
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return "Error: Request timed out. Please try again with a shorter prompt or lower reasoning_effort.";
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return "Error: Network error. Check internet connection.";
+  }
+
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return "Error: Request was cancelled by the client.";
+  }
 
-/**
- * Handle errors from OpenAI API calls.
- * Returns actionable error messages to guide users.
- */
-function handleOpenAIError(error: unknown): string {
   if (error instanceof OpenAI.APIError) {
     const status = error.status;
     const message = error.message.toLowerCase();
@@ -142,13 +853,21 @@ function handleOpenAIError(error: unknown): string {
       return "Error: Invalid API key. Please verify your OPENAI_API_KEY at platform.openai.com/api-keys";
     }
     if (status === 429) {
+      if (error.code === "insufficient_quota") {
+        return "Error: API quota exceeded. Please check your billing at platform.openai.com/usage";
+      }
       return "Error: Rate limit exceeded. Please wait and try again, or check your API quota.";
     }
     if (status === 402) {
       return "Error: API quota exceeded. Please check your billing at platform.openai.com/usage";
     }
     if (status === 404) {
-      return `Error: Model not found. Please check the model name is correct.`;
+      // Jobs, batches, files and stored responses also answer 404
+      if (error.code === "model_not_found" || error.param === "model" ||
+          (!error.code && !error.param && /model/i.test(error.message))) {
+        return `Error: Model not found. Please check the model name is correct (gpt_models lists the available models).`;
+      }
+      return `Error: Not found: ${error.message}`;
     }
     if (status === 403) {
       return "Error: Permission denied. Your API key may not have access to this model.";
@@ -167,6 +886,27 @@ function handleOpenAIError(error: unknown): string {
   return `Error: Unexpected error occurred: ${String(error)}`;
 }
 
+/**
+ * Rough input token estimate for budget checks (~4 characters per token).
+ * Images count as a flat 1000 tokens instead of their base64 length.
+ */
+function estimateInputTokens(requestOptions: OpenAI.Responses.ResponseCreateParams): number {
+  return estimateTokens([requestOptions.instructions ?? "", requestOptions.input]);
+}
+
+/**
+ * Build a tool error result.
+ * The structured part carries the error category and retry statistics.
+ */
+function errorResult(error: unknown) {
+  const message = handleOpenAIError(error);
+  return {
+    content: [{ type: "text" as const, text: message }],
+    structuredContent: { error: describeError(error, message) },
+    isError: true,
+  };
+}
+
 /**
  * Extract text content from Responses API output.
  * The output structure is: response.output[].content[].text
@@ -191,365 +931,4817 @@ function extractResponseText(response: OpenAI.Responses.Response): string {
   return texts.join("\n\n");
 }
 
-// =============================================================================
-// MCP Server Initialization
-// =============================================================================
+/** Refusal text of a response (the model declined to answer), if any */
+function extractRefusal(response: OpenAI.Responses.Response): string | undefined {
+  const refusals: string[] = [];
+  for (const item of response.output ?? []) {
+    if (item.type === "message") {
+      for (const content of item.content) {
+        if (content.type === "refusal" && content.refusal) {
+          refusals.push(content.refusal);
+        }
+      }
+    }
+  }
+  return refusals.length > 0 ? refusals.join("\n\n") : undefined;
+}
 
-const server = new McpServer({
-  name: SERVER_NAME,
-  version: SERVER_VERSION,
-});
+/** Reasoning summary of a response (only when requested with reasoning_summary) */
+function extractReasoningSummary(response: OpenAI.Responses.Response): string | undefined {
+  const parts: string[] = [];
+  for (const item of response.output ?? []) {
+    if (item.type === "reasoning") {
+      parts.push(...item.summary.map(summary => summary.text).filter(Boolean));
+    }
+  }
+  return parts.length > 0 ? parts.join("\n\n") : undefined;
+}
 
-// =============================================================================
-// Tool: gpt_generate
-// =============================================================================
+/** Status fields of a generation result: whether the answer is complete, and why not */
+function describeCompletion(response: OpenAI.Responses.Response): {
+  status: string;
+  incomplete_reason?: string;
+  refusal?: string;
+} {
+  return {
+    status: response.status ?? "completed",
+    incomplete_reason: response.status === "incomplete" ? response.incomplete_details?.reason ?? "unknown" : undefined,
+    refusal: extractRefusal(response),
+  };
+}
 
-const GenerateInputSchema = z.object({
-  input: z.string()
-    .min(1, "Input prompt is required")
-    .describe("The input text or prompt for GPT"),
-  model: z.string()
-    .optional()
-    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
-  instructions: z.string()
-    .optional()
-    .describe("System instructions for the model"),
-  reasoning_effort: z.enum(["none", "low", "medium", "high"])
-    .optional()
-    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
-  max_output_tokens: z.number()
-    .int()
-    .min(1)
-    .optional()
-    .describe("Maximum output tokens to generate"),
-  temperature: z.number()
-    .min(0)
-    .max(2)
-    .optional()
-    .describe("Temperature for randomness (0-2)"),
-  top_p: z.number()
-    .min(0)
-    .max(1)
-    .optional()
-    .describe("Top-p sampling parameter"),
-  response_format: z.nativeEnum(ResponseFormat)
-    .default(ResponseFormat.MARKDOWN)
-    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
-}).strict();
+/** Warnings for an answer that is cut off or refused (`continued`: auto_continue ran out) */
+function completionWarnings(response: OpenAI.Responses.Response, continued = false): string[] {
+  const { incomplete_reason: reason, refusal } = describeCompletion(response);
+  const warnings: string[] = [];
+  if (reason === "max_output_tokens") {
+    warnings.push(continued
+      ? "The answer is still incomplete after the last continuation. Raise max_output_tokens or auto_continue."
+      : "The answer is incomplete: it stopped at max_output_tokens. Raise max_output_tokens or set auto_continue.");
+  } else if (reason) {
+    warnings.push(`The answer is incomplete (${reason === "content_filter" ? "stopped by the content filter" : reason}).`);
+  }
+  if (refusal) {
+    warnings.push(`The model refused to answer: ${refusal}`);
+  }
+  return warnings;
+}
 
-server.registerTool(
-  "gpt_generate",
-  {
-    title: "Generate Text with GPT",
-    description: `Generate text using OpenAI GPT API with a simple input prompt.
+/** Call parameters that select the provider, model and generation settings */
+interface CallSettings extends GenerationOptions {
+  provider?: string;
+  model?: string;
+  preset?: string;
+}
 
-This tool sends a prompt to OpenAI GPT using the Responses API and returns
-the generated text response. It is ideal for single-turn interactions,
-creative writing, code generation, analysis, and general AI assistance tasks.
+/**
+ * Resolve the provider, model and generation settings of a call.
+ * Precedence: call parameters, then the preset, then the config file
+ * defaults. The config's default provider and model only apply when
+ * GPT_PROVIDER / GPT_MODEL (or the profile's default_model) don't set them.
+ */
+function resolveCallSettings(params: CallSettings): { provider: Provider; model: string; options: GenerationOptions } {
+  const { defaults } = serverConfig.current;
+  const preset = params.preset ? serverConfig.preset(params.preset) : {};
 
-Args:
-  - input (string, required): The prompt or question for GPT
-  - model (string, optional): Model to use (defaults to GPT_MODEL env or gpt-5.4)
-  - instructions (string, optional): System instructions for the model
-  - reasoning_effort (string, optional): Reasoning level - none/low/medium/high
-    - none: No reasoning (like GPT-4.1, fastest)
-    - low: Light reasoning (fast, server default)
-    - medium/high: Increasing reasoning depth
-  - max_output_tokens (number, optional): Maximum output length
-  - temperature (number, optional): Randomness 0-2 (higher = more creative)
-  - top_p (number, optional): Top-p sampling parameter
-  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  const configProvider = process.env.GPT_PROVIDER ? undefined : defaults.provider;
+  const provider = providers.get(params.provider ?? preset.provider ?? configProvider);
+  const configModel = provider.name === (configProvider ?? providers.defaultName) && !provider.configuredModel
+    ? defaults.model
+    : undefined;
 
-Returns:
-  For JSON format: Structured data with schema:
-  {
-    "text": string,           // Generated text content
-    "model": string,          // Model used for generation
+  return {
+    provider,
+    model: params.model ?? preset.model ?? configModel ?? provider.activeModel,
+    options: {
+      instructions: params.instructions ?? preset.instructions ?? defaults.instructions,
+      reasoning_effort: params.reasoning_effort ?? preset.reasoning_effort ?? defaults.reasoning_effort,
+      max_output_tokens: params.max_output_tokens ?? preset.max_output_tokens ?? defaults.max_output_tokens,
+      temperature: params.temperature ?? preset.temperature ?? defaults.temperature,
+      top_p: params.top_p ?? preset.top_p ?? defaults.top_p,
+    },
+  };
+}
+
+/**
+ * Build a Responses API request from the shared generation settings.
+ * Applies the server's default reasoning effort when none is given (adjusted
+ * to what the model supports, see defaultReasoningEffort).
+ */
+function buildRequestOptions(
+  model: string,
+  input: string | OpenAI.Responses.ResponseInputItem[],
+  options: GenerationOptions
+): OpenAI.Responses.ResponseCreateParams {
+  const reasoningEffort = options.reasoning_effort ??
+    defaultReasoningEffort(findCapabilities(modelCapabilities, model), DEFAULT_REASONING_EFFORT);
+
+  const requestOptions: OpenAI.Responses.ResponseCreateParams = {
+    model,
+    input,
+  };
+
+  // Add instructions if provided
+  if (options.instructions) {
+    requestOptions.instructions = options.instructions;
+  }
+
+  // Add reasoning configuration (GPT-5.x models)
+  if (reasoningEffort !== "none") {
+    requestOptions.reasoning = {
+      effort: reasoningEffort as "low" | "medium" | "high",
+    };
+  }
+
+  // Optional parameters
+  if (options.max_output_tokens !== undefined) {
+    requestOptions.max_output_tokens = options.max_output_tokens;
+  }
+  if (options.temperature !== undefined) {
+    requestOptions.temperature = options.temperature;
+  }
+  if (options.top_p !== undefined) {
+    requestOptions.top_p = options.top_p;
+  }
+
+  return requestOptions;
+}
+
+/** Ask for a reasoning summary; ignored with a warning when reasoning is off */
+function applyReasoningSummary(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  summary: "auto" | "concise" | "detailed" | undefined,
+  warnings: string[]
+): void {
+  if (!summary) {
+    return;
+  }
+  if (!requestOptions.reasoning) {
+    warnings.push("reasoning_summary was ignored: reasoning is off for this call (reasoning_effort none).");
+    return;
+  }
+  requestOptions.reasoning = { ...requestOptions.reasoning, summary };
+}
+
+/** Continuations allowed by the auto_continue parameter (true = server default) */
+function resolveAutoContinue(value: boolean | number | undefined): number {
+  return value === true ? AUTO_CONTINUE_DEFAULT : value || 0;
+}
+
+/** Enable the requested built-in tools (web search, file search, code interpreter) */
+function applyBuiltinTools(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  options: BuiltinToolsOptions | undefined
+): void {
+  if (!options) {
+    return;
+  }
+  const { tools, include } = buildBuiltinTools(options);
+  if (tools.length > 0) {
+    requestOptions.tools = tools;
+  }
+  if (include.length > 0) {
+    requestOptions.include = include;
+  }
+}
+
+/** Extract token usage counters from a response (if reported) */
+function extractUsage(response: OpenAI.Responses.Response): TokenUsage | undefined {
+  if (!response.usage) {
+    return undefined;
+  }
+  return {
+    input_tokens: response.usage.input_tokens,
+    output_tokens: response.usage.output_tokens,
+    reasoning_tokens: response.usage.output_tokens_details?.reasoning_tokens,
+    total_tokens: response.usage.total_tokens,
+  };
+}
+
+/** Markdown footer with token usage, appended to markdown responses */
+function formatUsageFooter(usage: TokenUsage | undefined): string {
+  if (!usage) {
+    return "";
+  }
+  const reasoning = usage.reasoning_tokens ? ` (${usage.reasoning_tokens} reasoning)` : "";
+  return `\n\n---\n**Usage:** ${usage.input_tokens} input + ${usage.output_tokens} output${reasoning} = ` +
+    `${usage.total_tokens} total tokens`;
+}
+
+/** Markdown section with the model's reasoning summary (if one was requested and returned) */
+function formatReasoningFooter(summary: string | undefined): string {
+  if (!summary) {
+    return "";
+  }
+  return `\n\n**Reasoning summary:**\n${summary.split("\n").map(line => `> ${line}`).join("\n")}`;
+}
+
+/**
+ * Read the files requested via the `files` parameter into prompt context.
+ * Returns undefined when no files were requested.
+ */
+async function loadFileContext(
+  files: string[] | undefined
+): Promise<{ text: string; report: FileContextReport } | undefined> {
+  if (!files || files.length === 0) {
+    return undefined;
+  }
+  return buildFileContext(files, {
+    roots: WORKSPACE_ROOTS,
+    maxFileBytes: FILE_MAX_BYTES,
+    maxTotalBytes: FILES_MAX_TOTAL_BYTES,
+    maxFiles: FILES_MAX_COUNT,
+  });
+}
+
+/** Convert an image part to a Responses API input_image item */
+function loadImagePart(image: ImageSource): Promise<OpenAI.Responses.ResponseInputImage> {
+  return loadImage(image, { roots: WORKSPACE_ROOTS, maxBytes: IMAGE_MAX_BYTES });
+}
+
+/** Markdown footer summarizing which files were attached */
+function formatFilesFooter(report: FileContextReport | undefined): string {
+  if (!report) {
+    return "";
+  }
+  const truncated = report.included.filter(file => file.truncated).length;
+  let footer = `\n**Files:** ${report.included.length} included` +
+    (truncated ? ` (${truncated} truncated)` : "") +
+    `, ${report.skipped.length} skipped`;
+  for (const file of report.skipped) {
+    footer += `\n- skipped \`${file.path}\`: ${file.reason}`;
+  }
+  return footer;
+}
+
+/** Markdown footer listing capability warnings (dropped or clamped parameters) */
+function formatWarningsFooter(warnings: string[]): string {
+  return warnings.map(warning => `\n**Warning:** ${warning}`).join("");
+}
+
+/** Store the full answer of a response and return its first page (also listed as gpt://responses/{id}) */
+function storeResponse(response: OpenAI.Responses.Response, text: string, tool: string): ResponsePage {
+  const page = responseStore.put({
+    id: response.id,
+    text,
+    model: response.model,
+    tool,
+    usage: extractUsage(response),
+  });
+  resourceSubscriptions.listChanged();
+  return page;
+}
+
+/** Markdown footer pointing at the next page of a paginated answer */
+function formatPageFooter(page: ResponsePage): string {
+  if (page.total_pages <= 1) {
+    return "";
+  }
+  let footer = `\n\n---\n📄 **Page ${page.page} of ${page.total_pages}** (${page.total_characters.toLocaleString()} characters).`;
+  if (page.next_cursor) {
+    footer += ` Call \`gpt_read_more\` with cursor \`${page.next_cursor}\` for the next page.`;
+  }
+  return footer;
+}
+
+/**
+ * Build the final tool result for a generation tool.
+ * Renders markdown or JSON depending on response_format (defaults to markdown).
+ * Answers longer than a page are replaced by their first page; the structured
+ * output then carries the response handle and the cursor of the next page.
+ * `body` overrides the markdown rendering of a single-page answer.
+ */
+function formatToolResult<T extends { text: string; truncated: boolean }>(
+  structuredOutput: T,
+  page: ResponsePage,
+  footer: string,
+  format: ResponseFormat | undefined,
+  body?: string
+): { content: { type: "text"; text: string }[]; structuredContent: T & PageFields } {
+  const paginated = page.total_pages > 1;
+  const output: T & PageFields = Object.assign(structuredOutput, {
+    text: page.text,
+    truncated: paginated,
+    response_handle: page.response_handle,
+    page: page.page,
+    total_pages: page.total_pages,
+    next_cursor: page.next_cursor,
+  });
+
+  const textContent = (format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+    ? JSON.stringify(output, null, 2)
+    : (paginated || body === undefined ? page.text : body) + footer + formatPageFooter(page);
+
+  return {
+    content: [{ type: "text", text: textContent }],
+    structuredContent: output,
+  };
+}
+
+// =============================================================================
+// Response Creation (blocking and streaming)
+// =============================================================================
+
+/**
+ * Forwards streamed text to the client as MCP progress notifications against
+ * the caller's progress token (if any), throttled and tagged with the phase.
+ */
+function createProgressReporter(extra: ToolExtra) {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  let phase: StreamPhase = "reasoning";
+  let pending = "";
+  let lastSent = 0;
+  let sentProgress = 0;
+
+  // Send buffered partial text as a progress notification (throttled)
+  const flush = async (force: boolean): Promise<void> => {
+    // Progress must strictly increase between notifications
+    if (progressToken === undefined || progress <= sentProgress) {
+      return;
+    }
+    const now = Date.now();
+    if (!force && now - lastSent < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    lastSent = now;
+    sentProgress = progress;
+    const message = pending ? `[${phase}] ${pending}` : `[${phase}]`;
+    pending = "";
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      });
+    } catch {
+      // Progress is best-effort - never fail the call because of it
+    }
+  };
+
+  return {
+    /** Report a text delta of the given phase */
+    async text(deltaPhase: StreamPhase, delta: string): Promise<void> {
+      if (phase !== deltaPhase) {
+        await flush(true);
+        phase = deltaPhase;
+      }
+      progress++;
+      pending += delta;
+      await flush(false);
+    },
+    /** Keep the client informed during silent phases (e.g. hidden reasoning) */
+    async tick(): Promise<void> {
+      progress++;
+      await flush(false);
+    },
+    flush,
+  };
+}
+
+/** Request dialect for a provider's Chat Completions fallback */
+function chatDialect(provider: Provider): ChatDialect {
+  return { provider: provider.name, compatible: provider.profile.type === "compatible" };
+}
+
+/**
+ * Whether an error means the backend has no Responses endpoint (as opposed to
+ * a missing model, which is also a 404).
+ */
+function isMissingResponsesEndpoint(error: unknown): boolean {
+  const cause = error instanceof RetryError ? error.cause : error;
+  return cause instanceof OpenAI.APIError &&
+    (cause.status === 404 || cause.status === 405) &&
+    cause.code !== "model_not_found" &&
+    !/model/i.test(cause.message);
+}
+
+/**
+ * Call the Chat Completions API of a provider without the Responses API,
+ * either blocking or streaming, and convert the result to a Response.
+ */
+async function requestChatCompletion(
+  provider: Provider,
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  extra: ToolExtra,
+  stream: boolean
+): Promise<OpenAI.Responses.Response> {
+  const chatRequest = toChatRequest(requestOptions, chatDialect(provider));
+
+  if (!stream) {
+    const completion = await callOpenAI(
+      provider,
+      () => provider.client.chat.completions.create(
+        { ...chatRequest, stream: false },
+        { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+      ),
+      extra.signal
+    );
+    return chatCompletionToResponse(completion);
+  }
+
+  const reporter = createProgressReporter(extra);
+  let started = false;
+
+  return callOpenAI(provider, async () => {
+    const chunks = await provider.client.chat.completions.create(
+      { ...chatRequest, stream: true, stream_options: { include_usage: true } },
+      { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+    );
+
+    const accumulator = new ChatStreamAccumulator();
+    for await (const chunk of chunks) {
+      const delta = accumulator.add(chunk);
+      if (delta) {
+        started = true;
+        await reporter.text("output", delta);
+      } else {
+        await reporter.tick();
+      }
+    }
+
+    await reporter.flush(true);
+    return accumulator.toResponse();
+  }, extra.signal, () => !started);
+}
+
+/**
+ * Call the Responses API, either blocking or streaming.
+ *
+ * In streaming mode the partial text is forwarded to the client as MCP
+ * progress notifications against the caller's progress token (if any), so
+ * long reasoning calls keep the client's request alive. Both modes honour
+ * the request's abort signal and resolve to the final Response object.
+ *
+ * Providers without the Responses API go through Chat Completions instead;
+ * "auto" providers switch over the first time /responses turns out missing.
+ */
+async function requestResponse(
+  provider: Provider,
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  extra: ToolExtra,
+  stream: boolean
+): Promise<OpenAI.Responses.Response> {
+  if (!provider.usesResponses) {
+    return requestChatCompletion(provider, requestOptions, extra, stream);
+  }
+
+  try {
+    return await requestResponsesApi(provider, requestOptions, extra, stream);
+  } catch (error) {
+    if (!provider.detectingApi || !isMissingResponsesEndpoint(error)) {
+      throw error;
+    }
+    logger.info("providers", `Provider "${provider.name}" has no Responses API, using Chat Completions.`);
+    provider.useChatCompletions();
+    return requestChatCompletion(provider, requestOptions, extra, stream);
+  }
+}
+
+/** Call the Responses API of a provider, either blocking or streaming */
+async function requestResponsesApi(
+  provider: Provider,
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  extra: ToolExtra,
+  stream: boolean
+): Promise<OpenAI.Responses.Response> {
+  if (!stream) {
+    return callOpenAI(
+      provider,
+      () => provider.client.responses.create(
+        { ...requestOptions, stream: false },
+        { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+      ),
+      extra.signal
+    );
+  }
+
+  const reporter = createProgressReporter(extra);
+
+  // A stream is only retried if it failed before any text was forwarded
+  let started = false;
+
+  return callOpenAI(provider, async () => {
+    const events = await provider.client.responses.create(
+      { ...requestOptions, stream: true },
+      { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+    );
+
+    for await (const event of events) {
+      switch (event.type) {
+        case "response.reasoning_summary_text.delta":
+          started = true;
+          await reporter.text("reasoning", event.delta);
+          break;
+        case "response.output_text.delta":
+          started = true;
+          await reporter.text("output", event.delta);
+          break;
+        case "response.completed":
+        case "response.incomplete":
+          await reporter.flush(true);
+          return event.response;
+        case "response.failed":
+          throw new Error(event.response.error?.message ?? "Response failed");
+        case "error":
+          throw new Error(event.message);
+        default:
+          await reporter.tick();
+      }
+    }
+
+    throw new Error("Stream ended before the response completed");
+  }, extra.signal, () => !started);
+}
+
+/**
+ * Check a request against the provider's model list and the capability table.
+ * Unknown models throw; incompatible parameters are dropped (warnings are
+ * added to the call) or throw, depending on GPT_CAPABILITY_CHECK. If the
+ * model list cannot be fetched the call goes ahead unchecked.
+ */
+async function checkModelCapabilities(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext
+): Promise<void> {
+  if (CAPABILITY_MODE === "off") {
+    return;
+  }
+  const model = requestOptions.model ?? call.provider.activeModel;
+
+  // Azure deployments are not listed by the API
+  if (call.provider.profile.type !== "azure") {
+    let ids: string[] | undefined;
+    try {
+      ids = (await listModels(call.provider)).ids;
+    } catch (error) {
+      logger.warning(
+        "models",
+        `Could not list models of provider "${call.provider.name}": ` +
+        `${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        { session: call.extra.sessionId }
+      );
+    }
+    if (ids && ids.length > 0 && !ids.includes(model)) {
+      const family = model.split(/[-.]/)[0];
+      const similar = ids.filter(id => id.startsWith(family)).slice(0, 10);
+      throw new ModelCapabilityError(
+        `Model "${model}" is not available from provider "${call.provider.name}". ` +
+        (similar.length > 0 ? `Similar models: ${similar.join(", ")}. ` : "") +
+        `Use gpt_models to list all models.`
+      );
+    }
+  }
+
+  const capabilities = findCapabilities(modelCapabilities, model);
+  if (capabilities) {
+    // A retried request (e.g. a replayed conversation turn) is checked again
+    for (const warning of applyCapabilities(requestOptions, model, capabilities, CAPABILITY_MODE)) {
+      if (!call.warnings.includes(warning)) {
+        call.warnings.push(warning);
+      }
+    }
+  }
+}
+
+/** Check a request against the budget caps before it is sent */
+function checkCallBudget(requestOptions: OpenAI.Responses.ResponseCreateParams, provider: Provider): void {
+  const model = requestOptions.model ?? provider.activeModel;
+  usageLedger.checkBudget(model, {
+    input_tokens: estimateInputTokens(requestOptions),
+    output_tokens: requestOptions.max_output_tokens ?? DEFAULT_OUTPUT_ESTIMATE,
+  });
+}
+
+/** Add the usage of a response to the ledger (failures are only logged) */
+async function recordResponseUsage(tool: string, response: OpenAI.Responses.Response): Promise<void> {
+  if (!response.usage) {
+    return;
+  }
+  try {
+    await usageLedger.record(tool, response.model, {
+      input_tokens: response.usage.input_tokens,
+      cached_input_tokens: response.usage.input_tokens_details?.cached_tokens ?? 0,
+      output_tokens: response.usage.output_tokens,
+      reasoning_tokens: response.usage.output_tokens_details?.reasoning_tokens ?? 0,
+      total_tokens: response.usage.total_tokens,
+    });
+    resourceSubscriptions.updatedUnder("gpt://usage/");
+  } catch (error) {
+    // Never fail a paid-for answer because the ledger could not be written
+    logger.warning("usage", `Could not record usage: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Scan a request for secrets before it leaves the server. Returns the request
+ * to send (with placeholders in mode "redact"). Findings are added to the
+ * call's warnings with masked values; in mode "block" the request is refused.
+ */
+function redactRequest(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext
+): OpenAI.Responses.ResponseCreateParams {
+  const { request, findings } = scanRequest(requestOptions, redactionPolicy);
+  if (findings.length === 0) {
+    return requestOptions;
+  }
+  if (redactionPolicy.mode === "block") {
+    throw new SecretPolicyError(
+      `Request blocked: it contains ${findings.length} possible secret(s): ` +
+      `${findings.map(describeFinding).join("; ")}. Remove them before sending, or list false positives ` +
+      `in the config file's redaction.allow.`
+    );
+  }
+  for (const finding of findings) {
+    const warning = redactionPolicy.mode === "redact"
+      ? `Secret redacted before sending: ${describeFinding(finding)}`
+      : `Possible secret sent unredacted: ${describeFinding(finding)}`;
+    // Agent loops and replayed turns send the same input again
+    if (!call.warnings.includes(warning)) {
+      call.warnings.push(warning);
+    }
+  }
+  return request;
+}
+
+/**
+ * Request parameters for the audit log. Prompt bodies (instructions and
+ * input, after redaction) are only included with GPT_LOG_PROMPTS.
+ */
+function auditParameters(request: OpenAI.Responses.ResponseCreateParams, includePrompts: boolean): Record<string, unknown> {
+  const input = request.input ?? [];
+  return {
+    reasoning_effort: request.reasoning?.effort ?? undefined,
+    max_output_tokens: request.max_output_tokens ?? undefined,
+    temperature: request.temperature ?? undefined,
+    top_p: request.top_p ?? undefined,
+    tools: request.tools?.map(tool => tool.type === "function" ? tool.name : tool.type),
+    text_format: request.text?.format?.type,
+    previous_response_id: request.previous_response_id ?? undefined,
+    background: request.background ?? undefined,
+    input_items: typeof input === "string" ? 1 : input.length,
+    input_chars: JSON.stringify(input).length,
+    ...(includePrompts ? { instructions: request.instructions ?? undefined, input } : {}),
+  };
+}
+
+/**
+ * Write the audit record of an upstream call: the upstream status and usage
+ * on success, or the error (described like the tool result) on failure.
+ */
+function writeAudit(
+  call: CallContext,
+  model: string,
+  parameters: Record<string, unknown>,
+  started: number,
+  result: { status?: string; usage?: TokenUsage } | { error: unknown }
+): void {
+  const details = "error" in result ? describeError(result.error, handleOpenAIError(result.error)) : undefined;
+  logger.audit({
+    request_id: call.extra.requestId,
+    session_id: call.extra.sessionId,
+    tool: call.tool,
+    provider: call.provider.name,
+    model,
+    stream: call.stream,
+    parameters,
+    latency_ms: Date.now() - started,
+    status: "status" in result ? result.status : undefined,
+    usage: "usage" in result ? result.usage : undefined,
+    outcome: details ? "error" : "ok",
+    error_category: details?.category,
+    error: details?.message,
+  });
+}
+
+/** Write the audit record of a Responses call (`request` is undefined if it was refused before redaction) */
+function auditCall(
+  call: CallContext,
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  request: OpenAI.Responses.ResponseCreateParams | undefined,
+  started: number,
+  result: { response: OpenAI.Responses.Response } | { error: unknown }
+): void {
+  const response = "response" in result ? result.response : undefined;
+  writeAudit(
+    call,
+    response?.model ?? requestOptions.model ?? call.provider.activeModel,
+    // Prompt bodies only once they have been through redaction
+    auditParameters(request ?? requestOptions, LOG_PROMPTS && request !== undefined),
+    started,
+    "error" in result ? result : { status: response?.status, usage: response ? extractUsage(response) : undefined }
+  );
+}
+
+/**
+ * Create a response on behalf of a tool.
+ * Redacts secrets and checks the model's capabilities and the budget caps
+ * before each call, and records the usage and an audit record afterwards.
+ * With `call.autoContinue`, an answer cut off at max_output_tokens is
+ * continued; answers that stay incomplete or are refused add a warning.
+ */
+async function createResponse(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext
+): Promise<OpenAI.Responses.Response> {
+  let response = await createSingleResponse(requestOptions, call);
+  if (call.autoContinue) {
+    response = await continueResponse(requestOptions, response, call, call.autoContinue);
+  }
+  call.warnings.push(...completionWarnings(response, Boolean(call.autoContinue)));
+  return response;
+}
+
+/**
+ * Ask for the rest of an answer that stopped at max_output_tokens: resend the
+ * request with the partial answer and a request to go on, up to
+ * `maxContinuations` times. Returns a single response holding the whole answer.
+ */
+async function continueResponse(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  first: OpenAI.Responses.Response,
+  call: CallContext,
+  maxContinuations: number
+): Promise<OpenAI.Responses.Response> {
+  const input: OpenAI.Responses.ResponseInputItem[] = typeof requestOptions.input === "string"
+    ? [{ type: "message", role: "user", content: requestOptions.input }]
+    : [...(requestOptions.input ?? [])];
+  const responses = [first];
+  let last = first;
+
+  while (
+    last.status === "incomplete" &&
+    last.incomplete_details?.reason === "max_output_tokens" &&
+    responses.length <= maxContinuations
+  ) {
+    const partial = responses.map(extractResponseText).join("");
+    last = await createSingleResponse({
+      ...requestOptions,
+      input: [
+        ...input,
+        ...(partial ? [{ type: "message" as const, role: "assistant" as const, content: partial }] : []),
+        { type: "message", role: "user", content: CONTINUE_PROMPT },
+      ],
+    }, call);
+    responses.push(last);
+  }
+
+  if (responses.length > 1) {
+    call.warnings.push(`The answer was continued ${responses.length - 1} time(s) after reaching max_output_tokens.`);
+  }
+  return mergeResponses(responses);
+}
+
+/**
+ * Combine the parts of a continued answer into one response: the output
+ * items of every part (reasoning, tool calls) and one message with the joined
+ * text. Status and ids are those of the last part; usage is summed.
+ */
+function mergeResponses(responses: OpenAI.Responses.Response[]): OpenAI.Responses.Response {
+  const last = responses[responses.length - 1];
+  if (responses.length === 1) {
+    return last;
+  }
+
+  const annotations = responses.flatMap(response => response.output.flatMap(item =>
+    item.type === "message"
+      ? item.content.flatMap(content => (content.type === "output_text" ? content.annotations : []))
+      : []
+  ));
+  const message: OpenAI.Responses.ResponseOutputMessage = {
+    type: "message",
+    id: last.output.find(item => item.type === "message")?.id ?? `msg_${last.id}`,
+    role: "assistant",
+    status: "completed",
+    content: [{ type: "output_text", text: responses.map(extractResponseText).join(""), annotations }],
+  };
+
+  const sum = (count: (usage: OpenAI.Responses.ResponseUsage) => number | undefined): number =>
+    responses.reduce((total, response) => total + (response.usage ? count(response.usage) ?? 0 : 0), 0);
+  return {
+    ...last,
+    output: [...responses.flatMap(response => response.output.filter(item => item.type !== "message")), message],
+    usage: last.usage && {
+      input_tokens: sum(usage => usage.input_tokens),
+      input_tokens_details: { cached_tokens: sum(usage => usage.input_tokens_details?.cached_tokens) },
+      output_tokens: sum(usage => usage.output_tokens),
+      output_tokens_details: { reasoning_tokens: sum(usage => usage.output_tokens_details?.reasoning_tokens) },
+      total_tokens: sum(usage => usage.total_tokens),
+    },
+  };
+}
+
+/** Send one request: redaction, capability and budget checks, usage and audit */
+async function createSingleResponse(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext
+): Promise<OpenAI.Responses.Response> {
+  const started = Date.now();
+  let request: OpenAI.Responses.ResponseCreateParams | undefined;
+  try {
+    request = redactRequest(requestOptions, call);
+    await checkModelCapabilities(request, call);
+    call.sent = request;
+    checkCallBudget(request, call.provider);
+
+    const response = await requestResponse(call.provider, request, call.extra, call.stream);
+    auditCall(call, requestOptions, request, started, { response });
+    await recordResponseUsage(call.tool, response);
+    return response;
+  } catch (error) {
+    auditCall(call, requestOptions, request, started, { error });
+    throw error;
+  }
+}
+
+// =============================================================================
+// MCP Server Initialization
+// =============================================================================
+
+// Tools, prompts and resources are registered per server instance by the
+// register* functions below; createServer() (Server Startup) wires them up.
+
+// Change notifications for the gpt:// resources, sent to every connected client
+const resourceSubscriptions = new ResourceSubscriptions();
+
+// =============================================================================
+// Content Part Schemas (text and images)
+// =============================================================================
+
+const ImageDetailSchema = z.enum(["low", "high", "auto"])
+  .optional()
+  .describe("Image detail level: 'low', 'high' or 'auto' (default)");
+
+const TextPartSchema = z.object({
+  type: z.literal("text"),
+  text: z.string()
+    .min(1, "Text part is required")
+    .describe("Text content"),
+}).strict();
+
+const ImagePathPartSchema = z.object({
+  type: z.literal("image_path"),
+  path: z.string()
+    .min(1, "Image path is required")
+    .describe("Local image path inside the workspace roots (PNG, JPEG, GIF or WEBP)"),
+  detail: ImageDetailSchema,
+}).strict();
+
+const ImageBase64PartSchema = z.object({
+  type: z.literal("image_base64"),
+  data: z.string()
+    .min(1, "Image data is required")
+    .describe("Base64-encoded image data (a data: URL prefix is accepted)"),
+  mime_type: z.enum(["image/png", "image/jpeg", "image/gif", "image/webp"])
+    .describe("Mime type of the image data"),
+  detail: ImageDetailSchema,
+}).strict();
+
+const ImagePartSchema = z.discriminatedUnion("type", [
+  ImagePathPartSchema,
+  ImageBase64PartSchema,
+]);
+
+const ContentPartSchema = z.discriminatedUnion("type", [
+  TextPartSchema,
+  ImagePathPartSchema,
+  ImageBase64PartSchema,
+]);
+
+type ContentPart = z.infer<typeof ContentPartSchema>;
+
+// =============================================================================
+// Built-in Tool Schemas (web search, file search, code interpreter)
+// =============================================================================
+
+const BuiltinToolsSchema = z.object({
+  web_search: z.union([
+    z.boolean(),
+    z.object({
+      search_context_size: z.enum(["low", "medium", "high"])
+        .optional()
+        .describe("How much search context to use (default: medium)"),
+      allowed_domains: z.array(z.string().min(1))
+        .max(20)
+        .optional()
+        .describe("Restrict results to these domains (e.g. 'developer.mozilla.org')"),
+    }).strict(),
+  ])
+    .optional()
+    .describe("Enable web search: true, or options"),
+  file_search: z.object({
+    vector_store_ids: z.array(z.string().min(1))
+      .min(1, "At least one vector store id is required")
+      .describe("Vector store ids to search"),
+    max_num_results: z.number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .describe("Maximum number of results per search"),
+    include_results: z.boolean()
+      .default(false)
+      .describe("Return the matched chunks in the output"),
+  }).strict()
+    .optional()
+    .describe("Enable file search against vector stores"),
+  code_interpreter: z.union([
+    z.boolean(),
+    z.object({
+      file_ids: z.array(z.string().min(1))
+        .optional()
+        .describe("Uploaded file ids to make available to the code"),
+    }).strict(),
+  ])
+    .optional()
+    .describe("Enable the code interpreter: true, or options"),
+}).strict();
+
+// =============================================================================
+// Agent Mode (local function calling)
+// =============================================================================
+
+const AgentOptionsSchema = z.object({
+  max_iterations: z.number()
+    .int()
+    .min(1)
+    .max(AGENT_MAX_ITERATIONS)
+    .optional()
+    .describe(`Model calls that may request functions before a final answer is forced (default: ${AGENT_DEFAULT_ITERATIONS})`),
+  max_total_tokens: z.number()
+    .int()
+    .min(1000)
+    .optional()
+    .describe(`Total tokens over all model calls before a final answer is forced (default: ${AGENT_DEFAULT_MAX_TOKENS})`),
+  functions: z.array(z.enum(LOCAL_FUNCTION_NAMES))
+    .min(1)
+    .optional()
+    .describe("Local functions offered to the model (default: all)"),
+}).strict();
+
+type AgentOptions = z.infer<typeof AgentOptionsSchema>;
+
+/** What agent mode did, reported with the answer */
+interface AgentReport {
+  /** Model calls made */
+  iterations: number;
+  function_calls: FunctionCallTrace[];
+  /** Usage summed over all model calls */
+  usage: TokenUsage;
+  /** Set when a limit forced the final answer */
+  stopped?: string;
+}
+
+/** Arguments of a function call for the trace (null = omitted optional parameter) */
+function traceArguments(argumentsJson: string): unknown {
+  try {
+    const args = JSON.parse(argumentsJson) as unknown;
+    if (args && typeof args === "object" && !Array.isArray(args)) {
+      return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== null));
+    }
+    return args;
+  } catch {
+    return argumentsJson;
+  }
+}
+
+/**
+ * Run gpt_generate in agent mode: offer the read-only local functions to the
+ * model, run the calls it returns and send the output back until it answers.
+ * At the iteration or token limit, pending calls are answered with a note and
+ * one last call without functions asks for the final answer.
+ */
+async function runAgentLoop(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext,
+  options: AgentOptions
+): Promise<{ response: OpenAI.Responses.Response; report: AgentReport }> {
+  if (!call.provider.usesResponses) {
+    throw new ProviderError(
+      `Agent mode requires the Responses API; provider "${call.provider.name}" is called via Chat Completions.`
+    );
+  }
+
+  const maxIterations = options.max_iterations ?? AGENT_DEFAULT_ITERATIONS;
+  const maxTokens = options.max_total_tokens ?? AGENT_DEFAULT_MAX_TOKENS;
+  const allowed: readonly LocalFunctionName[] = options.functions ?? LOCAL_FUNCTION_NAMES;
+  const input: OpenAI.Responses.ResponseInputItem[] = typeof requestOptions.input === "string"
+    ? [{ type: "message", role: "user", content: requestOptions.input }]
+    : [...(requestOptions.input ?? [])];
+  const request: OpenAI.Responses.ResponseCreateParams = {
+    ...requestOptions,
+    input,
+    tools: [
+      ...(requestOptions.tools ?? []),
+      ...LOCAL_FUNCTIONS.filter(tool => allowed.includes(tool.name as LocalFunctionName)),
+    ],
+  };
+  const functionOptions = {
+    roots: WORKSPACE_ROOTS,
+    maxFileBytes: FILE_MAX_BYTES,
+    maxOutputChars: AGENT_OUTPUT_MAX_CHARS,
+    timeoutMs: AGENT_COMMAND_TIMEOUT_MS,
+  };
+  const report: AgentReport = {
+    iterations: 0,
+    function_calls: [],
+    usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+  };
+  const progressToken = call.extra._meta?.progressToken;
+
+  for (;;) {
+    const response = await createResponse(request, call);
+    report.iterations++;
+    const usage = extractUsage(response);
+    if (usage) {
+      report.usage.input_tokens += usage.input_tokens;
+      report.usage.output_tokens += usage.output_tokens;
+      report.usage.reasoning_tokens = (report.usage.reasoning_tokens ?? 0) + (usage.reasoning_tokens ?? 0);
+      report.usage.total_tokens += usage.total_tokens;
+    }
+
+    const functionCalls = response.output.filter(
+      (item): item is OpenAI.Responses.ResponseFunctionToolCall => item.type === "function_call"
+    );
+    if (functionCalls.length === 0 || request.tool_choice === "none") {
+      return { response, report };
+    }
+
+    // Send the model's output back followed by the output of each call
+    input.push(...(response.output as OpenAI.Responses.ResponseInputItem[]));
+    for (const functionCall of functionCalls) {
+      const started = Date.now();
+      const result = await runLocalFunction(functionCall.name, functionCall.arguments, allowed, functionOptions);
+      const trace: FunctionCallTrace = {
+        iteration: report.iterations,
+        name: functionCall.name,
+        arguments: traceArguments(functionCall.arguments),
+        status: result.status,
+        output_chars: result.output.length,
+        truncated: result.truncated,
+        duration_ms: Date.now() - started,
+        error: result.status === "error" ? result.output.replace(/^Error: /, "") : undefined,
+      };
+      report.function_calls.push(trace);
+      input.push({ type: "function_call_output", call_id: functionCall.call_id, output: result.output });
+
+      if (progressToken !== undefined) {
+        try {
+          await call.extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: report.function_calls.length,
+              message: `[function] ${trace.name} ${JSON.stringify(trace.arguments)}`,
+            },
+          });
+        } catch {
+          // Progress is best-effort - never fail the call because of it
+        }
+      }
+    }
+
+    // At a limit, force an answer from what has been gathered so far
+    const limit = report.iterations >= maxIterations
+      ? `${maxIterations} iterations`
+      : report.usage.total_tokens >= maxTokens ? `${maxTokens} total tokens` : undefined;
+    if (limit) {
+      report.stopped = `Agent stopped at the limit of ${limit}; the answer is based on the function output gathered so far.`;
+      call.warnings.push(report.stopped);
+      request.tool_choice = "none";
+      input.push({
+        type: "message",
+        role: "developer",
+        content: "The function call limit has been reached. Answer now using the information gathered so far.",
+      });
+    }
+  }
+}
+
+/** Markdown footer listing the function calls made in agent mode (limit warnings go with the other warnings) */
+function formatAgentFooter(report: AgentReport | undefined): string {
+  if (!report) {
+    return "";
+  }
+  let footer = `\n\n**Agent:** ${report.iterations} model call(s), ${report.function_calls.length} function call(s)`;
+  for (const entry of report.function_calls) {
+    const outcome = entry.status === "error"
+      ? `error: ${entry.error}`
+      : `${entry.output_chars.toLocaleString()} chars${entry.truncated ? ", truncated" : ""}`;
+    footer += `\n- \`${entry.name}(${JSON.stringify(entry.arguments)})\` - ${outcome}`;
+  }
+  return footer;
+}
+
+// =============================================================================
+// Tool: gpt_generate
+// =============================================================================
+
+const GenerateInputSchema = z.object({
+  input: z.string()
+    .min(1, "Input prompt is required")
+    .describe("The input text or prompt for GPT"),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai'); see gpt_status"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset from gpt-mcp.config.json (model, instructions, reasoning, ...); explicit parameters win"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions for the model"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens to generate"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Temperature for randomness (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Top-p sampling parameter"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  stream: z.boolean()
+    .default(false)
+    .describe("Stream the response and report partial text via MCP progress notifications"),
+  background: z.boolean()
+    .default(false)
+    .describe("Return a job id at once and run the call in the background; fetch the answer with gpt_job_result"),
+  agent: z.union([z.boolean(), AgentOptionsSchema])
+    .default(false)
+    .describe("Let the model read the workspace itself through read-only local functions: true, or loop limits"),
+  reasoning_summary: z.enum(["auto", "concise", "detailed"])
+    .optional()
+    .describe("Return a summary of the model's reasoning (reasoning models only)"),
+  auto_continue: z.union([z.boolean(), z.number().int().min(1).max(AUTO_CONTINUE_MAX)])
+    .optional()
+    .describe("Continue an answer cut off at max_output_tokens: true, or the most continuations"),
+  files: z.array(z.string().min(1))
+    .max(50)
+    .optional()
+    .describe("Local file paths or glob patterns (inside the workspace roots) to attach as context"),
+  images: z.array(ImagePartSchema)
+    .max(10)
+    .optional()
+    .describe("Images to send along with the prompt (local paths or base64 data)"),
+  tools: BuiltinToolsSchema
+    .optional()
+    .describe("Built-in tools the model may use: web_search, file_search, code_interpreter"),
+  json_schema: z.record(z.unknown())
+    .optional()
+    .describe("JSON Schema the answer must conform to (Structured Outputs)"),
+  json_schema_file: z.string()
+    .optional()
+    .describe("Path to a JSON Schema file inside the workspace roots, alternative to json_schema"),
+  schema_name: z.string()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, "Schema name may only contain letters, digits, '_' and '-' (max 64)")
+    .default("output")
+    .describe("Name of the schema sent to the API"),
+  strict_schema: z.boolean()
+    .default(true)
+    .describe("Enable strict schema adherence (requires additionalProperties: false and all fields required)"),
+}).strict();
+
+/**
+ * Build the gpt_generate result from its response: store the full answer and,
+ * with a JSON Schema, parse and validate it. Also used for background jobs;
+ * `agent` is the report of agent mode.
+ */
+function formatGenerateResult(
+  response: OpenAI.Responses.Response,
+  context: JobResultContext,
+  format: ResponseFormat | undefined,
+  agent?: AgentReport
+) {
+  const rawText = extractResponseText(response);
+
+  // Prepare structured output (in agent mode, usage covers every model call)
+  const structuredOutput: {
+    text: string;
+    model: string;
+    status: string;
+    incomplete_reason?: string;
+    refusal?: string;
+    usage?: TokenUsage;
+    reasoning_summary?: string;
+    truncated: boolean;
+    files?: FileContextReport;
+    tool_activity?: ToolActivity;
+    agent?: AgentReport;
+    warnings?: string[];
+    data?: unknown;
+  } = {
+    text: rawText,
+    model: response.model,
+    ...describeCompletion(response),
+    usage: agent?.usage ?? extractUsage(response),
+    reasoning_summary: extractReasoningSummary(response),
+    truncated: false,
+    files: context.files,
+    tool_activity: extractToolActivity(response),
+    agent,
+    warnings: context.warnings.length > 0 ? context.warnings : undefined,
+  };
+
+  const page = storeResponse(response, rawText, "gpt_generate");
+  const footer = formatReasoningFooter(structuredOutput.reasoning_summary) +
+    formatToolActivity(structuredOutput.tool_activity) + formatAgentFooter(agent) +
+    formatUsageFooter(structuredOutput.usage) + formatFilesFooter(context.files) +
+    formatWarningsFooter(context.warnings);
+
+  if (!context.schema) {
+    return formatToolResult(structuredOutput, page, footer, format);
+  }
+
+  // Parse and validate the schema-constrained answer
+  const validation = validateStructuredOutput(context.schema, rawText);
+  if (!validation.valid) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: Model output does not conform to the JSON schema.\n\n` +
+          `Validation errors:\n${validation.errors.map(e => `- ${e}`).join("\n")}\n\n` +
+          `Raw output:\n${page.text}` + formatPageFooter(page),
+      }],
+      structuredContent: {
+        ...structuredOutput,
+        text: page.text,
+        truncated: page.total_pages > 1,
+        response_handle: page.response_handle,
+        page: page.page,
+        total_pages: page.total_pages,
+        next_cursor: page.next_cursor,
+        validation_errors: validation.errors,
+      },
+      isError: true,
+    };
+  }
+
+  structuredOutput.data = validation.value;
+  return formatToolResult(
+    structuredOutput,
+    page,
+    footer,
+    format,
+    "```json\n" + JSON.stringify(validation.value, null, 2) + "\n```"
+  );
+}
+
+/** Register gpt_generate on a server instance */
+function registerGenerateTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_generate",
+    {
+      title: "Generate Text with GPT",
+      description: `Generate text using OpenAI GPT API with a simple input prompt.
+
+This tool sends a prompt to OpenAI GPT using the Responses API and returns
+the generated text response. It is ideal for single-turn interactions,
+creative writing, code generation, analysis, and general AI assistance tasks.
+
+Args:
+  - input (string, required): The prompt or question for GPT
+  - model (string, optional): Model to use (defaults to GPT_MODEL env or gpt-5.4)
+  - provider (string, optional): Provider profile (default: GPT_PROVIDER or 'openai').
+    Backends without the Responses API are called via Chat Completions
+  - preset (string, optional): Named preset from the config file; a bundle of
+    provider, model, instructions, reasoning effort, temperature and output
+    limit. Explicit parameters override the preset
+  - instructions (string, optional): System instructions for the model
+  - reasoning_effort (string, optional): Reasoning level - none/low/medium/high
+    - none: No reasoning (like GPT-4.1, fastest)
+    - low: Light reasoning (fast, server default)
+    - medium/high: Increasing reasoning depth
+  - max_output_tokens (number, optional): Maximum output length
+  - temperature (number, optional): Randomness 0-2 (higher = more creative)
+  - top_p (number, optional): Top-p sampling parameter
+    Parameters the model does not accept (e.g. temperature/top_p on reasoning
+    models) are dropped with a warning; see gpt_models for capabilities
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  - stream (boolean, optional): Stream the answer and send MCP progress
+    notifications with partial text and the current phase (reasoning/output).
+    Requires a progressToken in the request _meta. Default: false
+  - background (boolean, optional): Return a job id at once and run the call
+    in the background, for long high-effort calls that may outlast the
+    client's request timeout. Poll with gpt_job_status and fetch the answer
+    with gpt_job_result. Cannot be combined with stream. Default: false
+  - agent (boolean | object, optional): Agent mode - the model may call
+    read-only local functions (read_file, list_directory, grep, git_diff,
+    git_log) inside the workspace roots; the server runs them and sends the
+    output back until the model answers. true, or
+    { max_iterations, max_total_tokens, functions }. At a limit the model is
+    asked for a final answer. Requires the Responses API; not with background.
+    Progress notifications report each function call. Default: false
+  - reasoning_summary ('auto' | 'concise' | 'detailed', optional): Return a
+    summary of the model's reasoning in reasoning_summary (reasoning models
+    only; ignored with reasoning_effort none)
+  - auto_continue (boolean | number, optional): When the answer stops at
+    max_output_tokens, ask the model to continue where it stopped and join
+    the parts. true = up to GPT_AUTO_CONTINUE_MAX continuations (default 3),
+    or a number 1-${AUTO_CONTINUE_MAX}. Not with background or agent. Default: off
+  - files (string[], optional): Local file paths or glob patterns to attach as
+    context (e.g. "src/index.ts", "src/**/*.ts"). Read by the server, limited
+    to the workspace roots; binaries are skipped, large files truncated
+  - images (array, optional): Images sent with the prompt, each either
+    { "type": "image_path", "path": string } or
+    { "type": "image_base64", "data": string, "mime_type": string },
+    with optional "detail" (low/high/auto). Size-checked and type-sniffed
+  - tools (object, optional): Built-in tools the model may use:
+    - web_search: true or { search_context_size, allowed_domains }
+    - file_search: { vector_store_ids, max_num_results, include_results }
+    - code_interpreter: true or { file_ids }
+  - json_schema (object, optional): JSON Schema the answer must conform to.
+    Uses Responses API Structured Outputs (text.format json_schema)
+  - json_schema_file (string, optional): Path to a JSON Schema file (inside
+    the workspace roots) instead
+  - schema_name (string, optional): Schema name sent to the API (default: 'output')
+  - strict_schema (boolean, optional): Strict schema adherence (default: true)
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "text": string,           // Generated text content
+    "model": string,          // Model used for generation
+    "status": string,         // "completed", or "incomplete" when the answer was cut off
+    "incomplete_reason": string, // Only when incomplete: "max_output_tokens", "content_filter", ...
+    "refusal": string,        // Only when the model refused to answer
     "usage": {
       "input_tokens": number,
       "output_tokens": number,
+      "reasoning_tokens": number, // Part of output_tokens
       "total_tokens": number
     },
-    "truncated": boolean      // Whether response was truncated
+    "reasoning_summary": string, // Only with reasoning_summary, when the model returned one
+    "truncated": boolean,     // Whether text is only the first page
+    "response_handle": string, // Handle of the stored full answer
+    "page": number,           // Page number of text (1)
+    "total_pages": number,    // Number of pages of the full answer
+    "next_cursor": string|null, // Pass to gpt_read_more for the next page
+    "files": {                // Only when files were requested
+      "included": [{ "path": string, "bytes": number, "truncated": boolean }],
+      "skipped": [{ "path": string, "reason": string }]
+    },
+    "tool_activity": {        // Only when built-in tools were used or cited
+      "citations": [{ "type": "url"|"file", "url"?, "title"?, "file_id"?, "filename"? }],
+      "web_searches": [{ "id", "status", "query"? }],
+      "file_searches": [{ "id", "status", "queries", "results"? }],
+      "code_executions": [{ "id", "status", "code", "logs", "files", "images" }]
+    },
+    "agent": {                // Only in agent mode (usage is then summed over all calls)
+      "iterations": number,   // Model calls made
+      "function_calls": [{ "iteration", "name", "arguments", "status": "ok"|"error",
+                           "output_chars", "truncated", "duration_ms", "error"? }],
+      "usage": { ... },
+      "stopped"?: string      // Set when a limit forced the final answer
+    },
+    "warnings": string[],     // Dropped/clamped parameters, incomplete or refused answers
+    "data": any               // Parsed object (only with json_schema)
+  }
+
+  With a schema, the answer is parsed and validated. If it does not conform,
+  an error result lists the validation errors.
+
+  With background: { "job_id": string, "status": string, "runner": string, ... };
+  gpt_job_result later returns the result above.
+
+Examples:
+  - "Explain quantum computing in simple terms"
+  - "Write a Python function to sort a list"
+  - "Summarize the key points of machine learning"
+
+Note: Each call may produce different results due to model randomness.`,
+      inputSchema: GenerateInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false, // AI generation is NOT idempotent
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const { provider, model, options } = resolveCallSettings(params);
+
+        // Prepend attached files as context
+        const fileContext = await loadFileContext(params.files);
+        const input = fileContext?.text ? `${fileContext.text}\n\n${params.input}` : params.input;
+
+        // With images, send a single multi-part user message
+        let requestInput: string | OpenAI.Responses.ResponseInputItem[] = input;
+        if (params.images && params.images.length > 0) {
+          const images = await Promise.all(params.images.map(loadImagePart));
+          requestInput = [{
+            type: "message",
+            role: "user",
+            content: [{ type: "input_text", text: input }, ...images],
+          }];
+        }
+
+        // Build Responses API request
+        const requestOptions = buildRequestOptions(model, requestInput, options);
+        applyBuiltinTools(requestOptions, params.tools);
+
+        // Constrain the answer to a JSON Schema (Structured Outputs)
+        let schema: JsonSchema | undefined;
+        if (params.json_schema || params.json_schema_file) {
+          schema = await loadJsonSchema(params.json_schema, params.json_schema_file, WORKSPACE_ROOTS);
+          requestOptions.text = {
+            format: {
+              type: "json_schema",
+              name: params.schema_name ?? "output",
+              schema,
+              strict: params.strict_schema ?? true,
+            },
+          };
+        }
+
+        // Call Responses API (streams progress when requested)
+        const call: CallContext = {
+          tool: "gpt_generate",
+          provider,
+          extra,
+          stream: params.stream ?? false,
+          warnings: [],
+          autoContinue: resolveAutoContinue(params.auto_continue),
+        };
+        applyReasoningSummary(requestOptions, params.reasoning_summary, call.warnings);
+        if (call.autoContinue && (params.background || params.agent)) {
+          call.warnings.push(`auto_continue was ignored: not supported with ${params.background ? "background" : "agent mode"}.`);
+          call.autoContinue = 0;
+        }
+        const context: JobResultContext = { schema, files: fileContext?.report, warnings: call.warnings };
+        if (params.background) {
+          if (params.agent) {
+            throw new JobError("background cannot be combined with agent mode.");
+          }
+          return formatJobStarted(await startBackgroundJob(requestOptions, call, context), params.response_format);
+        }
+
+        // Agent mode: loop over local function calls (progress reports the calls, not text)
+        if (params.agent) {
+          call.stream = false;
+          const { response, report } = await runAgentLoop(requestOptions, call, params.agent === true ? {} : params.agent);
+          return formatGenerateResult(response, context, params.response_format, report);
+        }
+
+        const response = await createResponse(requestOptions, call);
+        return formatGenerateResult(response, context, params.response_format);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tool: gpt_messages
+// =============================================================================
+
+const MessageSchema = z.object({
+  role: z.enum(["user", "assistant", "developer"])
+    .describe("Message role: 'user' for human, 'assistant' for AI, 'developer' for per-turn instructions"),
+  content: z.union([
+    z.string().min(1, "Message content is required"),
+    z.array(ContentPartSchema).min(1, "At least one content part is required"),
+  ])
+    .describe("The message content: a string, or an array of text/image parts"),
+}).strict()
+  .refine(
+    msg => msg.role !== "assistant" || typeof msg.content === "string" ||
+      msg.content.every(part => part.type === "text"),
+    { message: "Assistant messages may only contain text parts", path: ["content"] }
+  );
+
+/**
+ * Convert message content to Responses API input content.
+ * Assistant text parts are joined (assistant input cannot carry input items).
+ */
+async function toInputContent(
+  role: "user" | "assistant" | "developer",
+  content: string | ContentPart[]
+): Promise<string | OpenAI.Responses.ResponseInputMessageContentList> {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (role === "assistant") {
+    return content.map(part => (part.type === "text" ? part.text : "")).join("\n\n");
+  }
+  return Promise.all(content.map(part =>
+    part.type === "text"
+      ? Promise.resolve({ type: "input_text" as const, text: part.text })
+      : loadImagePart(part)
+  ));
+}
+
+const ContextOptionsSchema = z.object({
+  strategy: z.enum(CONTEXT_STRATEGIES)
+    .optional()
+    .describe("What happens if the messages do not fit the context window: drop the oldest, drop from the middle (keep_ends), summarize older turns, or fail"),
+  keep_first: z.number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Leading messages kept by keep_ends (default: 1)"),
+  keep_last: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Trailing messages kept by keep_ends and summarize (default: 4)"),
+  summary_model: z.string()
+    .min(1)
+    .optional()
+    .describe("Model that summarizes older turns (default: GPT_CONTEXT_SUMMARY_MODEL, gpt-5-mini on OpenAI, else the call's model)"),
+}).strict();
+
+type ContextOptionsInput = z.infer<typeof ContextOptionsSchema>;
+
+// Instructions of the model that summarizes older turns
+const SUMMARY_INSTRUCTIONS = "Summarize this conversation for the assistant that continues it. Keep every fact, " +
+  "decision, open question, name, number and code identifier that later turns may need. Write in the third " +
+  "person, as compact notes, without commentary.";
+
+/** Summarize older turns into one message, with the same provider as the call */
+async function summarizeHistory(
+  items: OpenAI.Responses.ResponseInputItem[],
+  model: string,
+  maxOutputTokens: number,
+  call: CallContext
+): Promise<string> {
+  const requestOptions = buildRequestOptions(model, formatTranscript(items), {
+    instructions: SUMMARY_INSTRUCTIONS,
+    max_output_tokens: maxOutputTokens,
+  });
+  const response = await createResponse(requestOptions, { ...call, stream: false, autoContinue: 0 });
+  const summary = extractResponseText(response).trim();
+  if (!summary) {
+    throw new ContextWindowError(`The summary model "${model}" returned no text (status: ${response.status}).`);
+  }
+  return summary;
+}
+
+/**
+ * Fit the messages of a gpt_messages call into the model's context window.
+ * The window must also hold the instructions, the attached files and the
+ * answer (max_output_tokens, or an estimate). Models without a known window
+ * are sent as given.
+ */
+async function fitMessageHistory(
+  items: OpenAI.Responses.ResponseInputItem[],
+  fixedTokens: number,
+  model: string,
+  options: GenerationOptions,
+  contextInput: ContextOptionsInput | undefined,
+  call: CallContext
+): Promise<{ items: OpenAI.Responses.ResponseInputItem[]; report: ContextReport }> {
+  const contextOptions: ContextOptions = {
+    strategy: contextInput?.strategy ?? CONTEXT_STRATEGY,
+    keep_first: contextInput?.keep_first ?? CONTEXT_KEEP_FIRST,
+    keep_last: contextInput?.keep_last ?? CONTEXT_KEEP_LAST,
+  };
+  const tokens = items.map(item => estimateTokens(item));
+  const estimated = fixedTokens + tokens.reduce((sum, count) => sum + count, 0);
+  const capabilities = findCapabilities(modelCapabilities, model);
+  const reserved = Math.min(options.max_output_tokens ?? DEFAULT_OUTPUT_ESTIMATE, capabilities?.max_output_tokens ?? Infinity);
+  const report: ContextReport = {
+    estimated_tokens: estimated,
+    sent_tokens: estimated,
+    context_window: capabilities?.context_window ?? null,
+    reserved_output_tokens: reserved,
+    strategy: contextOptions.strategy,
+    applied: false,
+    dropped: [],
+    summarized: [],
+  };
+  if (!capabilities) {
+    return { items, report };
+  }
+
+  // Small windows get a shorter summary
+  const budget = inputBudget(capabilities.context_window, reserved + fixedTokens);
+  const summaryMaxTokens = Math.min(CONTEXT_SUMMARY_MAX_TOKENS, Math.floor(budget / 4));
+  const messages = items.map((item, index) => ({ role: "role" in item ? item.role : "user", tokens: tokens[index] }));
+  const plan = planContext(messages, budget, contextOptions, summaryMaxTokens);
+  if (plan.dropped.length === 0 && plan.summarized.length === 0) {
+    return { items, report };
+  }
+
+  const kept = plan.kept.map(index => items[index]);
+  const dropped = [...plan.dropped];
+  let summarized = [...plan.summarized];
+  let summaryModel: string | undefined;
+  if (summarized.length > 0) {
+    summaryModel = contextInput?.summary_model ?? CONTEXT_SUMMARY_MODEL ??
+      (call.provider.profile.type === "openai" ? DEFAULT_SUMMARY_MODEL : model);
+
+    // Turns beyond what the summary model can read are dropped instead
+    const summaryCapabilities = findCapabilities(modelCapabilities, summaryModel);
+    if (summaryCapabilities) {
+      const summaryBudget = inputBudget(summaryCapabilities.context_window, summaryMaxTokens + estimateTokens(SUMMARY_INSTRUCTIONS));
+      let summaryTokens = summarized.reduce((sum, index) => sum + tokens[index], 0);
+      while (summaryTokens > summaryBudget && summarized.length > 0) {
+        summaryTokens -= tokens[summarized[0]];
+        dropped.push(summarized.shift()!);
+      }
+    }
+    if (summarized.length > 0) {
+      const summary = await summarizeHistory(summarized.map(index => items[index]), summaryModel, summaryMaxTokens, call);
+      kept.unshift({
+        type: "message",
+        role: "developer",
+        content: `Summary of the earlier conversation (${summarized.length} message(s) not shown):\n\n${summary}`,
+      });
+    }
+  }
+
+  report.applied = true;
+  report.dropped = dropped;
+  report.summarized = summarized;
+  report.summary_model = summarized.length > 0 ? summaryModel : undefined;
+  report.sent_tokens = fixedTokens + kept.reduce((sum, item) => sum + estimateTokens(item), 0);
+
+  const window = `the context window of ${model} (${capabilities.context_window.toLocaleString()} tokens)`;
+  if (summarized.length > 0) {
+    call.warnings.push(`${summarized.length} of ${items.length} message(s) were summarized by ${summaryModel} to fit ${window}.`);
+  }
+  if (dropped.length > 0) {
+    call.warnings.push(`${dropped.length} of ${items.length} message(s) were dropped to fit ${window}.`);
+  }
+  return { items: kept, report };
+}
+
+const MessagesInputSchema = z.object({
+  messages: z.array(MessageSchema)
+    .min(1, "At least one message is required")
+    .describe("Array of conversation messages"),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai'); see gpt_status"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset from gpt-mcp.config.json (model, instructions, reasoning, ...); explicit parameters win"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions for the model"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens to generate"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Temperature for randomness (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Top-p sampling parameter"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  stream: z.boolean()
+    .default(false)
+    .describe("Stream the response and report partial text via MCP progress notifications"),
+  background: z.boolean()
+    .default(false)
+    .describe("Return a job id at once and run the call in the background; fetch the answer with gpt_job_result"),
+  reasoning_summary: z.enum(["auto", "concise", "detailed"])
+    .optional()
+    .describe("Return a summary of the model's reasoning (reasoning models only)"),
+  auto_continue: z.union([z.boolean(), z.number().int().min(1).max(AUTO_CONTINUE_MAX)])
+    .optional()
+    .describe("Continue an answer cut off at max_output_tokens: true, or the most continuations"),
+  files: z.array(z.string().min(1))
+    .max(50)
+    .optional()
+    .describe("Local file paths or glob patterns (inside the workspace roots) to attach as context"),
+  tools: BuiltinToolsSchema
+    .optional()
+    .describe("Built-in tools the model may use: web_search, file_search, code_interpreter"),
+  context: ContextOptionsSchema
+    .optional()
+    .describe("How a history that does not fit the model's context window is shortened"),
+}).strict();
+
+/** Build the gpt_messages result from its response (also used for background jobs) */
+function formatMessagesResult(
+  response: OpenAI.Responses.Response,
+  context: JobResultContext,
+  format: ResponseFormat | undefined,
+  tool = "gpt_messages"
+) {
+  const rawText = extractResponseText(response);
+
+  // Prepare structured output
+  const structuredOutput = {
+    text: rawText,
+    model: response.model,
+    message_count: context.message_count ?? 0,
+    ...describeCompletion(response),
+    context: context.context_report,
+    usage: extractUsage(response),
+    reasoning_summary: extractReasoningSummary(response),
+    truncated: false,
+    files: context.files,
+    tool_activity: extractToolActivity(response),
+    warnings: context.warnings.length > 0 ? context.warnings : undefined,
+  };
+
+  return formatToolResult(
+    structuredOutput,
+    storeResponse(response, rawText, tool),
+    formatReasoningFooter(structuredOutput.reasoning_summary) + formatToolActivity(structuredOutput.tool_activity) +
+      formatUsageFooter(structuredOutput.usage) + formatFilesFooter(context.files) +
+      formatWarningsFooter(context.warnings),
+    format
+  );
+}
+
+/** Register gpt_messages on a server instance */
+function registerMessagesTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_messages",
+    {
+      title: "GPT Multi-turn Conversation",
+      description: `Generate text using GPT with structured multi-turn conversation messages.
+
+This tool enables multi-turn conversations by accepting an array of messages
+with alternating user/assistant roles. Uses the Responses API for contextual
+conversations where previous exchanges inform the response.
+
+Args:
+  - messages (array, required): Conversation history
+    - role: "user" (human), "assistant" (AI response) or "developer"
+      (per-turn instructions)
+    - content: The message text, or an array of parts:
+      { "type": "text", "text": string }
+      { "type": "image_path", "path": string, "detail"?: "low"|"high"|"auto" }
+      { "type": "image_base64", "data": string, "mime_type": string, "detail"?: ... }
+      Image parts are only allowed in user/developer messages
+  - model (string, optional): Model to use (defaults to GPT_MODEL env or gpt-5.4)
+  - provider (string, optional): Provider profile (default: GPT_PROVIDER or 'openai').
+    Backends without the Responses API are called via Chat Completions
+  - preset (string, optional): Named preset from the config file; a bundle of
+    provider, model, instructions, reasoning effort, temperature and output
+    limit. Explicit parameters override the preset
+  - instructions (string, optional): System instructions for the model
+  - reasoning_effort (string, optional): Reasoning level - none/low/medium/high
+  - max_output_tokens (number, optional): Maximum output length
+  - temperature (number, optional): Randomness 0-2
+  - top_p (number, optional): Top-p sampling parameter
+    (parameters the model does not accept are dropped with a warning)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  - stream (boolean, optional): Stream with MCP progress notifications (default: false)
+  - background (boolean, optional): Return a job id at once and run the call
+    in the background; fetch the answer with gpt_job_result (default: false)
+  - reasoning_summary ('auto' | 'concise' | 'detailed', optional): Return a
+    summary of the model's reasoning (reasoning models only)
+  - auto_continue (boolean | number, optional): Continue an answer cut off at
+    max_output_tokens - same as gpt_generate. Not with background
+  - files (string[], optional): Local file paths or glob patterns to attach as
+    context, sent as a user message before the conversation
+  - tools (object, optional): Built-in tools (web_search, file_search,
+    code_interpreter) - same options as gpt_generate
+  - context (object, optional): What happens when the messages, instructions,
+    files and max_output_tokens do not fit the model's context window. The
+    last message is always kept
+    - strategy: "drop_oldest" | "keep_ends" (drop from the middle, keeping
+      the first keep_first and last keep_last messages) | "summarize"
+      (replace older turns with a summary by a cheap model) | "fail"
+      (default: GPT_CONTEXT_STRATEGY or "drop_oldest")
+    - keep_first (number, default 1), keep_last (number, default 4)
+    - summary_model (string, optional): Model that writes the summary
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "text": string,           // AI response text
+    "model": string,          // Model used
+    "message_count": number,  // Number of messages in conversation
+    "status": string,         // "completed" or "incomplete"
+    "incomplete_reason": string, "refusal": string, // Only when cut off / refused
+    "context": {              // How the history was fitted into the context window
+      "estimated_tokens": number, "sent_tokens": number,
+      "context_window": number|null, "reserved_output_tokens": number,
+      "strategy": string, "applied": boolean,
+      "dropped": number[], "summarized": number[], // Message indexes
+      "summary_model": string // Only when older turns were summarized
+    },
+    "usage": { ... },         // Token usage (with reasoning_tokens)
+    "reasoning_summary": string, // Only with reasoning_summary
+    "truncated": boolean,     // Whether text is only the first page
+    "response_handle": string, "page": number, "total_pages": number,
+    "next_cursor": string|null, // Pass to gpt_read_more for the next page
+    "files": { ... },         // Included/skipped files (only with files)
+    "tool_activity": { ... }, // Citations and built-in tool calls (if any)
+    "warnings": string[]      // Dropped parameters, incomplete or refused answers (if any)
+  }
+  With background: { "job_id": string, "status": string, ... } (see gpt_job_result)
+
+Example messages:
+  [
+    { "role": "user", "content": "What is the capital of France?" },
+    { "role": "assistant", "content": "The capital of France is Paris." },
+    { "role": "user", "content": "What is its population?" }
+  ]
+
+Example with an image:
+  [
+    { "role": "user", "content": [
+      { "type": "text", "text": "What is wrong with this layout?" },
+      { "type": "image_path", "path": "screenshots/login.png" }
+    ] }
+  ]
+
+Note: Messages should alternate between user and assistant roles.`,
+      inputSchema: MessagesInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const { provider, model, options } = resolveCallSettings(params);
+
+        // Build input items for Responses API
+        // Convert messages to ResponseInputItem format
+        const inputItems: OpenAI.Responses.ResponseInputItem[] = await Promise.all(
+          params.messages.map(async msg => ({
+            type: "message" as const,
+            role: msg.role,
+            content: await toInputContent(msg.role, msg.content),
+          }))
+        );
+
+        const call: CallContext = {
+          tool: "gpt_messages",
+          provider,
+          extra,
+          stream: params.stream ?? false,
+          warnings: [],
+        };
+
+        // Shorten the history if it does not fit the context window
+        const fileContext = await loadFileContext(params.files);
+        const fileItem: OpenAI.Responses.ResponseInputItem | undefined = fileContext?.text
+          ? { type: "message", role: "user", content: fileContext.text }
+          : undefined;
+        const fitted = await fitMessageHistory(
+          inputItems,
+          estimateTokens([options.instructions ?? "", fileItem ?? ""]),
+          model,
+          options,
+          params.context,
+          call
+        );
+
+        // Attached files go first, as a user message ahead of the conversation
+        const requestItems = fileItem ? [fileItem, ...fitted.items] : fitted.items;
+
+        // Build Responses API request
+        const requestOptions = buildRequestOptions(model, requestItems, options);
+        applyBuiltinTools(requestOptions, params.tools);
+        applyReasoningSummary(requestOptions, params.reasoning_summary, call.warnings);
+
+        // Call Responses API (streams progress when requested)
+        const context: JobResultContext = {
+          files: fileContext?.report,
+          message_count: params.messages.length,
+          context_report: fitted.report,
+          warnings: call.warnings,
+        };
+        if (params.background) {
+          if (params.auto_continue) {
+            call.warnings.push("auto_continue was ignored: not supported with background.");
+          }
+          return formatJobStarted(await startBackgroundJob(requestOptions, call, context), params.response_format);
+        }
+        call.autoContinue = resolveAutoContinue(params.auto_continue);
+        const response = await createResponse(requestOptions, call);
+        return formatMessagesResult(response, context, params.response_format);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tools: gpt_conversation_* (server-side sessions)
+// =============================================================================
+
+const sessionStore = new SessionStore(SESSIONS_FILE);
+
+/**
+ * Whether an error means the stored previous_response_id can no longer be
+ * used (expired, deleted or never stored upstream).
+ */
+function isMissingPreviousResponse(error: unknown): boolean {
+  const cause = error instanceof RetryError ? error.cause : error;
+  if (!(cause instanceof OpenAI.APIError)) {
+    return false;
+  }
+  return (cause.status === 400 || cause.status === 404) &&
+    (cause.code === "previous_response_not_found" ||
+      cause.param === "previous_response_id" ||
+      /previous[_ ]response/i.test(cause.message));
+}
+
+/**
+ * Run one conversation turn for a session.
+ *
+ * Chains onto the last response with `previous_response_id` so only the new
+ * user message is sent. If the upstream response is no longer available, the
+ * stored history is replayed as input items instead.
+ */
+async function runConversationTurn(
+  session: Session,
+  input: string,
+  overrides: GenerationOptions,
+  call: CallContext
+): Promise<{ response: OpenAI.Responses.Response; chained: boolean }> {
+  const settings: GenerationOptions = { ...session.settings, ...overrides };
+
+  // Chat Completions backends cannot chain, they always replay the history
+  if (session.last_response_id && call.provider.usesResponses) {
+    try {
+      const requestOptions = buildRequestOptions(session.settings.model, input, settings);
+      requestOptions.previous_response_id = session.last_response_id;
+      requestOptions.store = true;
+      const response = await createResponse(requestOptions, call);
+      return { response, chained: true };
+    } catch (error) {
+      if (!isMissingPreviousResponse(error)) {
+        throw error;
+      }
+      logger.warning(
+        "conversations",
+        `Previous response for conversation "${session.id}" is unavailable, replaying stored history.`,
+        undefined,
+        { session: call.extra.sessionId }
+      );
+    }
+  }
+
+  // First turn, or chaining unavailable - send the full stored history
+  const inputItems: OpenAI.Responses.ResponseInputItem[] = [
+    ...session.turns.map(turn => ({
+      type: "message" as const,
+      role: turn.role,
+      content: turn.content,
+    })),
+    { type: "message" as const, role: "user" as const, content: input },
+  ];
+  const requestOptions = buildRequestOptions(session.settings.model, inputItems, settings);
+  requestOptions.store = true;
+  const response = await createResponse(requestOptions, call);
+  return { response, chained: false };
+}
+
+/**
+ * Run a turn, record it in the session store and build the tool result.
+ */
+async function replyInSession(
+  session: Session,
+  input: string,
+  overrides: GenerationOptions,
+  call: CallContext,
+  format: ResponseFormat | undefined
+) {
+  const { response, chained } = await runConversationTurn(session, input, overrides, call);
+
+  const rawText = extractResponseText(response);
+  const usage = extractUsage(response);
+  const updated = await sessionStore.appendExchange(session.id, input, rawText, response.id, usage);
+  resourceSubscriptions.updated(`gpt://conversations/${updated.id}`);
+
+  // Prepare structured output
+  const structuredOutput = {
+    text: rawText,
+    model: response.model,
+    session_id: updated.id,
+    turn: updated.turn_count,
+    chained,
+    usage,
+    cumulative_usage: { ...updated.usage },
+    truncated: false,
+    warnings: call.warnings.length > 0 ? call.warnings : undefined,
+  };
+
+  const footer = formatUsageFooter(usage) + formatWarningsFooter(call.warnings) +
+    `\n**Conversation:** \`${updated.id}\` · turn ${updated.turn_count} · ` +
+    `${updated.usage.total_tokens} total tokens so far`;
+
+  return formatToolResult(structuredOutput, storeResponse(response, rawText, call.tool), footer, format);
+}
+
+const ConversationStartInputSchema = z.object({
+  input: z.string()
+    .min(1, "Input prompt is required")
+    .describe("The first user message of the conversation"),
+  title: z.string()
+    .max(200)
+    .optional()
+    .describe("Optional human-readable title for the conversation"),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai'); see gpt_status"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions, kept for the whole conversation"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens to generate per turn"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Temperature for randomness (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Top-p sampling parameter"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  stream: z.boolean()
+    .default(false)
+    .describe("Stream the response and report partial text via MCP progress notifications"),
+}).strict();
+
+/** Register gpt_conversation_start on a server instance */
+function registerConversationStartTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_conversation_start",
+    {
+      title: "Start GPT Conversation",
+      description: `Start a server-side GPT conversation and get the first answer.
+
+The server stores the conversation under a session id and keeps its history,
+so follow-up turns only need to send the new message (see
+gpt_conversation_reply). Turns are chained with the Responses API
+previous_response_id. Sessions are persisted locally and survive restarts.
+
+Args:
+  - input (string, required): The first user message
+  - title (string, optional): Human-readable title for the conversation
+  - model (string, optional): Model to use (defaults to GPT_MODEL env or gpt-5.4)
+  - provider (string, optional): Provider profile (default: GPT_PROVIDER or 'openai').
+    Backends without the Responses API are called via Chat Completions
+  - instructions (string, optional): System instructions for the whole conversation
+  - reasoning_effort (string, optional): Reasoning level - none/low/medium/high
+  - max_output_tokens (number, optional): Maximum output length per turn
+  - temperature (number, optional): Randomness 0-2
+  - top_p (number, optional): Top-p sampling parameter
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  - stream (boolean, optional): Stream with MCP progress notifications (default: false)
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "text": string,              // AI response text
+    "model": string,             // Model used
+    "session_id": string,        // Id to pass to gpt_conversation_reply
+    "turn": number,              // Turn number (1 for the first answer)
+    "chained": boolean,          // Whether previous_response_id was used
+    "usage": { ... },            // Token usage of this turn
+    "cumulative_usage": { ... }, // Token usage of the whole conversation
+    "truncated": boolean,        // Whether text is only the first page
+    "response_handle": string, "page": number, "total_pages": number,
+    "next_cursor": string|null,  // Pass to gpt_read_more for the next page
+    "warnings": string[]         // Parameters the model does not accept (if any)
+  }`,
+      inputSchema: ConversationStartInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      let session: Session | undefined;
+      try {
+        const { provider, model, options } = resolveCallSettings(params);
+        session = await sessionStore.create({
+          provider: provider.name,
+          model,
+          instructions: options.instructions,
+          reasoning_effort: options.reasoning_effort,
+          max_output_tokens: options.max_output_tokens,
+          temperature: options.temperature,
+          top_p: options.top_p,
+        }, params.title);
+
+        return await replyInSession(session, params.input, {}, {
+          tool: "gpt_conversation_start",
+          provider,
+          extra,
+          stream: params.stream ?? false,
+          warnings: [],
+        }, params.response_format);
+      } catch (error) {
+        // Don't keep conversations whose first turn never happened
+        if (session && session.turn_count === 0) {
+          await sessionStore.delete(session.id).catch(() => undefined);
+        }
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+const ConversationReplyInputSchema = z.object({
+  session_id: z.string()
+    .min(1, "Session id is required")
+    .describe("Conversation id returned by gpt_conversation_start"),
+  input: z.string()
+    .min(1, "Input prompt is required")
+    .describe("The next user message"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Override the conversation's reasoning effort for this turn"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Override the maximum output tokens for this turn"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Override the temperature for this turn (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Override top-p sampling for this turn"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  stream: z.boolean()
+    .default(false)
+    .describe("Stream the response and report partial text via MCP progress notifications"),
+}).strict();
+
+/** Register gpt_conversation_reply on a server instance */
+function registerConversationReplyTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_conversation_reply",
+    {
+      title: "Reply in GPT Conversation",
+      description: `Send the next message in a server-side GPT conversation.
+
+Only the new message is sent - the server chains it onto the previous answer
+with previous_response_id, or replays the stored history if the upstream
+response is no longer available. Model and instructions are fixed when the
+conversation is started; sampling settings can be overridden per turn.
+
+Args:
+  - session_id (string, required): Id returned by gpt_conversation_start
+  - input (string, required): The next user message
+  - reasoning_effort (string, optional): Per-turn override - none/low/medium/high
+  - max_output_tokens (number, optional): Per-turn override
+  - temperature (number, optional): Per-turn override 0-2
+  - top_p (number, optional): Per-turn override
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  - stream (boolean, optional): Stream with MCP progress notifications (default: false)
+
+Returns:
+  Same schema as gpt_conversation_start, with the incremented "turn" number
+  and updated "cumulative_usage".`,
+      inputSchema: ConversationReplyInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      const session = sessionStore.get(params.session_id);
+      if (!session) {
+        return {
+          content: [{ type: "text", text: `Error: Conversation "${params.session_id}" not found. Use gpt_conversation_list to see available conversations.` }],
+          isError: true,
+        };
+      }
+
+      try {
+        const overrides: GenerationOptions = {
+          reasoning_effort: params.reasoning_effort,
+          max_output_tokens: params.max_output_tokens,
+          temperature: params.temperature,
+          top_p: params.top_p,
+        };
+        // Drop unset overrides so they don't mask the session settings
+        for (const key of Object.keys(overrides) as (keyof GenerationOptions)[]) {
+          if (overrides[key] === undefined) {
+            delete overrides[key];
+          }
+        }
+
+        return await replyInSession(session, params.input, overrides, {
+          tool: "gpt_conversation_reply",
+          provider: providers.get(session.settings.provider),
+          extra,
+          stream: params.stream ?? false,
+          warnings: [],
+        }, params.response_format);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+const ConversationListInputSchema = z.object({
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("Maximum number of conversations to return (most recent first)"),
+}).strict();
+
+/** Register gpt_conversation_list on a server instance */
+function registerConversationListTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_conversation_list",
+    {
+      title: "List GPT Conversations",
+      description: `List stored server-side GPT conversations, most recently updated first.
+
+Args:
+  - limit (number, optional): Maximum number of conversations (default: 20)
+
+Returns:
+  Structured data with schema:
+  {
+    "conversations": [{
+      "id": string,
+      "title": string | undefined,
+      "model": string,
+      "turn_count": number,
+      "usage": { ... },        // Cumulative token usage
+      "created_at": string,
+      "updated_at": string
+    }],
+    "total": number            // Number of stored conversations
+  }`,
+      inputSchema: ConversationListInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      const all = sessionStore.list();
+      const conversations = all.slice(0, params.limit ?? 20);
+
+      let text = `# GPT Conversations (${conversations.length} of ${all.length})\n\n`;
+      if (conversations.length === 0) {
+        text += "_No conversations stored. Use gpt_conversation_start to begin one._\n";
+      } else {
+        text += `| Id | Title | Model | Turns | Tokens | Updated |\n`;
+        text += `|----|-------|-------|-------|--------|---------|\n`;
+        for (const c of conversations) {
+          text += `| \`${c.id}\` | ${c.title ?? "-"} | \`${c.model}\` | ${c.turn_count} | ${c.usage.total_tokens} | ${c.updated_at} |\n`;
+        }
+      }
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { conversations, total: all.length },
+      };
+    }
+  );
+}
+
+const ConversationDeleteInputSchema = z.object({
+  session_id: z.string()
+    .min(1, "Session id is required")
+    .describe("Conversation id to delete"),
+}).strict();
+
+/** Register gpt_conversation_delete on a server instance */
+function registerConversationDeleteTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_conversation_delete",
+    {
+      title: "Delete GPT Conversation",
+      description: `Delete a stored server-side GPT conversation and its history.
+
+Args:
+  - session_id (string, required): Conversation id to delete
+
+Returns:
+  { "session_id": string, "deleted": boolean }`,
+      inputSchema: ConversationDeleteInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      try {
+        const deleted = await sessionStore.delete(params.session_id);
+        if (deleted) {
+          resourceSubscriptions.listChanged();
+        }
+        const text = deleted
+          ? `Conversation \`${params.session_id}\` deleted.`
+          : `Conversation \`${params.session_id}\` not found (nothing deleted).`;
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { session_id: params.session_id, deleted },
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Prompts and Tool: gpt_run_template
+// =============================================================================
+
+const TemplateMetaSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().min(1),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[\w-]+$/, "Argument names may only contain letters, digits, '_' and '-'"),
+    description: z.string().optional(),
+    required: z.boolean().default(false),
+  }).strict()).default([]),
+  preset: z.string().optional(),
+  model: z.string().optional(),
+}).strict();
+
+function parseTemplateMeta(data: Record<string, unknown>): TemplateMeta {
+  const result = TemplateMetaSchema.safeParse(data);
+  if (!result.success) {
+    throw new TemplateError(result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; "));
+  }
+  return result.data;
+}
+
+/** Built-in templates, then the templates directory (same name replaces a built-in) */
+function loadTemplates(): Map<string, PromptTemplate> {
+  const templates = new Map<string, PromptTemplate>();
+  for (const template of [...BUILTIN_TEMPLATES, ...loadTemplateDir(TEMPLATES_DIR, parseTemplateMeta)]) {
+    templates.set(template.name, template);
+  }
+  return templates;
+}
+
+const templates = loadTemplates();
+
+/** Look up a template, throwing a TemplateError that lists the known ones */
+function getTemplate(name: string): PromptTemplate {
+  const template = templates.get(name);
+  if (!template) {
+    throw new TemplateError(`Unknown template "${name}". Available templates: ${[...templates.keys()].join(", ")}`);
+  }
+  return template;
+}
+
+/**
+ * Register every template as an MCP prompt. The prompt asks the client to run
+ * the template with gpt_run_template and weigh GPT's answer against its own.
+ */
+function registerTemplatePrompts(server: McpServer): void {
+  for (const template of templates.values()) {
+    const argsSchema = Object.fromEntries(template.arguments.map(arg => {
+      const schema = z.string().describe(arg.description ?? arg.name);
+      return [arg.name, arg.required ? schema : schema.optional()];
+    }));
+
+    server.registerPrompt(
+      template.name,
+      {
+        title: template.title,
+        description: template.description,
+        argsSchema,
+      },
+      (args) => {
+        const provided = Object.fromEntries(Object.entries(args).filter(([, value]) => value));
+        // Fail early on missing arguments rather than in the tool call
+        renderTemplate(template, provided);
+        return {
+          description: template.description,
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Get a second opinion from GPT: call the \`gpt_run_template\` tool with these parameters:\n\n` +
+                "```json\n" + JSON.stringify({ template: template.name, arguments: provided }, null, 2) + "\n```\n\n" +
+                `Then compare GPT's answer with your own assessment: say where you agree, where you disagree and why.`,
+            },
+          }],
+        };
+      }
+    );
+  }
+}
+
+const RunTemplateInputSchema = z.object({
+  template: z.string()
+    .min(1, "Template name is required")
+    .describe("Name of the template (built-in or from the templates directory)"),
+  arguments: z.record(z.string())
+    .default({})
+    .describe("Template arguments by name"),
+  model: z.string()
+    .optional()
+    .describe("Model override (defaults to the template's model, then the preset or GPT_MODEL)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai')"),
+  preset: z.string()
+    .optional()
+    .describe("Preset override (defaults to the template's preset)"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  stream: z.boolean()
+    .default(false)
+    .describe("Stream the response and report partial text via MCP progress notifications"),
+}).strict();
+
+/** Register gpt_run_template on a server instance */
+function registerRunTemplateTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_run_template",
+    {
+      title: "Run a GPT Prompt Template",
+      description: `Render a prompt template and send it to GPT.
+
+Templates bundle a request text with typed arguments and optionally a preset
+and default model. They are also available as MCP prompts. Built-in
+templates can be replaced, and more added, with Markdown files in
+GPT_TEMPLATES_DIR (default ~/.gpt-mcp-server/templates).
+
+Templates:
+${[...templates.values()].map(t => `  - ${t.name}(${t.arguments.map(a => a.required ? a.name : `${a.name}?`).join(", ")}): ${t.description}`).join("\n")}
+
+Args:
+  - template (string, required): Template name
+  - arguments (object, optional): Template arguments by name (strings)
+  - model (string, optional): Model override
+  - provider (string, optional): Provider profile
+  - preset (string, optional): Preset override
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+  - stream (boolean, optional): Stream with MCP progress notifications (default: false)
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "text": string,           // GPT's answer
+    "model": string,          // Model used
+    "template": string,       // Template name
+    "usage": { ... },         // Token usage
+    "truncated": boolean,     // Whether text is only the first page
+    "response_handle": string, "page": number, "total_pages": number,
+    "next_cursor": string|null, // Pass to gpt_read_more for the next page
+    "warnings": string[]      // Parameters the model does not accept (if any)
+  }
+
+  Unknown templates, unknown arguments and missing required arguments are
+  reported as errors before any API call.`,
+      inputSchema: RunTemplateInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const template = getTemplate(params.template);
+        const input = renderTemplate(template, params.arguments ?? {});
+
+        // The template's model and preset are defaults; call parameters win
+        const { provider, model, options } = resolveCallSettings({
+          provider: params.provider,
+          model: params.model ?? template.model,
+          preset: params.preset ?? template.preset,
+        });
+
+        const requestOptions = buildRequestOptions(model, input, options);
+        const call: CallContext = {
+          tool: "gpt_run_template",
+          provider,
+          extra,
+          stream: params.stream ?? false,
+          warnings: [],
+        };
+        const response = await createResponse(requestOptions, call);
+
+        const rawText = extractResponseText(response);
+        const structuredOutput = {
+          text: rawText,
+          model: response.model,
+          template: template.name,
+          usage: extractUsage(response),
+          truncated: false,
+          warnings: call.warnings.length > 0 ? call.warnings : undefined,
+        };
+
+        return formatToolResult(
+          structuredOutput,
+          storeResponse(response, rawText, "gpt_run_template"),
+          formatUsageFooter(structuredOutput.usage) + formatWarningsFooter(call.warnings),
+          params.response_format
+        );
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tool: gpt_compare
+// =============================================================================
+
+const CompareVariantSchema = z.object({
+  label: z.string()
+    .min(1)
+    .max(64)
+    .optional()
+    .describe("Name shown for this variant (default: model and reasoning effort)"),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai')"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset from gpt-mcp.config.json; explicit parameters win"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions for this variant (overrides the shared instructions)"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens to generate"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Temperature for randomness (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Top-p sampling parameter"),
+}).strict();
+
+const CompareJudgeSchema = z.object({
+  model: z.string()
+    .optional()
+    .describe("Model that compares the answers (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile of the judge"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset for the judge"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort of the judge"),
+  instructions: z.string()
+    .optional()
+    .describe("Instructions replacing the default judging instructions"),
+}).strict();
+
+const CompareInputSchema = z.object({
+  input: z.string()
+    .min(1, "Input prompt is required")
+    .describe("The prompt sent to every variant"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions shared by all variants"),
+  variants: z.array(CompareVariantSchema)
+    .min(2, "At least two variants are required")
+    .max(COMPARE_MAX_VARIANTS)
+    .describe("Model and settings combinations to compare"),
+  judge: z.union([z.boolean(), CompareJudgeSchema])
+    .default(false)
+    .describe("Have a model summarize where the answers agree and differ (true, or the judge's settings)"),
+  files: z.array(z.string().min(1))
+    .max(50)
+    .optional()
+    .describe("Local file paths or glob patterns (inside the workspace roots) to attach as context"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+const DEFAULT_JUDGE_INSTRUCTIONS = `You compare answers that different models gave to the same request.
+Summarize where the answers agree, then where they differ (facts, recommendations, reasoning, completeness).
+Point out claims that look wrong or unsupported. If one answer is clearly better, say which and why.
+Refer to the answers by their labels. Be concise.`;
+
+/** One answer of a comparison */
+interface CompareAnswer {
+  label: string;
+  provider: string;
+  model: string;
+  /** Settings actually sent (after preset, defaults and capability checks) */
+  settings: { reasoning_effort: string; temperature?: number; top_p?: number; max_output_tokens?: number };
+  status: "ok" | "error";
+  /** Answer (first page if it is longer than a page) */
+  text?: string;
+  response_handle?: string;
+  total_pages?: number;
+  usage?: TokenUsage;
+  latency_ms: number;
+  cost_usd: number | null;
+  error?: { category: string; message: string };
+  warnings?: string[];
+}
+
+/** Estimated cost of a response (null when the model has no known price) */
+function estimateResponseCost(response: OpenAI.Responses.Response): number | null {
+  if (!response.usage) {
+    return null;
+  }
+  return estimateCost(usageLedger.prices, response.model, {
+    input_tokens: response.usage.input_tokens,
+    cached_input_tokens: response.usage.input_tokens_details?.cached_tokens ?? 0,
+    output_tokens: response.usage.output_tokens,
+  });
+}
+
+/** Default label of a variant: model, reasoning effort and sampling settings */
+function compareLabel(requestOptions: OpenAI.Responses.ResponseCreateParams): string {
+  const settings = [requestOptions.reasoning?.effort ?? "none"];
+  if (requestOptions.temperature !== undefined && requestOptions.temperature !== null) {
+    settings.push(`t=${requestOptions.temperature}`);
+  }
+  return `${requestOptions.model} (${settings.join(", ")})`;
+}
+
+/**
+ * Ask the judge to compare the answers. The judge sees the request and the
+ * full text of every successful answer.
+ */
+async function runCompareJudge(
+  judge: z.infer<typeof CompareJudgeSchema>,
+  input: string,
+  answers: { label: string; text: string }[],
+  extra: ToolExtra,
+  warnings: string[]
+): Promise<OpenAI.Responses.Response> {
+  const { provider, model, options } = resolveCallSettings({
+    ...judge,
+    instructions: judge.instructions ?? DEFAULT_JUDGE_INSTRUCTIONS,
+  });
+  const prompt = `Request:\n${input}\n\n` +
+    answers.map(answer => `--- Answer "${answer.label}" ---\n${answer.text}`).join("\n\n");
+  const call: CallContext = { tool: "gpt_compare", provider, extra, stream: false, warnings };
+  return createResponse(buildRequestOptions(model, prompt, options), call);
+}
+
+/** Markdown rendering of a comparison */
+function formatComparison(
+  answers: CompareAnswer[],
+  judge: { model: string; text: string; total_pages: number; response_handle: string } | { error: { category: string; message: string } } | undefined
+): string {
+  let text = `# Comparison (${answers.length} variants)\n\n`;
+  text += `| Variant | Model | Latency | Tokens | Est. Cost |\n`;
+  text += `|---------|-------|---------|--------|-----------|\n`;
+  for (const answer of answers) {
+    text += `| ${answer.label} | \`${answer.model}\` | ${(answer.latency_ms / 1000).toFixed(1)} s | ` +
+      `${answer.usage ? answer.usage.total_tokens.toLocaleString() : "-"} | ` +
+      `${answer.cost_usd === null ? "n/a" : formatCost(answer.cost_usd)} |\n`;
+  }
+
+  for (const answer of answers) {
+    text += `\n## ${answer.label}\n\n`;
+    if (answer.status === "error") {
+      text += `${answer.error?.message} _(${answer.error?.category})_\n`;
+      continue;
+    }
+    text += `${answer.text}\n`;
+    if (answer.total_pages && answer.total_pages > 1) {
+      text += `\n_Page 1 of ${answer.total_pages}: read the rest with \`gpt_read_more\` (response handle \`${answer.response_handle}\`)._\n`;
+    }
+    text += formatWarningsFooter(answer.warnings ?? []);
+  }
+
+  if (judge) {
+    if ("error" in judge) {
+      text += `\n## Judge\n\n${judge.error.message} _(${judge.error.category})_\n`;
+    } else {
+      text += `\n## Judge (\`${judge.model}\`)\n\n${judge.text}\n`;
+      if (judge.total_pages > 1) {
+        text += `\n_Page 1 of ${judge.total_pages}: read the rest with \`gpt_read_more\` (response handle \`${judge.response_handle}\`)._\n`;
+      }
+    }
+  }
+  return text;
+}
+
+/** Register gpt_compare on a server instance */
+function registerCompareTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_compare",
+    {
+      title: "Compare GPT Models and Settings",
+      description: `Send one prompt to several model/setting variants in parallel and compare the answers.
+
+Use this for several second opinions at once, e.g. gpt-5.4 at low vs high
+reasoning effort, or two model families side by side. Optionally a judge
+model summarizes where the answers agree and where they differ.
+
+Args:
+  - input (string, required): The prompt sent to every variant
+  - instructions (string, optional): System instructions shared by all variants
+  - variants (array, required): 2-${COMPARE_MAX_VARIANTS} variants, each with optional
+    label, model, provider, preset, instructions, reasoning_effort,
+    max_output_tokens, temperature, top_p. Settings not given come from the
+    preset, then the config defaults, as in gpt_generate
+  - judge (boolean | object, optional): Run a judge step after the variants.
+    true uses the default model; an object sets its model, provider, preset,
+    reasoning_effort and instructions. Default: false
+  - files (string[], optional): Local file paths or glob patterns to attach as
+    context (sent to every variant, not to the judge)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "variants": [{
+      "label": string,
+      "provider": string,
+      "model": string,
+      "settings": { "reasoning_effort", "temperature"?, "top_p"?, "max_output_tokens"? },
+      "status": "ok" | "error",
+      "text": string,         // Answer (first page; see response_handle)
+      "response_handle": string, "total_pages": number,
+      "usage": { ... },
+      "latency_ms": number,
+      "cost_usd": number|null, // Estimated from the price table
+      "error": { "category", "message" },  // Failed variants
+      "warnings": string[]
+    }],
+    "judge": { "model", "text", "usage", "latency_ms", "cost_usd", ... },  // With judge
+    "summary": { "succeeded", "failed", "usage", "cost_usd", "duration_ms" }
+  }
+
+A failed variant does not fail the others. Every variant is a separate call,
+with its own capability check, budget check and usage record.`,
+      inputSchema: CompareInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const started = Date.now();
+        const fileContext = await loadFileContext(params.files);
+        const input = fileContext?.text ? `${fileContext.text}\n\n${params.input}` : params.input;
+
+        // Resolve every variant before the first call, so a bad preset or provider fails fast
+        const labels = new Set<string>();
+        const variants = params.variants.map(variant => {
+          const { provider, model, options } = resolveCallSettings({
+            ...variant,
+            instructions: variant.instructions ?? params.instructions,
+          });
+          const requestOptions = buildRequestOptions(model, input, options);
+          let label = variant.label ?? compareLabel(requestOptions);
+          for (let n = 2; labels.has(label); n++) {
+            label = `${variant.label ?? compareLabel(requestOptions)} #${n}`;
+          }
+          labels.add(label);
+          return { label, provider, requestOptions };
+        });
+
+        const progressToken = extra._meta?.progressToken;
+        let done = 0;
+        const fullTexts = new Map<string, string>();
+
+        const answers = await Promise.all(variants.map(async ({ label, provider, requestOptions }): Promise<CompareAnswer> => {
+          const call: CallContext = { tool: "gpt_compare", provider, extra, stream: false, warnings: [] };
+          const callStarted = Date.now();
+          let outcome: Omit<CompareAnswer, "label" | "provider" | "settings" | "warnings">;
+          try {
+            const response = await createResponse(requestOptions, call);
+            const rawText = extractResponseText(response);
+            const page = storeResponse(response, rawText, "gpt_compare");
+            fullTexts.set(label, rawText);
+            outcome = {
+              model: response.model,
+              status: "ok",
+              text: page.text,
+              response_handle: page.response_handle,
+              total_pages: page.total_pages,
+              usage: extractUsage(response),
+              latency_ms: Date.now() - callStarted,
+              cost_usd: estimateResponseCost(response),
+            };
+          } catch (error) {
+            const details = describeError(error, handleOpenAIError(error));
+            outcome = {
+              model: requestOptions.model ?? provider.activeModel,
+              status: "error",
+              latency_ms: Date.now() - callStarted,
+              cost_usd: null,
+              error: { category: details.category, message: details.message },
+            };
+          }
+          // The request as sent: the capability check may have dropped or clamped parameters
+          const sent = call.sent ?? requestOptions;
+          const answer: CompareAnswer = {
+            label,
+            provider: provider.name,
+            settings: {
+              reasoning_effort: sent.reasoning?.effort ?? "none",
+              temperature: sent.temperature ?? undefined,
+              top_p: sent.top_p ?? undefined,
+              max_output_tokens: sent.max_output_tokens ?? undefined,
+            },
+            ...outcome,
+            warnings: call.warnings.length > 0 ? call.warnings : undefined,
+          };
+
+          done++;
+          if (progressToken !== undefined) {
+            try {
+              await extra.sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress: done, total: variants.length, message: `${label}: ${answer.status}` },
+              });
+            } catch {
+              // Progress is best-effort - never fail the comparison because of it
+            }
+          }
+          return answer;
+        }));
+
+        // Judge step, once at least two answers are there to compare
+        let judge: {
+          model: string;
+          text: string;
+          usage?: TokenUsage;
+          latency_ms: number;
+          cost_usd: number | null;
+          response_handle: string;
+          total_pages: number;
+          warnings?: string[];
+        } | { error: { category: string; message: string } } | undefined;
+        const succeeded = answers.filter(answer => answer.status === "ok");
+        if (params.judge && succeeded.length >= 2) {
+          const judgeStarted = Date.now();
+          const warnings: string[] = [];
+          try {
+            const response = await runCompareJudge(
+              params.judge === true ? {} : params.judge,
+              params.input,
+              succeeded.map(answer => ({ label: answer.label, text: fullTexts.get(answer.label) ?? "" })),
+              extra,
+              warnings
+            );
+            const rawText = extractResponseText(response);
+            const page = storeResponse(response, rawText, "gpt_compare");
+            judge = {
+              model: response.model,
+              text: page.text,
+              usage: extractUsage(response),
+              latency_ms: Date.now() - judgeStarted,
+              cost_usd: estimateResponseCost(response),
+              response_handle: page.response_handle,
+              total_pages: page.total_pages,
+              warnings: warnings.length > 0 ? warnings : undefined,
+            };
+          } catch (error) {
+            const details = describeError(error, handleOpenAIError(error));
+            judge = { error: { category: details.category, message: details.message } };
+          }
+        } else if (params.judge) {
+          judge = { error: { category: "bad_request", message: "Skipped: fewer than two variants succeeded" } };
+        }
+
+        const priced = [...answers, ...(judge && !("error" in judge) ? [judge] : [])];
+        const costs = priced.map(entry => entry.cost_usd).filter((cost): cost is number => cost !== null);
+        const usage: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+        for (const entry of priced) {
+          if (entry.usage) {
+            usage.input_tokens += entry.usage.input_tokens;
+            usage.output_tokens += entry.usage.output_tokens;
+            usage.total_tokens += entry.usage.total_tokens;
+          }
+        }
+        const output = {
+          variants: answers,
+          judge,
+          summary: {
+            succeeded: succeeded.length,
+            failed: answers.length - succeeded.length,
+            usage,
+            cost_usd: costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : null,
+            duration_ms: Date.now() - started,
+          },
+          files: fileContext?.report,
+        };
+
+        const text = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : formatComparison(answers, judge) +
+            `\n---\n**Total:** ${usage.total_tokens.toLocaleString()} tokens, ` +
+            `${output.summary.cost_usd === null ? "cost n/a" : formatCost(output.summary.cost_usd)}, ` +
+            `${(output.summary.duration_ms / 1000).toFixed(1)} s` +
+            formatFilesFooter(fileContext?.report);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: output,
+          isError: succeeded.length === 0,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tool: gpt_review
+// =============================================================================
+
+const ReviewInputSchema = z.object({
+  range: z.string()
+    .min(1)
+    .optional()
+    .describe("Git ref range to review, e.g. 'main..HEAD' or 'HEAD~3...HEAD'; a single ref is compared with the working tree"),
+  staged: z.boolean()
+    .optional()
+    .describe("Review the staged changes (git diff --cached)"),
+  patch: z.string()
+    .min(1)
+    .optional()
+    .describe("Unified diff to review instead of reading one from git"),
+  directory: z.string()
+    .optional()
+    .describe("Directory inside the repository, within the workspace roots (default: the first root)"),
+  paths: z.array(z.string().min(1))
+    .max(50)
+    .optional()
+    .describe("Limit the review to these paths (relative to directory)"),
+  description: z.string()
+    .optional()
+    .describe("What the change is meant to do; helps the reviewer judge it"),
+  focus: z.array(z.enum(REVIEW_CATEGORIES))
+    .optional()
+    .describe("Categories to concentrate on, e.g. ['security', 'bug']"),
+  instructions: z.string()
+    .optional()
+    .describe("Extra review instructions, e.g. project conventions"),
+  min_severity: z.enum(REVIEW_SEVERITIES)
+    .default("info")
+    .describe("Leave out findings below this severity"),
+  context_lines: z.number()
+    .int()
+    .min(0)
+    .max(200)
+    .optional()
+    .describe(`Lines of the new version shown around each hunk (default: ${REVIEW_DEFAULT_CONTEXT_LINES})`),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai')"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset from gpt-mcp.config.json; explicit parameters win"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens per review call"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+const REVIEW_INSTRUCTIONS = `You are a senior engineer reviewing a code change.
+Report real problems in the changed code: bugs, security issues, wrong error handling, race conditions,
+performance problems, missing tests or documentation, and maintainability issues. Mention style only when it
+hurts readability. Do not report problems in unchanged code unless the change makes them worse.
+Each finding names the file as shown in the diff and the line range in the new version of the file (the numbers
+on the left of the diff and context). Explain what is wrong and why it matters, and suggest a concrete fix.
+Use severity critical for data loss, security holes and crashes, high for likely bugs, medium for edge cases
+and risky code, low for minor issues and info for remarks. Return no findings rather than inventing some.`;
+
+/** Outcome of one review call */
+interface ReviewChunkResult {
+  index: number;
+  files: string[];
+  status: "ok" | "error";
+  summary?: string;
+  findings: number;
+  usage?: TokenUsage;
+  cost_usd: number | null;
+  error?: { category: string; message: string };
+  warnings?: string[];
+}
+
+/** Source of a review from the tool parameters (default: the uncommitted changes) */
+function reviewSource(params: { range?: string; staged?: boolean; patch?: string }): ReviewSource {
+  const given = [params.range !== undefined, params.staged === true, params.patch !== undefined].filter(Boolean).length;
+  if (given > 1) {
+    throw new ReviewError("Give only one of range, staged and patch.");
+  }
+  if (params.range !== undefined) {
+    return { type: "range", range: params.range };
+  }
+  if (params.patch !== undefined) {
+    return { type: "patch", patch: params.patch };
+  }
+  return params.staged ? { type: "staged" } : { type: "uncommitted" };
+}
+
+/** Input of one review call: what the change is for, then the chunk's diff and context */
+function reviewPrompt(chunk: ReviewChunk, index: number, total: number, description: string | undefined): string {
+  let prompt = total > 1
+    ? `This is part ${index + 1} of ${total} of the change; review only the files below.\n\n`
+    : "";
+  if (description) {
+    prompt += `Purpose of the change:\n${description}\n\n`;
+  }
+  return prompt + chunk.text;
+}
+
+/** Markdown report of a review: counts, findings by file, summaries and failed calls */
+function formatReviewReport(
+  findings: ReviewFinding[],
+  chunks: ReviewChunkResult[],
+  skipped: SkippedFile[],
+  bySeverity: Record<ReviewSeverity, number>
+): string {
+  const counts = REVIEW_SEVERITIES.filter(severity => bySeverity[severity] > 0)
+    .map(severity => `${bySeverity[severity]} ${severity}`);
+  let text = `# Code Review\n\n**${findings.length} finding(s)**${counts.length > 0 ? `: ${counts.join(", ")}` : ""}\n`;
+
+  const summaries = chunks.filter(chunk => chunk.summary).map(chunk => chunk.summary!);
+  if (summaries.length > 0) {
+    text += `\n## Summary\n\n${summaries.join("\n\n")}\n`;
+  }
+
+  // Files in the order of their most severe finding
+  const byFile = new Map<string, ReviewFinding[]>();
+  for (const finding of findings) {
+    byFile.set(finding.file, [...(byFile.get(finding.file) ?? []), finding]);
+  }
+  for (const [file, fileFindings] of byFile) {
+    text += `\n## \`${file}\`\n`;
+    for (const finding of fileFindings) {
+      const lines = finding.start_line === finding.end_line
+        ? `line ${finding.start_line}`
+        : `lines ${finding.start_line}-${finding.end_line}`;
+      text += `\n### [${finding.severity}] ${finding.title}\n\n_${finding.category}, ${lines}_\n\n${finding.explanation}\n`;
+      if (finding.suggested_fix) {
+        text += `\n**Suggested fix:**\n\n${finding.suggested_fix}\n`;
+      }
+    }
+  }
+
+  const failed = chunks.filter(chunk => chunk.status === "error");
+  if (failed.length > 0) {
+    text += `\n## Failed Calls\n\n`;
+    for (const chunk of failed) {
+      text += `- Part ${chunk.index + 1} (${chunk.files.join(", ")}): ${chunk.error?.message} _(${chunk.error?.category})_\n`;
+    }
+  }
+  if (skipped.length > 0) {
+    text += `\n## Not Reviewed\n\n${skipped.map(entry => `- \`${entry.path}\`: ${entry.reason}`).join("\n")}\n`;
+  }
+  return text;
+}
+
+/** Register gpt_review on a server instance */
+function registerReviewTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_review",
+    {
+      title: "Review Code Changes with GPT",
+      description: `Review a git diff with GPT and return structured findings.
+
+Gathers the diff from the local repository (a ref range, the staged changes or
+the uncommitted changes) or takes a patch, adds the surrounding lines of each
+changed file, and asks the model for findings in a fixed schema. Large diffs
+are split into several calls; their findings are merged and de-duplicated.
+
+Args:
+  - range (string, optional): Git ref range, e.g. "main..HEAD" or
+    "origin/main...HEAD". A single ref is compared with the working tree
+  - staged (boolean, optional): Review the staged changes
+  - patch (string, optional): Unified diff to review as given
+    Give at most one of range, staged and patch; without any, the
+    uncommitted changes to tracked files are reviewed (git diff HEAD)
+  - directory (string, optional): Directory inside the repository (default:
+    the first workspace root). Must be inside the workspace roots
+  - paths (string[], optional): Only review these paths
+  - description (string, optional): What the change is meant to do
+  - focus (string[], optional): Categories to concentrate on
+  - instructions (string, optional): Extra review instructions
+  - min_severity (string, optional): Leave out findings below this severity:
+    critical/high/medium/low/info (default: info, i.e. everything)
+  - context_lines (number, optional): Lines of the new version shown before
+    and after each hunk, 0-200 (default: ${REVIEW_DEFAULT_CONTEXT_LINES})
+  - model, provider, preset, reasoning_effort, max_output_tokens (optional):
+    Settings of every review call, as in gpt_generate
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "findings": [{
+      "file": string,         // Path relative to the repository root
+      "start_line": number, "end_line": number, // Lines in the new version
+      "severity": "critical"|"high"|"medium"|"low"|"info",
+      "category": "bug"|"security"|"performance"|"error_handling"|"concurrency"|
+                  "maintainability"|"testing"|"documentation"|"style",
+      "title": string,
+      "explanation": string,
+      "suggested_fix": string|null
+    }],                       // Sorted by severity, file and line
+    "chunks": [{ "index", "files", "status": "ok"|"error", "summary"?, "findings",
+                 "usage"?, "cost_usd", "error"?, "warnings"? }],
+    "skipped": [{ "path": string, "reason": string }], // Binary, deleted, lock files, limits
+    "summary": {
+      "files": number, "chunks": number, "failed_chunks": number,
+      "findings": number, "duplicates_removed": number,
+      "by_severity": { "critical": number, ... },
+      "usage": { ... }, "cost_usd": number|null, "duration_ms": number
+    }
+  }
+
+Binary files, deleted files and lock files are not reviewed. Each chunk is a
+separate call with its own capability check, budget check and usage record;
+a failed chunk does not fail the others.`,
+      inputSchema: ReviewInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const started = Date.now();
+        const { provider, model, options } = resolveCallSettings(params);
+        const plan = await planReview(reviewSource(params), params.directory, params.paths, {
+          roots: WORKSPACE_ROOTS,
+          maxFileBytes: FILE_MAX_BYTES,
+          maxOutputChars: REVIEW_MAX_DIFF_CHARS,
+          timeoutMs: AGENT_COMMAND_TIMEOUT_MS,
+          contextLines: params.context_lines ?? REVIEW_DEFAULT_CONTEXT_LINES,
+          maxChunkChars: REVIEW_CHUNK_CHARS,
+          maxChunks: REVIEW_MAX_CHUNKS,
+        });
+        if (plan.chunks.length === 0) {
+          throw new ReviewError(
+            `Nothing left to review: ${plan.skipped.map(entry => `${entry.path} (${entry.reason})`).join(", ")}.`
+          );
+        }
+
+        // The review instructions come first; a preset's or the caller's instructions add to them
+        const instructions = [
+          REVIEW_INSTRUCTIONS,
+          params.focus && params.focus.length > 0 ? `Concentrate on these categories: ${params.focus.join(", ")}.` : "",
+          options.instructions ?? "",
+        ].filter(Boolean).join("\n\n");
+
+        const progressToken = extra._meta?.progressToken;
+        let done = 0;
+        const allFindings: ReviewFinding[] = [];
+
+        const chunks = await runPool(plan.chunks, REVIEW_CONCURRENCY, async (chunk, index): Promise<ReviewChunkResult> => {
+          const call: CallContext = { tool: "gpt_review", provider, extra, stream: false, warnings: [] };
+          const requestOptions = buildRequestOptions(
+            model,
+            reviewPrompt(chunk, index, plan.chunks.length, params.description),
+            { ...options, instructions }
+          );
+          requestOptions.text = {
+            format: { type: "json_schema", name: "code_review", schema: REVIEW_SCHEMA, strict: true },
+          };
+
+          let result: ReviewChunkResult;
+          // Kept outside the try: a non-conforming answer was still paid for
+          let response: OpenAI.Responses.Response | undefined;
+          try {
+            response = await createResponse(requestOptions, call);
+            const validation = validateStructuredOutput(REVIEW_SCHEMA, extractResponseText(response));
+            if (!validation.valid) {
+              throw new ReviewError(`The review does not conform to the findings schema: ${validation.errors.join("; ")}`);
+            }
+            const answer = validation.value as { summary: string; findings: ReviewFinding[] };
+            allFindings.push(...answer.findings);
+            result = {
+              index,
+              files: chunk.files,
+              status: "ok",
+              summary: answer.summary,
+              findings: answer.findings.length,
+              usage: extractUsage(response),
+              cost_usd: estimateResponseCost(response),
+            };
+          } catch (error) {
+            const details = describeError(error, handleOpenAIError(error));
+            result = {
+              index,
+              files: chunk.files,
+              status: "error",
+              findings: 0,
+              usage: response ? extractUsage(response) : undefined,
+              cost_usd: response ? estimateResponseCost(response) : null,
+              error: { category: details.category, message: details.message },
+            };
+          }
+          result.warnings = call.warnings.length > 0 ? call.warnings : undefined;
+
+          done++;
+          if (progressToken !== undefined) {
+            try {
+              await extra.sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: done,
+                  total: plan.chunks.length,
+                  message: `Part ${index + 1} (${chunk.files.join(", ")}): ${result.status}`,
+                },
+              });
+            } catch {
+              // Progress is best-effort - never fail the review because of it
+            }
+          }
+          return result;
+        });
+
+        const merged = mergeFindings(allFindings, params.min_severity ?? "info");
+        const bySeverity = Object.fromEntries(REVIEW_SEVERITIES.map(severity => [severity, 0])) as Record<ReviewSeverity, number>;
+        for (const finding of merged.findings) {
+          bySeverity[finding.severity]++;
+        }
+        const usage: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+        for (const chunk of chunks) {
+          if (chunk.usage) {
+            usage.input_tokens += chunk.usage.input_tokens;
+            usage.output_tokens += chunk.usage.output_tokens;
+            usage.total_tokens += chunk.usage.total_tokens;
+          }
+        }
+        const costs = chunks.map(chunk => chunk.cost_usd).filter((cost): cost is number => cost !== null);
+        const failed = chunks.filter(chunk => chunk.status === "error").length;
+        const output = {
+          findings: merged.findings,
+          chunks,
+          skipped: plan.skipped,
+          summary: {
+            files: plan.files,
+            chunks: chunks.length,
+            failed_chunks: failed,
+            findings: merged.findings.length,
+            duplicates_removed: merged.duplicates,
+            by_severity: bySeverity,
+            usage,
+            cost_usd: costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : null,
+            duration_ms: Date.now() - started,
+          },
+        };
+
+        const warnings = chunks.flatMap(chunk => chunk.warnings ?? []);
+        const text = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : formatReviewReport(merged.findings, chunks, plan.skipped, bySeverity) +
+            `\n---\n**Total:** ${chunks.length} call(s), ${usage.total_tokens.toLocaleString()} tokens, ` +
+            `${output.summary.cost_usd === null ? "cost n/a" : formatCost(output.summary.cost_usd)}, ` +
+            `${(output.summary.duration_ms / 1000).toFixed(1)} s` +
+            formatWarningsFooter([...new Set(warnings)]);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: output,
+          isError: failed === chunks.length,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tools: gpt_batch / gpt_batch_results
+// =============================================================================
+
+const batchJobs = new BatchJobStore(BATCHES_FILE);
+
+const BatchInputItemSchema = z.union([
+  z.string().min(1, "Inputs must not be empty"),
+  z.object({
+    id: z.string().min(1).optional().describe("Id reported with the result (default: position)"),
+    input: z.string().min(1, "Inputs must not be empty").describe("The prompt"),
+  }).strict(),
+]);
+
+const BatchInputSchema = z.object({
+  inputs: z.array(BatchInputItemSchema)
+    .min(1, "At least one input is required")
+    .max(BATCH_MAX_ITEMS)
+    .describe("Prompts to run: strings or { id, input } objects"),
+  model: z.string()
+    .optional()
+    .describe("GPT model variant to use for every input (defaults to GPT_MODEL env or gpt-5.4)"),
+  provider: z.string()
+    .optional()
+    .describe("Provider profile to use (defaults to GPT_PROVIDER env or 'openai')"),
+  preset: z.string()
+    .optional()
+    .describe("Named preset from gpt-mcp.config.json; explicit parameters win"),
+  instructions: z.string()
+    .optional()
+    .describe("System instructions shared by every input"),
+  reasoning_effort: z.enum(["none", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
+  max_output_tokens: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum output tokens per input"),
+  temperature: z.number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Temperature for randomness (0-2)"),
+  top_p: z.number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Top-p sampling parameter"),
+  json_schema: z.record(z.unknown())
+    .optional()
+    .describe("JSON Schema every answer must conform to (Structured Outputs)"),
+  json_schema_file: z.string()
+    .optional()
+    .describe("Path to a JSON Schema file inside the workspace roots, alternative to json_schema"),
+  schema_name: z.string()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, "Schema name may only contain letters, digits, '_' and '-' (max 64)")
+    .default("output")
+    .describe("Name of the schema sent to the API"),
+  concurrency: z.number()
+    .int()
+    .min(1)
+    .max(BATCH_MAX_CONCURRENCY)
+    .optional()
+    .describe(`Inputs run at the same time (default: GPT_BATCH_CONCURRENCY or ${BATCH_DEFAULT_CONCURRENCY})`),
+  item_retries: z.number()
+    .int()
+    .min(0)
+    .max(3)
+    .default(1)
+    .describe("Extra attempts for an input whose answer does not conform to the schema (transient errors are retried by the retry policy)"),
+  mode: z.enum(["direct", "batch_api"])
+    .default("direct")
+    .describe("'direct' runs the inputs now; 'batch_api' submits them to the OpenAI Batch API (results within 24h, half price)"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+type BatchInput = z.infer<typeof BatchInputSchema>;
+
+const BatchResultsInputSchema = z.object({
+  batch_id: z.string()
+    .optional()
+    .describe("Batch job id returned by gpt_batch with mode 'batch_api' (omit to list jobs)"),
+  cancel: z.boolean()
+    .default(false)
+    .describe("Cancel the job instead of fetching its results"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+/** Shared settings of a batch, resolved once for all items */
+interface BatchSettings {
+  provider: Provider;
+  model: string;
+  options: GenerationOptions;
+  schema?: JsonSchema;
+  schemaName: string;
+}
+
+/** Number the inputs of a batch (ids default to the 1-based position) */
+function toBatchItems(inputs: BatchInput["inputs"]): BatchItem[] {
+  return inputs.map((item, index) =>
+    typeof item === "string" ? { id: String(index + 1), input: item } : { id: item.id ?? String(index + 1), input: item.input }
+  );
+}
+
+/** Build the request of one batch item */
+function buildBatchRequest(settings: BatchSettings, input: string): OpenAI.Responses.ResponseCreateParams {
+  const requestOptions = buildRequestOptions(settings.model, input, settings.options);
+  if (settings.schema) {
+    requestOptions.text = {
+      format: { type: "json_schema", name: settings.schemaName, schema: settings.schema, strict: true },
+    };
+  }
+  return requestOptions;
+}
+
+/**
+ * Turn a response into an item result: validate it against the schema (if
+ * any) and store the full answer for gpt_read_more. Returns an error result
+ * when the answer does not conform.
+ */
+function toBatchItemResult(
+  item: BatchItem,
+  response: OpenAI.Responses.Response,
+  schema: JsonSchema | undefined,
+  attempts: number
+): BatchItemResult {
+  const text = extractResponseText(response);
+  const usage = extractUsage(response);
+  let data: unknown;
+  if (schema) {
+    const validation = validateStructuredOutput(schema, text);
+    if (!validation.valid) {
+      return {
+        id: item.id,
+        status: "error",
+        usage,
+        error: { category: "bad_request", message: `Answer does not conform to the JSON schema: ${validation.errors.join("; ")}` },
+        attempts,
+      };
+    }
+    data = validation.value;
+  }
+  const page = storeResponse(response, text, "gpt_batch");
+  return {
+    id: item.id,
+    status: "ok",
+    text: page.text,
+    data,
+    usage,
+    response_handle: page.response_handle,
+    total_pages: page.total_pages,
+    attempts,
+  };
+}
+
+/**
+ * Run the items of a batch now, `concurrency` at a time.
+ * Each item gets `itemRetries` extra attempts after a non-conforming answer;
+ * transient errors were already retried with backoff inside createResponse.
+ * A budget error or cancellation skips the items not started yet. Progress
+ * (items done / total) is reported after each item.
+ */
+async function runBatchDirect(
+  items: BatchItem[],
+  settings: BatchSettings,
+  concurrency: number,
+  itemRetries: number,
+  extra: ToolExtra,
+  warnings: string[]
+): Promise<BatchItemResult[]> {
+  const progressToken = extra._meta?.progressToken;
+  let done = 0;
+  let stopReason: string | undefined;
+
+  const runItem = async (item: BatchItem): Promise<BatchItemResult> => {
+    let attempts = 0;
+    // Usage of every attempt - rejected answers were paid for too
+    let usage: TokenUsage | undefined;
+    for (;;) {
+      if (extra.signal.aborted) {
+        stopReason = "batch cancelled";
+      }
+      if (stopReason) {
+        return { id: item.id, status: "skipped", usage, error: { category: "cancelled", message: `Skipped: ${stopReason}` }, attempts };
+      }
+      attempts++;
+      const call: CallContext = { tool: "gpt_batch", provider: settings.provider, extra, stream: false, warnings };
+      try {
+        const response = await createResponse(buildBatchRequest(settings, item.input), call);
+        const result = toBatchItemResult(item, response, settings.schema, attempts);
+        usage = addUsage(usage, result.usage);
+        if (result.status === "ok" || attempts > itemRetries) {
+          return { ...result, usage };
+        }
+      } catch (error) {
+        const details = describeError(error, handleOpenAIError(error));
+        if (details.category === "budget") {
+          stopReason = "budget exceeded";
+        }
+        return { id: item.id, status: "error", usage, error: { category: details.category, message: details.message }, attempts };
+      }
+    }
+  };
+
+  return runPool(items, concurrency, async item => {
+    const result = await runItem(item);
+    done++;
+    if (progressToken !== undefined) {
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: done, total: items.length, message: `${item.id}: ${result.status}` },
+        });
+      } catch {
+        // Progress is best-effort - never fail the batch because of it
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Submit the items of a batch to the OpenAI Batch API.
+ * Every request is checked like a direct call; the budget check covers the
+ * whole job at the Batch API price.
+ */
+async function submitBatchJob(
+  items: BatchItem[],
+  settings: BatchSettings,
+  extra: ToolExtra,
+  warnings: string[]
+): Promise<BatchJob> {
+  const { provider, model } = settings;
+  if (provider.profile.type === "azure") {
+    throw new BatchError(`Provider "${provider.name}" is an Azure deployment; use mode "direct" instead.`);
+  }
+  const endpoint: BatchEndpoint = provider.usesResponses ? "/v1/responses" : "/v1/chat/completions";
+
+  const call: CallContext = { tool: "gpt_batch", provider, extra, stream: false, warnings };
+  const requests: OpenAI.Responses.ResponseCreateParams[] = [];
+  for (const item of items) {
+    const request = redactRequest(buildBatchRequest(settings, item.input), call);
+    await checkModelCapabilities(request, call);
+    requests.push(request);
+  }
+
+  usageLedger.checkBudget(model, {
+    input_tokens: requests.reduce((sum, request) => sum + estimateInputTokens(request), 0),
+    output_tokens: requests.reduce((sum, request) => sum + (request.max_output_tokens ?? DEFAULT_OUTPUT_ESTIMATE), 0),
+  }, { calls: requests.length, priceFactor: BATCH_API_PRICE_FACTOR });
+
+  const bodies = endpoint === "/v1/responses"
+    ? requests
+    : requests.map(request => toChatRequest(request, chatDialect(provider)));
+  const content = buildBatchFile(endpoint, bodies);
+
+  // One audit record each for the upload and the job, with the shared settings
+  const parameters = {
+    ...auditParameters(requests[0], false),
+    endpoint,
+    input_items: requests.length,
+    input_chars: content.length,
+  };
+  const audited = async <T extends { status?: string }>(operation: string, request: () => Promise<T>): Promise<T> => {
+    const started = Date.now();
+    try {
+      const result = await callOpenAI(provider, request, extra.signal);
+      writeAudit(call, model, { ...parameters, operation }, started, { status: result.status });
+      return result;
+    } catch (error) {
+      writeAudit(call, model, { ...parameters, operation }, started, { error });
+      throw error;
+    }
+  };
+
+  const file = await audited("batch_upload", async () => provider.client.files.create(
+    { file: await OpenAI.toFile(Buffer.from(content, "utf8"), "gpt-batch.jsonl"), purpose: "batch" },
+    { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+  ));
+  const batch = await audited("batch_create", () => provider.client.batches.create(
+    { input_file_id: file.id, endpoint, completion_window: "24h", metadata: { source: SERVER_NAME } },
+    { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }
+  ));
+
+  const job: BatchJob = {
+    id: batch.id,
+    provider: provider.name,
+    model,
+    endpoint,
+    items: items.map(item => item.id),
+    schema: settings.schema,
+    status: batch.status,
+    usage_recorded: false,
+    created_at: new Date().toISOString(),
+  };
+  await batchJobs.add(job);
+  logger.info("batch", `Submitted Batch API job ${job.id} with ${items.length} request(s)`, {
+    request_id: extra.requestId,
+    provider: provider.name,
+    model,
+    endpoint,
+  }, { session: extra.sessionId });
+  return job;
+}
+
+/** Download a Batch API file and parse its lines (none when there is no file) */
+async function fetchBatchOutput(provider: Provider, fileId: string | undefined, signal: AbortSignal): Promise<BatchOutputLine[]> {
+  if (!fileId) {
+    return [];
+  }
+  const content = await callOpenAI(
+    provider,
+    async () => (await provider.client.files.content(fileId, { signal, timeout: RETRY_POLICY.timeoutMs })).text(),
+    signal
+  );
+  return parseBatchOutput(content);
+}
+
+/**
+ * Collect the results of a finished Batch API job in item order. The usage
+ * is added to the ledger (at the Batch API price) the first time.
+ */
+async function collectBatchResults(job: BatchJob, batch: OpenAI.Batches.Batch, signal: AbortSignal): Promise<BatchItemResult[]> {
+  const provider = providers.get(job.provider);
+  const lines = new Map<string, BatchOutputLine>();
+  for (const line of [
+    ...await fetchBatchOutput(provider, batch.output_file_id, signal),
+    ...await fetchBatchOutput(provider, batch.error_file_id, signal),
+  ]) {
+    lines.set(line.custom_id, line);
+  }
+
+  const responses: OpenAI.Responses.Response[] = [];
+  const results = job.items.map((id, index): BatchItemResult => {
+    const line = lines.get(batchCustomId(index));
+    if (!line) {
+      return { id, status: "error", error: { category: "unknown", message: `No result (batch ${batch.status})` }, attempts: 0 };
+    }
+    if (line.error !== undefined) {
+      return { id, status: "error", error: { category: "bad_request", message: line.error }, attempts: 0 };
+    }
+    const response = job.endpoint === "/v1/chat/completions"
+      ? chatCompletionToResponse(line.body as OpenAI.Chat.ChatCompletion)
+      : line.body as OpenAI.Responses.Response;
+    responses.push(response);
+    return toBatchItemResult({ id, input: "" }, response, job.schema, 0);
+  });
+
+  if (!job.usage_recorded && ["completed", "expired", "cancelled"].includes(batch.status)) {
+    try {
+      for (const response of responses) {
+        if (response.usage) {
+          await usageLedger.record("gpt_batch", response.model, {
+            input_tokens: response.usage.input_tokens,
+            cached_input_tokens: response.usage.input_tokens_details?.cached_tokens ?? 0,
+            output_tokens: response.usage.output_tokens,
+            reasoning_tokens: response.usage.output_tokens_details?.reasoning_tokens ?? 0,
+            total_tokens: response.usage.total_tokens,
+          }, BATCH_API_PRICE_FACTOR);
+        }
+      }
+      await batchJobs.update(job.id, { usage_recorded: true });
+      resourceSubscriptions.updatedUnder("gpt://usage/");
+    } catch (error) {
+      logger.warning("usage", `Could not record batch usage: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return results;
+}
+
+/** Estimated cost of a batch's usage (null when the model has no known price) */
+function estimateBatchCost(model: string, usage: TokenUsage, priceFactor = 1): number | null {
+  const cost = estimateCost(usageLedger.prices, model, { ...usage, cached_input_tokens: 0 });
+  return cost === null ? null : cost * priceFactor;
+}
+
+/** Markdown rendering of batch item results and their summary */
+function formatBatchResults(heading: string, results: BatchItemResult[], summary: BatchSummary, costUsd: number | null): string {
+  let text = `# ${heading}\n\n`;
+  text += `| Inputs | Succeeded | Failed | Skipped | Tokens | Est. Cost |\n`;
+  text += `|--------|-----------|--------|---------|--------|-----------|\n`;
+  text += `| ${summary.total} | ${summary.succeeded} | ${summary.failed} | ${summary.skipped} | ` +
+    `${summary.usage.total_tokens.toLocaleString()} | ${costUsd === null ? "n/a" : formatCost(costUsd)} |\n`;
+
+  for (const result of results) {
+    const mark = result.status === "ok" ? "✓" : result.status === "error" ? "✗" : "–";
+    text += `\n## ${mark} ${result.id}\n\n`;
+    if (result.status !== "ok") {
+      text += `${result.error?.message} _(${result.error?.category})_\n`;
+      continue;
+    }
+    text += result.data !== undefined ? "```json\n" + JSON.stringify(result.data, null, 2) + "\n```\n" : `${result.text}\n`;
+    if (result.total_pages && result.total_pages > 1) {
+      text += `\n_Page 1 of ${result.total_pages}: read the rest with \`gpt_read_more\` (response handle \`${result.response_handle}\`)._\n`;
+    }
+  }
+  return text;
+}
+
+/** Register gpt_batch on a server instance */
+function registerBatchTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_batch",
+    {
+      title: "Run Many Prompts with GPT",
+      description: `Run a list of prompts with shared settings, concurrently.
+
+Use this instead of many gpt_generate calls when the same instructions apply
+to many inputs (classify these 40 error messages, summarize these 20 files).
+Inputs run with bounded concurrency; a failed input is retried on its own
+and never fails the others.
+
+Args:
+  - inputs (array, required): Prompts, as strings or { "id": string, "input": string }
+    (up to ${BATCH_MAX_ITEMS}; up to ${BATCH_MAX_DIRECT_ITEMS} in direct mode)
+  - model, provider, preset, instructions, reasoning_effort, max_output_tokens,
+    temperature, top_p: Shared settings, as in gpt_generate
+  - json_schema / json_schema_file (optional): JSON Schema every answer must
+    conform to; answers are parsed into "data"
+  - schema_name (string, optional): Schema name sent to the API (default: 'output')
+  - concurrency (number, optional): Inputs in flight at once
+    (default: GPT_BATCH_CONCURRENCY or ${BATCH_DEFAULT_CONCURRENCY}, max ${BATCH_MAX_CONCURRENCY})
+  - item_retries (number, optional): Extra attempts for an input whose
+    answer does not conform to the schema (default: 1, max 3)
+  - mode ('direct' | 'batch_api'): 'direct' (default) runs the inputs now;
+    'batch_api' submits them to the OpenAI Batch API and returns a batch_id
+    for gpt_batch_results. Batch API jobs finish within 24 hours at half price
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Progress: With a progressToken in the request _meta, an MCP progress
+notification is sent after each input (progress = inputs done, total = inputs).
+
+Returns:
+  For JSON format (direct mode): Structured data with schema:
+  {
+    "mode": "direct",
+    "model": string,
+    "results": [{
+      "id": string,
+      "status": "ok" | "error" | "skipped",
+      "text": string,           // Answer (first page if long)
+      "data": any,              // Parsed answer (only with json_schema)
+      "usage": { ... },
+      "response_handle": string, // For gpt_read_more when total_pages > 1
+      "total_pages": number,
+      "error": { "category": string, "message": string },
+      "attempts": number
+    }],
+    "summary": {
+      "total": number, "succeeded": number, "failed": number, "skipped": number,
+      "usage": { "input_tokens": number, "output_tokens": number, "total_tokens": number },
+      "cost_usd": number | null, // Estimated
+      "duration_ms": number
+    },
+    "warnings": string[]        // Parameters the model does not accept (if any)
   }
 
-Examples:
-  - "Explain quantum computing in simple terms"
-  - "Write a Python function to sort a list"
-  - "Summarize the key points of machine learning"
+  For mode 'batch_api': { "mode": "batch_api", "batch_id": string, "status": string,
+  "model": string, "inputs": number, "warnings"?: string[] }
+
+  A budget error stops the batch: inputs not started yet are skipped.`,
+      inputSchema: BatchInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const items = toBatchItems(params.inputs);
+        const { provider, model, options } = resolveCallSettings(params);
+        const settings: BatchSettings = {
+          provider,
+          model,
+          options,
+          schema: params.json_schema || params.json_schema_file
+            ? await loadJsonSchema(params.json_schema, params.json_schema_file, WORKSPACE_ROOTS)
+            : undefined,
+          schemaName: params.schema_name ?? "output",
+        };
+        const warnings: string[] = [];
+
+        if (params.mode === "batch_api") {
+          const job = await submitBatchJob(items, settings, extra, warnings);
+          const output = {
+            mode: "batch_api" as const,
+            batch_id: job.id,
+            status: job.status,
+            model: job.model,
+            inputs: job.items.length,
+            warnings: warnings.length > 0 ? warnings : undefined,
+          };
+          const text = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+            ? JSON.stringify(output, null, 2)
+            : `# Batch Submitted\n\n` +
+              `Submitted ${output.inputs} input(s) to the OpenAI Batch API as \`${output.batch_id}\` (status: ${output.status}, model: \`${output.model}\`).\n\n` +
+              `Call \`gpt_batch_results\` with this batch_id to check progress and collect the results (within 24 hours).` +
+              formatWarningsFooter(warnings);
+          return { content: [{ type: "text", text }], structuredContent: output };
+        }
+
+        if (items.length > BATCH_MAX_DIRECT_ITEMS) {
+          throw new BatchError(
+            `Direct mode runs at most ${BATCH_MAX_DIRECT_ITEMS} inputs (got ${items.length}). Use mode "batch_api" for larger jobs.`
+          );
+        }
+
+        const startedAt = Date.now();
+        const results = await runBatchDirect(
+          items,
+          settings,
+          params.concurrency ?? BATCH_DEFAULT_CONCURRENCY,
+          params.item_retries ?? 1,
+          extra,
+          warnings
+        );
+        const summary = summarizeBatch(results);
+        const costUsd = estimateBatchCost(model, summary.usage);
+        const output = {
+          mode: "direct" as const,
+          model,
+          results,
+          summary: { ...summary, cost_usd: costUsd, duration_ms: Date.now() - startedAt },
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+
+        const text = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : formatBatchResults(`Batch: ${summary.succeeded} of ${summary.total} succeeded`, results, summary, costUsd) +
+            formatWarningsFooter(warnings);
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: output,
+          isError: summary.succeeded === 0 ? true : undefined,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+/** Register gpt_batch_results on a server instance */
+function registerBatchResultsTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_batch_results",
+    {
+      title: "Get GPT Batch API Results",
+      description: `Check a Batch API job submitted by gpt_batch and collect its results.
+
+Args:
+  - batch_id (string, optional): Job id from gpt_batch (mode 'batch_api').
+    Omit to list the jobs submitted from this server
+  - cancel (boolean, optional): Cancel the job instead (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "batch_id": string,
+    "status": string,         // validating, in_progress, finalizing, completed, failed, expired, cancelling, cancelled
+    "model": string,
+    "request_counts": { "total": number, "completed": number, "failed": number },
+    "results": [ ... ],       // Same items as gpt_batch, once the job has finished
+    "summary": { ... }        // Counts, usage and estimated cost (Batch API price)
+  }
+  Without batch_id: { "jobs": [{ "batch_id", "status", "model", "inputs", "created_at" }] }
+
+The usage of a finished job is added to the usage ledger the first time its
+results are collected.`,
+      inputSchema: BatchResultsInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const json = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON;
+
+        if (!params.batch_id) {
+          const jobs = batchJobs.list().map(job => ({
+            batch_id: job.id,
+            status: job.status,
+            model: job.model,
+            inputs: job.items.length,
+            created_at: job.created_at,
+          }));
+          let text = `# Batch Jobs\n\n`;
+          if (jobs.length === 0) {
+            text += `_No Batch API jobs. Submit one with gpt_batch and mode "batch_api"._\n`;
+          } else {
+            text += `| Batch | Status | Model | Inputs | Created |\n`;
+            text += `|-------|--------|-------|--------|---------|\n`;
+            for (const job of jobs) {
+              text += `| \`${job.batch_id}\` | ${job.status} | \`${job.model}\` | ${job.inputs} | ${job.created_at} |\n`;
+            }
+          }
+          return {
+            content: [{ type: "text", text: json ? JSON.stringify({ jobs }, null, 2) : text }],
+            structuredContent: { jobs },
+          };
+        }
+
+        const job = batchJobs.get(params.batch_id);
+        const provider = providers.get(job.provider);
+        const batch = await callOpenAI(
+          provider,
+          () => params.cancel
+            ? provider.client.batches.cancel(job.id, { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs })
+            : provider.client.batches.retrieve(job.id, { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }),
+          extra.signal
+        );
+        await batchJobs.update(job.id, { status: batch.status });
+
+        const finished = ["completed", "expired", "cancelled", "failed"].includes(batch.status);
+        const results = finished ? await collectBatchResults(job, batch, extra.signal) : undefined;
+        const summary = results ? summarizeBatch(results) : undefined;
+        const costUsd = summary ? estimateBatchCost(job.model, summary.usage, BATCH_API_PRICE_FACTOR) : null;
+        const output = {
+          batch_id: job.id,
+          status: batch.status,
+          model: job.model,
+          request_counts: batch.request_counts ?? { total: job.items.length, completed: 0, failed: 0 },
+          results,
+          summary: summary ? { ...summary, cost_usd: costUsd } : undefined,
+          errors: batch.errors?.data?.map(error => error.message ?? error.code ?? "unknown error"),
+        };
+
+        let text: string;
+        if (json) {
+          text = JSON.stringify(output, null, 2);
+        } else if (results && summary) {
+          text = formatBatchResults(`Batch ${job.id}: ${batch.status}`, results, summary, costUsd);
+        } else {
+          const counts = output.request_counts;
+          text = `# Batch ${job.id}: ${batch.status}\n\n` +
+            `${counts.completed} of ${counts.total} request(s) completed, ${counts.failed} failed. ` +
+            (params.cancel ? "Cancellation requested." : "Call again later to collect the results.");
+        }
+        if (!json && output.errors && output.errors.length > 0) {
+          text += `\n\n**Errors:**\n${output.errors.map(error => `- ${error}`).join("\n")}`;
+        }
+        return { content: [{ type: "text", text }], structuredContent: output };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tools: gpt_job_* (background jobs)
+// =============================================================================
+
+const jobStore = new JobStore(JOBS_FILE, JOB_HISTORY_MAX);
+
+// Abort controllers of the local jobs running in this process
+const localJobs = new Map<string, AbortController>();
+
+const JobStatusInputSchema = z.object({
+  job_id: z.string()
+    .optional()
+    .describe("Job id from a background call (omit to list jobs)"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+const JobIdInputSchema = z.object({
+  job_id: z.string()
+    .min(1, "Job id is required")
+    .describe("Job id from a background call"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+/**
+ * Whether a provider runs background calls upstream (Responses API
+ * background mode). OpenAI-compatible servers get a local runner instead.
+ */
+function usesBackgroundMode(provider: Provider): boolean {
+  return provider.usesResponses && provider.profile.type !== "compatible";
+}
+
+/**
+ * Start a call as a background job and return the job at once.
+ * The capability and budget checks run now, so a request that cannot run
+ * fails here instead of in the job.
+ */
+async function startBackgroundJob(
+  requestOptions: OpenAI.Responses.ResponseCreateParams,
+  call: CallContext,
+  context: JobResultContext
+): Promise<BackgroundJob> {
+  if (call.stream) {
+    throw new JobError("stream cannot be combined with background; fetch the answer with gpt_job_result instead.");
+  }
+  const started = Date.now();
+  let request: OpenAI.Responses.ResponseCreateParams | undefined;
+  try {
+    request = redactRequest(requestOptions, call);
+    await checkModelCapabilities(request, call);
+    checkCallBudget(request, call.provider);
+  } catch (error) {
+    auditCall(call, requestOptions, request, started, { error });
+    throw error;
+  }
+
+  const fields = {
+    tool: call.tool,
+    provider: call.provider.name,
+    model: request.model ?? call.provider.activeModel,
+    context,
+  };
+
+  // Local jobs run through createResponse, which writes their audit record
+  if (!usesBackgroundMode(call.provider)) {
+    const job = await jobStore.create({ ...fields, runner: "local", status: "in_progress" });
+    runLocalJob(job.id, request, call);
+    return job;
+  }
+
+  const upstreamRequest = { ...request, background: true, store: true, stream: false as const };
+  let response: OpenAI.Responses.Response;
+  try {
+    response = await callOpenAI(
+      call.provider,
+      () => call.provider.client.responses.create(
+        upstreamRequest,
+        { signal: call.extra.signal, timeout: RETRY_POLICY.timeoutMs }
+      ),
+      call.extra.signal
+    );
+  } catch (error) {
+    auditCall(call, requestOptions, upstreamRequest, started, { error });
+    throw error;
+  }
+  auditCall(call, requestOptions, upstreamRequest, started, { response });
+  const job = await jobStore.create({ ...fields, runner: "responses", response_id: response.id, status: response.status ?? "queued" });
+  logger.info("jobs", `Started background job ${job.id} (response ${response.id})`, {
+    request_id: call.extra.requestId,
+    tool: call.tool,
+    provider: call.provider.name,
+    model: fields.model,
+  }, { session: call.extra.sessionId });
+  return settleResponsesJob(job, response);
+}
+
+/**
+ * Run a local job in this process. The job is updated when the call
+ * finishes, fails or is cancelled; createResponse records the usage.
+ */
+function runLocalJob(id: string, requestOptions: OpenAI.Responses.ResponseCreateParams, call: CallContext): void {
+  const controller = new AbortController();
+  localJobs.set(id, controller);
+  const jobCall: CallContext = { ...call, extra: { ...call.extra, signal: controller.signal } };
+
+  const run = async (): Promise<void> => {
+    try {
+      const response = await createResponse(requestOptions, jobCall);
+      // Cancelled jobs were already updated by gpt_job_cancel
+      if (!controller.signal.aborted) {
+        await jobStore.update(id, { status: response.status ?? "completed", response, usage_recorded: true });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const details = describeError(error, handleOpenAIError(error));
+        await jobStore.update(id, { status: "failed", error: { category: details.category, message: details.message } });
+      }
+    }
+  };
+
+  run()
+    .catch(error => {
+      logger.warning("jobs", `Could not update job ${id}: ${error instanceof Error ? error.message : String(error)}`);
+    })
+    .finally(() => localJobs.delete(id));
+}
+
+/**
+ * Record the latest state of a Responses API background job. Once it has
+ * finished, the response is kept with the job and its usage is recorded.
+ */
+async function settleResponsesJob(job: BackgroundJob, response: OpenAI.Responses.Response): Promise<BackgroundJob> {
+  const status: JobStatus = response.status ?? job.status;
+  if (!isJobFinished(status)) {
+    return status === job.status ? job : jobStore.update(job.id, { status });
+  }
+  if (!job.usage_recorded) {
+    await recordResponseUsage(job.tool, response);
+    job.context.warnings.push(...completionWarnings(response));
+  }
+  return jobStore.update(job.id, {
+    status,
+    response,
+    usage_recorded: true,
+    error: status === "failed"
+      ? { category: "server", message: response.error?.message ?? "Response failed" }
+      : status === "cancelled" ? { category: "cancelled", message: "Cancelled before it finished" } : undefined,
+  });
+}
+
+/** Fetch the current state of an unfinished Responses API job */
+async function refreshJob(job: BackgroundJob, signal: AbortSignal): Promise<BackgroundJob> {
+  if (job.runner !== "responses" || !job.response_id || isJobFinished(job.status)) {
+    return job;
+  }
+  const provider = providers.get(job.provider);
+  const responseId = job.response_id;
+  const response = await callOpenAI(
+    provider,
+    () => provider.client.responses.retrieve(responseId, {}, { signal, timeout: RETRY_POLICY.timeoutMs }),
+    signal
+  );
+  return settleResponsesJob(job, response);
+}
+
+/** Status fields of a job, as reported by the job tools */
+function describeJob(job: BackgroundJob) {
+  return {
+    job_id: job.id,
+    status: job.status,
+    tool: job.tool,
+    model: job.model,
+    provider: job.provider,
+    runner: job.runner,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+    usage: job.response ? extractUsage(job.response) : undefined,
+    error: job.error,
+  };
+}
+
+/** Markdown rendering of a job's status */
+function formatJobStatus(job: BackgroundJob, note: string): string {
+  let text = `# Job ${job.id}: ${job.status}\n\n`;
+  text += `| Tool | Model | Runner | Started | Updated |\n`;
+  text += `|------|-------|--------|---------|---------|\n`;
+  text += `| ${job.tool} | \`${job.model}\` | ${job.runner} | ${job.created_at} | ${job.updated_at} |\n\n`;
+  if (job.error) {
+    text += `${job.error.message} _(${job.error.category})_\n\n`;
+  }
+  return text + note;
+}
+
+/** Note on what to do next with a job */
+function jobNote(job: BackgroundJob): string {
+  if (!isJobFinished(job.status)) {
+    return "Still running. Poll with gpt_job_status; gpt_job_result returns the answer once it has finished.";
+  }
+  return job.response ? "Finished. Fetch the answer with gpt_job_result." : "Finished without an answer.";
+}
+
+/** Tool result of a call started with background: true */
+function formatJobStarted(job: BackgroundJob, format: ResponseFormat | undefined) {
+  const output = describeJob(job);
+  const text = (format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON
+    ? JSON.stringify(output, null, 2)
+    : formatJobStatus(job, `Started in the background. ${jobNote(job)}`);
+  return { content: [{ type: "text" as const, text }], structuredContent: output };
+}
+
+/** Register gpt_job_status on a server instance */
+function registerJobStatusTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_job_status",
+    {
+      title: "Get GPT Background Job Status",
+      description: `Check a background job started with background: true, or list jobs.
+
+Args:
+  - job_id (string, optional): Job id returned by gpt_generate or gpt_messages.
+    Omit to list the jobs of this server (newest first)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "job_id": string,
+    "status": string,         // queued, in_progress, completed, incomplete, failed, cancelled
+    "tool": string,           // gpt_generate or gpt_messages
+    "model": string,
+    "provider": string,
+    "runner": string,         // responses (Responses API background mode) or local
+    "created_at": string,
+    "updated_at": string,
+    "usage": { ... },         // Token usage, once finished
+    "error": { "category": string, "message": string }  // Failed or cancelled jobs
+  }
+  Without job_id: { "jobs": [ ... ] } with the same fields per job.
+
+Jobs and their results are kept across server restarts. Local jobs that were
+running when the server stopped are reported as failed.`,
+      inputSchema: JobStatusInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const json = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON;
+
+        if (!params.job_id) {
+          const jobs = jobStore.list().map(describeJob);
+          let text = `# Background Jobs\n\n`;
+          if (jobs.length === 0) {
+            text += `_No background jobs. Start one with gpt_generate or gpt_messages and background: true._\n`;
+          } else {
+            text += `| Job | Status | Tool | Model | Started |\n`;
+            text += `|-----|--------|------|-------|---------|\n`;
+            for (const job of jobs) {
+              text += `| \`${job.job_id}\` | ${job.status} | ${job.tool} | \`${job.model}\` | ${job.created_at} |\n`;
+            }
+          }
+          return {
+            content: [{ type: "text", text: json ? JSON.stringify({ jobs }, null, 2) : text }],
+            structuredContent: { jobs },
+          };
+        }
+
+        const job = await refreshJob(jobStore.get(params.job_id), extra.signal);
+        const output = describeJob(job);
+        return {
+          content: [{ type: "text", text: json ? JSON.stringify(output, null, 2) : formatJobStatus(job, jobNote(job)) }],
+          structuredContent: output,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+/** Register gpt_job_result on a server instance */
+function registerJobResultTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_job_result",
+    {
+      title: "Get GPT Background Job Result",
+      description: `Fetch the answer of a background job started with background: true.
+
+Args:
+  - job_id (string, required): Job id returned by gpt_generate or gpt_messages
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Once the job has finished: the same result as the tool that started it
+  (text, model, usage, paging fields, ...), plus "job_id" and "status".
+  Long answers are paged; read the rest with gpt_read_more.
+  While the job is running: { "job_id", "status", ... } as in gpt_job_status.
+  Failed or cancelled jobs return an error result with the job's error.`,
+      inputSchema: JobIdInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        const job = await refreshJob(jobStore.get(params.job_id), extra.signal);
+        const json = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON;
+
+        if (!job.response || job.status === "failed" || job.status === "cancelled") {
+          const output = describeJob(job);
+          return {
+            content: [{ type: "text", text: json ? JSON.stringify(output, null, 2) : formatJobStatus(job, jobNote(job)) }],
+            structuredContent: output,
+            isError: isJobFinished(job.status),
+          };
+        }
+
+        const result = job.tool === "gpt_messages"
+          ? formatMessagesResult(job.response, job.context, params.response_format)
+          : formatGenerateResult(job.response, job.context, params.response_format);
+        Object.assign(result.structuredContent, { job_id: job.id, status: job.status });
+        return result;
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+/** Register gpt_job_cancel on a server instance */
+function registerJobCancelTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_job_cancel",
+    {
+      title: "Cancel GPT Background Job",
+      description: `Cancel a background job started with background: true.
+
+Args:
+  - job_id (string, required): Job id returned by gpt_generate or gpt_messages
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The job status as in gpt_job_status. Jobs that have already finished are
+  left unchanged. Tokens used before the cancellation are still billed.`,
+      inputSchema: JobIdInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      try {
+        let job = await refreshJob(jobStore.get(params.job_id), extra.signal);
+        let note: string;
+
+        if (isJobFinished(job.status)) {
+          note = "The job had already finished; nothing to cancel.";
+        } else if (job.runner === "local") {
+          const controller = localJobs.get(job.id);
+          controller?.abort();
+          job = await jobStore.update(job.id, { status: "cancelled", error: { category: "cancelled", message: "Cancelled by gpt_job_cancel" } });
+          note = "Cancelled.";
+        } else {
+          const provider = providers.get(job.provider);
+          const responseId = job.response_id!;
+          await callOpenAI(
+            provider,
+            () => provider.client.responses.cancel(responseId, { signal: extra.signal, timeout: RETRY_POLICY.timeoutMs }),
+            extra.signal
+          );
+          job = await refreshJob(job, extra.signal);
+          note = isJobFinished(job.status) ? "Cancelled." : "Cancellation requested.";
+        }
+
+        const output = describeJob(job);
+        const json = (params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON;
+        return {
+          content: [{ type: "text", text: json ? JSON.stringify(output, null, 2) : formatJobStatus(job, note) }],
+          structuredContent: output,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tool: gpt_read_more
+// =============================================================================
+
+const ReadMoreInputSchema = z.object({
+  cursor: z.string()
+    .min(1, "Cursor is required")
+    .describe("The next_cursor value from a previous result"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
+
+/** Register gpt_read_more on a server instance */
+function registerReadMoreTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_read_more",
+    {
+      title: "Read More of a GPT Response",
+      description: `Fetch the next page of a long GPT answer.
 
-Note: Each call may produce different results due to model randomness.`,
-    inputSchema: GenerateInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: false, // AI generation is NOT idempotent
-      openWorldHint: true,
-    },
-  },
-  async (params) => {
-    try {
-      const model = params.model ?? ACTIVE_MODEL;
-      const reasoningEffort = (params.reasoning_effort ?? DEFAULT_REASONING_EFFORT) as ReasoningEffort;
+Answers longer than the page size (GPT_PAGE_SIZE or the config file's
+defaults.page_size, default 25000 characters) are split into pages on paragraph or code-block boundaries. The generation
+tools return the first page together with a next_cursor; pass it here to get
+the following page. Full answers are kept for GPT_RESPONSE_TTL_MS (default
+1 hour). No API call is made.
 
-      // Build Responses API request
-      const requestOptions: OpenAI.Responses.ResponseCreateParams = {
-        model,
-        input: params.input,
-      };
+Args:
+  - cursor (string, required): next_cursor from a previous result
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
-      // Add instructions if provided
-      if (params.instructions) {
-        requestOptions.instructions = params.instructions;
-      }
+Returns:
+  For JSON format: Structured data with schema:
+  {
+    "text": string,             // Text of this page
+    "response_handle": string,  // Handle of the stored answer
+    "page": number,             // Page number (1-based)
+    "total_pages": number,
+    "total_characters": number, // Length of the full answer
+    "next_cursor": string|null, // Cursor of the following page, null on the last
+    "model": string,            // Model that produced the answer
+    "tool": string              // Tool that produced the answer
+  }`,
+      inputSchema: ReadMoreInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      try {
+        const position = decodeCursor(params.cursor);
+        if (!position) {
+          return {
+            content: [{ type: "text", text: "Error: Invalid cursor. Pass the next_cursor value from a previous result unchanged." }],
+            isError: true,
+          };
+        }
 
-      // Add reasoning configuration (GPT-5.x models)
-      if (reasoningEffort !== "none") {
-        requestOptions.reasoning = {
-          effort: reasoningEffort as "low" | "medium" | "high",
+        const entry = await responseStore.get(position.id);
+        const page = entry && await responseStore.page(position.id, position.pageIndex);
+        if (!entry || !page) {
+          return {
+            content: [{ type: "text", text: `Error: Response "${position.id}" is no longer available (responses are kept for ${Math.round(RESPONSE_TTL_MS / 60_000)} minutes). Run the request again.` }],
+            isError: true,
+          };
+        }
+
+        const structuredOutput = { ...page, model: entry.model, tool: entry.tool };
+        const text = params.response_format === ResponseFormat.JSON
+          ? JSON.stringify(structuredOutput, null, 2)
+          : page.text + formatPageFooter(page);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: structuredOutput,
         };
+      } catch (error) {
+        return errorResult(error);
       }
+    }
+  );
+}
 
-      // Optional parameters
-      if (params.max_output_tokens !== undefined) {
-        requestOptions.max_output_tokens = params.max_output_tokens;
-      }
-      if (params.temperature !== undefined) {
-        requestOptions.temperature = params.temperature;
-      }
-      if (params.top_p !== undefined) {
-        requestOptions.top_p = params.top_p;
-      }
+// =============================================================================
+// Tool: gpt_usage
+// =============================================================================
 
-      // Call Responses API
-      const response = await openai.responses.create(requestOptions);
+const USAGE_PERIODS = ["today", "yesterday", "7d", "30d", "month", "all"] as const;
 
-      const rawText = extractResponseText(response);
+const UsageInputSchema = z.object({
+  period: z.enum(USAGE_PERIODS)
+    .default("today")
+    .describe("Time window (UTC days): today, yesterday, last 7/30 days, this month or all"),
+  since: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .optional()
+    .describe("Start date (YYYY-MM-DD, inclusive) - overrides period"),
+  until: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .optional()
+    .describe("End date (YYYY-MM-DD, inclusive) - overrides period"),
+  group_by: z.enum(["model", "tool", "day"])
+    .default("model")
+    .describe("How to break down the totals"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+}).strict();
 
-      // Prepare structured output
-      const structuredOutput = {
-        text: rawText,
-        model: response.model,
-        usage: response.usage ? {
-          input_tokens: response.usage.input_tokens,
-          output_tokens: response.usage.output_tokens,
-          total_tokens: response.usage.total_tokens,
-        } : undefined,
-        truncated: false,
-      };
+/** Resolve a usage period to an inclusive UTC date range */
+function periodRange(period: string): { since?: string; until?: string } {
+  const today = utcDate();
+  const daysAgo = (days: number): string => utcDate(new Date(Date.now() - days * 86_400_000));
+  switch (period) {
+    case "yesterday":
+      return { since: daysAgo(1), until: daysAgo(1) };
+    case "7d":
+      return { since: daysAgo(6), until: today };
+    case "30d":
+      return { since: daysAgo(29), until: today };
+    case "month":
+      return { since: `${today.slice(0, 7)}-01`, until: today };
+    case "all":
+      return {};
+    default:
+      return { since: today, until: today };
+  }
+}
 
-      // Format text based on response_format (defaults to markdown)
-      const format = params.response_format ?? ResponseFormat.MARKDOWN;
-      let textContent: string;
-      if (format === ResponseFormat.JSON) {
-        textContent = JSON.stringify(structuredOutput, null, 2);
+/** Usage totals of a date range, grouped by model, tool or day, with the budget state */
+function buildUsageReport(range: { since?: string; until?: string }, groupBy: "model" | "tool" | "day") {
+  const entries = usageLedger.query(range.since, range.until);
+
+  // Group entries by the requested dimension
+  const grouped = new Map<string, LedgerEntry[]>();
+  for (const entry of entries) {
+    const key = groupBy === "day" ? entry.date : entry[groupBy];
+    grouped.set(key, [...(grouped.get(key) ?? []), entry]);
+  }
+  const groups = [...grouped.entries()]
+    .map(([key, group]) => ({ key, ...UsageLedger.total(group) }))
+    .sort((a, b) => groupBy === "day" ? a.key.localeCompare(b.key) : b.cost_usd - a.cost_usd);
+
+  return {
+    since: range.since ?? null,
+    until: range.until ?? null,
+    totals: UsageLedger.total(entries),
+    groups,
+    budget: {
+      daily_usd: BUDGET_LIMITS.daily ?? null,
+      monthly_usd: BUDGET_LIMITS.monthly ?? null,
+      per_call_usd: BUDGET_LIMITS.per_call ?? null,
+      spent_today_usd: usageLedger.spentToday(),
+      spent_month_usd: usageLedger.spentThisMonth(),
+    },
+  };
+}
+
+/** Format a USD amount for reports */
+function formatCost(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+/** Register gpt_usage on a server instance */
+function registerUsageTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_usage",
+    {
+      title: "GPT Usage and Cost",
+      description: `Report token usage and estimated cost recorded by this server.
+
+Every model call is recorded in a local ledger per UTC day, model and tool,
+including cached input and reasoning tokens. Costs are estimates based on the
+configured price table (GPT_PRICES / GPT_PRICES_FILE).
+
+Args:
+  - period ('today' | 'yesterday' | '7d' | '30d' | 'month' | 'all'): Time window (default: 'today')
+  - since / until (string, optional): Explicit YYYY-MM-DD range, overrides period
+  - group_by ('model' | 'tool' | 'day'): Breakdown (default: 'model')
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  {
+    "since": string | null, "until": string | null,
+    "totals": {
+      "requests", "input_tokens", "cached_input_tokens", "output_tokens",
+      "reasoning_tokens", "total_tokens", "cost_usd", "unpriced_requests"
+    },
+    "groups": [{ "key": string, ...same fields as totals }],
+    "budget": {
+      "daily_usd", "monthly_usd", "per_call_usd",   // null when not set
+      "spent_today_usd", "spent_month_usd"
+    }
+  }`,
+      inputSchema: UsageInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      const range = params.since || params.until
+        ? { since: params.since, until: params.until }
+        : periodRange(params.period ?? "today");
+      const groupBy = params.group_by ?? "model";
+      const result = buildUsageReport(range, groupBy);
+      const { groups } = result;
+
+      let text: string;
+      if ((params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON) {
+        text = JSON.stringify(result, null, 2);
       } else {
-        // Markdown format
-        textContent = rawText;
-        if (response.usage) {
-          textContent += `\n\n---\n**Usage:** ${response.usage.input_tokens} input + ${response.usage.output_tokens} output = ${response.usage.total_tokens} total tokens`;
+        const window = result.since || result.until
+          ? `${result.since ?? "…"} → ${result.until ?? "…"}`
+          : "all time";
+        text = `# GPT Usage (${window}, UTC)\n\n`;
+        if (groups.length === 0) {
+          text += "_No usage recorded in this period._\n";
+        } else {
+          text += `| ${groupBy} | Requests | Input (cached) | Output (reasoning) | Total | Est. cost |\n`;
+          text += `|---|---|---|---|---|---|\n`;
+          for (const g of [...groups, { key: "**Total**", ...result.totals }]) {
+            text += `| ${g.key} | ${g.requests} | ${g.input_tokens} (${g.cached_input_tokens}) | ` +
+              `${g.output_tokens} (${g.reasoning_tokens}) | ${g.total_tokens} | ${formatCost(g.cost_usd)} |\n`;
+          }
+          if (result.totals.unpriced_requests > 0) {
+            text += `\n⚠️ ${result.totals.unpriced_requests} request(s) used models without a known price and are not included in the cost.\n`;
+          }
         }
-      }
 
-      // Apply truncation if needed
-      const { text: finalText, truncated } = truncateResponse(textContent);
-      structuredOutput.truncated = truncated;
+        text += `\n**Spend:** ${formatCost(result.budget.spent_today_usd)} today` +
+          (result.budget.daily_usd !== null ? ` of ${formatCost(result.budget.daily_usd)}` : "") +
+          `, ${formatCost(result.budget.spent_month_usd)} this month` +
+          (result.budget.monthly_usd !== null ? ` of ${formatCost(result.budget.monthly_usd)}` : "") +
+          (result.budget.per_call_usd !== null ? ` · per-call cap ${formatCost(result.budget.per_call_usd)}` : "");
+      }
 
       return {
-        content: [{ type: "text", text: finalText }],
-        structuredContent: structuredOutput,
-      };
-    } catch (error) {
-      return {
-        content: [{ type: "text", text: handleOpenAIError(error) }],
-        isError: true,
+        content: [{ type: "text", text }],
+        structuredContent: result,
       };
     }
-  }
-);
+  );
+}
 
 // =============================================================================
-// Tool: gpt_messages
+// Tool: gpt_models
 // =============================================================================
 
-const MessageSchema = z.object({
-  role: z.enum(["user", "assistant"])
-    .describe("Message role: 'user' for human, 'assistant' for AI"),
-  content: z.string()
-    .min(1, "Message content is required")
-    .describe("The message content"),
-}).strict();
-
-const MessagesInputSchema = z.object({
-  messages: z.array(MessageSchema)
-    .min(1, "At least one message is required")
-    .describe("Array of conversation messages"),
-  model: z.string()
-    .optional()
-    .describe("GPT model variant to use (defaults to GPT_MODEL env or gpt-5.4)"),
-  instructions: z.string()
-    .optional()
-    .describe("System instructions for the model"),
-  reasoning_effort: z.enum(["none", "low", "medium", "high"])
-    .optional()
-    .describe("Reasoning effort level (GPT-5.x: none/low/medium/high)"),
-  max_output_tokens: z.number()
-    .int()
-    .min(1)
-    .optional()
-    .describe("Maximum output tokens to generate"),
-  temperature: z.number()
-    .min(0)
-    .max(2)
+const ModelsInputSchema = z.object({
+  provider: z.string()
     .optional()
-    .describe("Temperature for randomness (0-2)"),
-  top_p: z.number()
-    .min(0)
-    .max(1)
+    .describe("Provider profile whose models to list (defaults to the default provider)"),
+  filter: z.string()
     .optional()
-    .describe("Top-p sampling parameter"),
+    .describe("Only list models whose id contains this text (case-insensitive)"),
+  refresh: z.boolean()
+    .default(false)
+    .describe("Fetch the model list again instead of using the cached one"),
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
 }).strict();
 
-server.registerTool(
-  "gpt_messages",
-  {
-    title: "GPT Multi-turn Conversation",
-    description: `Generate text using GPT with structured multi-turn conversation messages.
+/** Markdown table cells for a model's capabilities */
+function formatCapabilities(capabilities: ModelCapabilities | null): string {
+  if (!capabilities) {
+    return "? | ? | ? | ? | ? | ?";
+  }
+  const reasoning = capabilities.reasoning ? `✓ ${capabilities.reasoning_efforts.join("/")}` : "-";
+  return [
+    reasoning,
+    capabilities.sampling ? "✓" : "-",
+    capabilities.context_window.toLocaleString(),
+    capabilities.max_output_tokens.toLocaleString(),
+    capabilities.vision ? "✓" : "-",
+    capabilities.tools ? "✓" : "-",
+  ].join(" | ");
+}
 
-This tool enables multi-turn conversations by accepting an array of messages
-with alternating user/assistant roles. Uses the Responses API for contextual
-conversations where previous exchanges inform the response.
+/** Register gpt_models on a server instance */
+function registerModelsTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_models",
+    {
+      title: "List GPT Models",
+      description: `List the models of a provider with their capabilities.
+
+The model list comes from the provider's models endpoint and is cached for
+GPT_MODELS_CACHE_TTL_MS (default 1 hour); pass refresh: true to fetch it
+again. Capabilities come from the server's local table (extend it with
+GPT_MODEL_CAPABILITIES / GPT_MODEL_CAPABILITIES_FILE); models missing from
+the table have capabilities null.
+
+Every generation call is checked against the same list and table: unknown
+models are rejected, and parameters a model does not accept (e.g.
+temperature on a reasoning model) are dropped with a warning or rejected,
+depending on GPT_CAPABILITY_CHECK (drop, reject or off).
 
 Args:
-  - messages (array, required): Conversation history
-    - role: "user" (human) or "assistant" (AI response)
-    - content: The message text
-  - model (string, optional): Model to use (defaults to GPT_MODEL env or gpt-5.4)
-  - instructions (string, optional): System instructions for the model
-  - reasoning_effort (string, optional): Reasoning level - none/low/medium/high
-  - max_output_tokens (number, optional): Maximum output length
-  - temperature (number, optional): Randomness 0-2
-  - top_p (number, optional): Top-p sampling parameter
+  - provider (string, optional): Provider profile (default: the default provider)
+  - filter (string, optional): Only models whose id contains this text
+  - refresh (boolean, optional): Bypass the cache (default: false)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
   For JSON format: Structured data with schema:
   {
-    "text": string,           // AI response text
-    "model": string,          // Model used
-    "message_count": number,  // Number of messages in conversation
-    "usage": { ... },         // Token usage
-    "truncated": boolean
-  }
-
-Example messages:
-  [
-    { "role": "user", "content": "What is the capital of France?" },
-    { "role": "assistant", "content": "The capital of France is Paris." },
-    { "role": "user", "content": "What is its population?" }
-  ]
-
-Note: Messages should alternate between user and assistant roles.`,
-    inputSchema: MessagesInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-  },
-  async (params) => {
-    try {
-      const model = params.model ?? ACTIVE_MODEL;
-      const reasoningEffort = (params.reasoning_effort ?? DEFAULT_REASONING_EFFORT) as ReasoningEffort;
-
-      // Build input items for Responses API
-      // Convert messages to ResponseInputItem format
-      const inputItems: OpenAI.Responses.ResponseInputItem[] = params.messages.map(msg => ({
-        type: "message" as const,
-        role: msg.role,
-        content: msg.content,
-      }));
-
-      // Build Responses API request
-      const requestOptions: OpenAI.Responses.ResponseCreateParams = {
-        model,
-        input: inputItems,
-      };
+    "provider": string,
+    "listed": boolean,          // false for Azure (deployments are not listed)
+    "fetched_at": string|null,  // When the list was fetched
+    "capability_check": string, // drop | reject | off
+    "models": [{
+      "id": string,
+      "active": boolean,        // Used when a call names no model
+      "capabilities": {
+        "reasoning": boolean, "reasoning_efforts": string[],
+        "sampling": boolean,    // temperature/top_p accepted
+        "context_window": number, "max_output_tokens": number,
+        "vision": boolean, "tools": boolean
+      } | null
+    }]
+  }`,
+      inputSchema: ModelsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params) => {
+      try {
+        const provider = providers.get(params.provider);
+        provider.assertConfigured();
 
-      // Add instructions if provided
-      if (params.instructions) {
-        requestOptions.instructions = params.instructions;
-      }
+        // Azure deployments are not listed by the API; report the active one
+        const listed = provider.profile.type !== "azure";
+        const listing = listed ? await listModels(provider, params.refresh ?? false) : undefined;
+        const filter = params.filter?.toLowerCase();
+        const ids = (listing?.ids ?? [provider.activeModel])
+          .filter(id => !filter || id.toLowerCase().includes(filter))
+          .sort();
 
-      // Add reasoning configuration (GPT-5.x models)
-      if (reasoningEffort !== "none") {
-        requestOptions.reasoning = {
-          effort: reasoningEffort as "low" | "medium" | "high",
+        const result = {
+          provider: provider.name,
+          listed,
+          fetched_at: listing?.fetched_at ?? null,
+          capability_check: CAPABILITY_MODE,
+          models: ids.map(id => ({
+            id,
+            active: id === provider.activeModel,
+            capabilities: findCapabilities(modelCapabilities, id) ?? null,
+          })),
         };
-      }
-
-      // Optional parameters
-      if (params.max_output_tokens !== undefined) {
-        requestOptions.max_output_tokens = params.max_output_tokens;
-      }
-      if (params.temperature !== undefined) {
-        requestOptions.temperature = params.temperature;
-      }
-      if (params.top_p !== undefined) {
-        requestOptions.top_p = params.top_p;
-      }
-
-      // Call Responses API
-      const response = await openai.responses.create(requestOptions);
-
-      const rawText = extractResponseText(response);
 
-      // Prepare structured output
-      const structuredOutput = {
-        text: rawText,
-        model: response.model,
-        message_count: params.messages.length,
-        usage: response.usage ? {
-          input_tokens: response.usage.input_tokens,
-          output_tokens: response.usage.output_tokens,
-          total_tokens: response.usage.total_tokens,
-        } : undefined,
-        truncated: false,
-      };
-
-      // Format text based on response_format (defaults to markdown)
-      const format = params.response_format ?? ResponseFormat.MARKDOWN;
-      let textContent: string;
-      if (format === ResponseFormat.JSON) {
-        textContent = JSON.stringify(structuredOutput, null, 2);
-      } else {
-        // Markdown format
-        textContent = rawText;
-        if (response.usage) {
-          textContent += `\n\n---\n**Usage:** ${response.usage.input_tokens} input + ${response.usage.output_tokens} output = ${response.usage.total_tokens} total tokens`;
+        let text: string;
+        if ((params.response_format ?? ResponseFormat.MARKDOWN) === ResponseFormat.JSON) {
+          text = JSON.stringify(result, null, 2);
+        } else {
+          text = `# Models of \`${result.provider}\`\n\n`;
+          if (result.models.length === 0) {
+            text += "_No models match._\n";
+          } else {
+            text += `| Model | Reasoning | temperature/top_p | Context | Max output | Vision | Tools |\n`;
+            text += `|---|---|---|---|---|---|---|\n`;
+            for (const model of result.models) {
+              text += `| \`${model.id}\`${model.active ? " (active)" : ""} | ${formatCapabilities(model.capabilities)} |\n`;
+            }
+          }
+          text += listed
+            ? `\n_Listed ${result.fetched_at}. "?" = not in the capability table (not checked)._`
+            : `\n_Azure deployments are not listed; only the active deployment is shown._`;
+          text += `\n_Capability check: ${result.capability_check}._`;
         }
-      }
-
-      // Apply truncation if needed
-      const { text: finalText, truncated } = truncateResponse(textContent);
-      structuredOutput.truncated = truncated;
 
-      return {
-        content: [{ type: "text", text: finalText }],
-        structuredContent: structuredOutput,
-      };
-    } catch (error) {
-      return {
-        content: [{ type: "text", text: handleOpenAIError(error) }],
-        isError: true,
-      };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
     }
-  }
-);
+  );
+}
 
 // =============================================================================
 // Tool: gpt_status
@@ -563,19 +5755,68 @@ const StatusOutputSchema = z.object({
   fallback_model: z.string().describe("Default fallback model"),
   fallback_used: z.boolean().describe("Whether fallback was triggered"),
   default_reasoning: z.string().describe("Default reasoning_effort level"),
-  character_limit: z.number().describe("Maximum response character limit"),
+  page_size: z.number().describe("Maximum characters per response page"),
+  response_ttl_ms: z.number().describe("How long full responses are kept for gpt_read_more"),
+  stored_responses: z.number().describe("Responses currently held in memory"),
   server_version: z.string().describe("Server version"),
   api_type: z.string().describe("OpenAI API type used"),
-  api_key_configured: z.boolean().describe("Whether OPENAI_API_KEY is set"),
+  api_key_configured: z.boolean().describe("Whether the default provider's API key is set"),
+  circuit_breaker: z.enum(["closed", "open", "half-open"]).describe("Circuit breaker state for OpenAI calls"),
+  request_timeout_ms: z.number().describe("Per-request timeout for OpenAI calls"),
+  max_retries: z.number().describe("Retries after a failed OpenAI call"),
+  spent_today_usd: z.number().describe("Estimated spend today (UTC)"),
+  spent_month_usd: z.number().describe("Estimated spend this month (UTC)"),
+  budget_daily_usd: z.number().nullable().describe("Daily budget cap"),
+  budget_monthly_usd: z.number().nullable().describe("Monthly budget cap"),
+  budget_per_call_usd: z.number().nullable().describe("Per-call budget cap"),
+  default_provider: z.string().describe("Provider used when a call names none"),
+  redaction_mode: z.enum(REDACTION_MODES).describe("What happens to secrets found in outgoing requests"),
+  record_mode: z.enum(RECORD_MODES).describe("Whether upstream traffic is recorded to or replayed from fixtures"),
+  providers: z.array(z.object({
+    name: z.string(),
+    type: z.enum(["openai", "azure", "compatible"]),
+    base_url: z.string().nullable(),
+    api: z.enum(["responses", "chat", "auto"]).describe("API in use ('auto' until detected)"),
+    active_model: z.string(),
+    configured_model: z.string().nullable(),
+    fallback_used: z.boolean(),
+    api_key_configured: z.boolean(),
+    circuit_breaker: z.enum(["closed", "open", "half-open"]),
+  })).describe("All configured providers"),
+  config: z.object({
+    path: z.string().nullable().describe("Config file in use (null = none found)"),
+    loaded_at: z.string().nullable(),
+    error: z.string().nullable().describe("Error of the last reload; the previous config stays active"),
+    presets: z.array(z.string()).describe("Preset names"),
+    defaults: z.record(z.unknown()).describe("Defaults set by the config file"),
+  }).describe("Config file state"),
+  log: z.object({
+    level: z.enum(LOG_LEVELS).describe("Minimum level written to stderr and the log file"),
+    file: z.string().nullable().describe("JSONL log file (null = stderr only)"),
+    errors_last_hour: z.number().describe("Errors logged in the last hour"),
+    errors_by_category: z.record(z.number()).describe("Errors of the last hour by category"),
+  }).describe("Logging state"),
+  transport: z.enum(["stdio", "http"]).describe("Transport the server runs on"),
+  http_url: z.string().nullable().describe("MCP endpoint (HTTP transport only)"),
+  http_sessions: z.number().nullable().describe("Open client sessions (HTTP transport only)"),
 });
 
 type StatusOutput = z.infer<typeof StatusOutputSchema>;
 
-server.registerTool(
-  "gpt_status",
-  {
-    title: "GPT Server Status",
-    description: `Check GPT MCP server status and configuration.
+/** Human-readable name of the API a provider uses */
+function formatApiType(api: ProviderApi): string {
+  if (api === "chat") return "Chat Completions (v1/chat/completions)";
+  if (api === "auto") return "Responses API, Chat Completions fallback";
+  return "Responses API (v1/responses)";
+}
+
+/** Register gpt_status on a server instance */
+function registerStatusTool(server: McpServer): void {
+  server.registerTool(
+    "gpt_status",
+    {
+      title: "GPT Server Status",
+      description: `Check GPT MCP server status and configuration.
 
 Returns information about the server's current state, including which model
 is active and whether a fallback occurred due to invalid configuration.
@@ -596,74 +5837,474 @@ Returns:
     "fallback_model": string,      // Default fallback model
     "fallback_used": boolean,      // Whether fallback was triggered
     "default_reasoning": string,   // Default reasoning_effort level
-    "character_limit": number,     // Max response size (25000)
+    "page_size": number,           // Max characters per response page (default 25000)
+    "response_ttl_ms": number,     // How long full responses are kept
+    "stored_responses": number,    // Responses held in memory
     "server_version": string,      // Server version
     "api_type": string,            // OpenAI API type (Responses API)
-    "api_key_configured": boolean  // Whether OPENAI_API_KEY is set
-  }`,
-    inputSchema: StatusInputSchema,
-    outputSchema: StatusOutputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-  },
-  async () => {
-    const status: StatusOutput = {
-      active_model: ACTIVE_MODEL,
-      configured_model: CONFIGURED_MODEL || null,
-      fallback_model: FALLBACK_MODEL,
-      fallback_used: MODEL_FALLBACK_USED,
-      default_reasoning: DEFAULT_REASONING_EFFORT,
-      character_limit: CHARACTER_LIMIT,
-      server_version: SERVER_VERSION,
-      api_type: "Responses API (v1/responses)",
-      api_key_configured: !!process.env.OPENAI_API_KEY,
-    };
+    "api_key_configured": boolean, // Whether the API key is set
+    "circuit_breaker": string,     // closed | open | half-open
+    "request_timeout_ms": number,  // Per-request timeout
+    "max_retries": number,         // Retries for retryable errors
+    "spent_today_usd": number,     // Estimated spend today (UTC)
+    "spent_month_usd": number,     // Estimated spend this month (UTC)
+    "budget_daily_usd": number|null,    // Budget caps (null = no cap)
+    "budget_monthly_usd": number|null,
+    "budget_per_call_usd": number|null,
+    "default_provider": string,    // Provider used when a call names none
+    "redaction_mode": string,      // Secrets in requests: redact | block | warn | off
+    "record_mode": string,         // Upstream traffic: record | replay | off
+    "providers": [{                // All configured providers
+      "name", "type", "base_url", "api", "active_model", "configured_model",
+      "fallback_used", "api_key_configured", "circuit_breaker"
+    }],
+    "config": {                    // gpt-mcp.config.json state
+      "path": string|null, "loaded_at": string|null, "error": string|null,
+      "presets": string[], "defaults": { ... }
+    },
+    "log": {                       // Logging state
+      "level": string, "file": string|null,
+      "errors_last_hour": number, "errors_by_category": { [category]: number }
+    }
+  }
 
-    // Generate markdown text
-    let statusText = `# GPT MCP Server Status\n\n`;
-    statusText += `| Property | Value |\n`;
-    statusText += `|----------|-------|\n`;
-    statusText += `| **Active Model** | \`${status.active_model}\` |\n`;
+  The model, API and circuit breaker fields at the top level describe the
+  default provider.`,
+      inputSchema: StatusInputSchema,
+      outputSchema: StatusOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async () => {
+      const defaultStatus = providers.default.status();
+      const configFile = serverConfig.status();
+      const errors = logger.errorCounts(LOG_ERROR_WINDOW_MS);
+      const status: StatusOutput = {
+        active_model: defaultStatus.active_model,
+        configured_model: defaultStatus.configured_model,
+        fallback_model: FALLBACK_MODEL,
+        fallback_used: defaultStatus.fallback_used,
+        default_reasoning: serverConfig.current.defaults.reasoning_effort ?? DEFAULT_REASONING_EFFORT,
+        page_size: responseStore.options.pageSize,
+        response_ttl_ms: RESPONSE_TTL_MS,
+        stored_responses: responseStore.list().length,
+        server_version: SERVER_VERSION,
+        api_type: formatApiType(defaultStatus.api),
+        api_key_configured: defaultStatus.api_key_configured,
+        circuit_breaker: defaultStatus.circuit_breaker,
+        request_timeout_ms: RETRY_POLICY.timeoutMs,
+        max_retries: RETRY_POLICY.maxRetries,
+        spent_today_usd: usageLedger.spentToday(),
+        spent_month_usd: usageLedger.spentThisMonth(),
+        budget_daily_usd: BUDGET_LIMITS.daily ?? null,
+        budget_monthly_usd: BUDGET_LIMITS.monthly ?? null,
+        budget_per_call_usd: BUDGET_LIMITS.per_call ?? null,
+        default_provider: providers.defaultName,
+        redaction_mode: redactionPolicy.mode,
+        record_mode: RECORD_MODE,
+        providers: providers.list().map(provider => provider.status()),
+        config: { ...configFile, defaults: { ...configFile.defaults } },
+        log: {
+          level: logger.level,
+          file: logger.file ?? null,
+          errors_last_hour: errors.total,
+          errors_by_category: errors.by_category,
+        },
+        transport: httpServer ? "http" : "stdio",
+        http_url: httpServer ? `${httpServer.url}/mcp` : null,
+        http_sessions: httpServer?.sessionCount ?? null,
+      };
 
-    if (status.configured_model) {
-      const configStatus = status.fallback_used ? "⚠️ not found, using fallback" : "✓";
-      statusText += `| **Configured Model** | \`${status.configured_model}\` ${configStatus} |\n`;
-    } else {
-      statusText += `| **Configured Model** | _(not set, using default)_ |\n`;
+      // Generate markdown text
+      let statusText = `# GPT MCP Server Status\n\n`;
+      statusText += `| Property | Value |\n`;
+      statusText += `|----------|-------|\n`;
+      statusText += `| **Active Model** | \`${status.active_model}\` |\n`;
+
+      if (status.configured_model) {
+        const configStatus = status.fallback_used ? "⚠️ not found, using fallback" : "✓";
+        statusText += `| **Configured Model** | \`${status.configured_model}\` ${configStatus} |\n`;
+      } else {
+        statusText += `| **Configured Model** | _(not set, using default)_ |\n`;
+      }
+
+      statusText += `| **Fallback Model** | \`${status.fallback_model}\` |\n`;
+      statusText += `| **Default Reasoning** | \`${status.default_reasoning}\` (adaptive) |\n`;
+      statusText += `| **Page Size** | ${status.page_size.toLocaleString()} characters |\n`;
+      statusText += `| **Stored Responses** | ${status.stored_responses} (kept ${Math.round(status.response_ttl_ms / 60_000)} min) |\n`;
+      statusText += `| **Server Version** | ${status.server_version} |\n`;
+      statusText += `| **API Type** | ${status.api_type} |\n`;
+      statusText += `| **API Key** | ${status.api_key_configured ? "✓ configured" : "⚠️ missing"} |\n`;
+      statusText += `| **Circuit Breaker** | ${status.circuit_breaker === "closed" ? "✓ closed" : `⚠️ ${status.circuit_breaker}`} |\n`;
+      statusText += `| **Spend Today** | ${formatCost(status.spent_today_usd)}${status.budget_daily_usd !== null ? ` of ${formatCost(status.budget_daily_usd)}` : ""} |\n`;
+      statusText += `| **Spend This Month** | ${formatCost(status.spent_month_usd)}${status.budget_monthly_usd !== null ? ` of ${formatCost(status.budget_monthly_usd)}` : ""} |\n`;
+      if (status.budget_per_call_usd !== null) {
+        statusText += `| **Per-call Cap** | ${formatCost(status.budget_per_call_usd)} |\n`;
+      }
+      statusText += `| **Timeout / Retries** | ${status.request_timeout_ms / 1000}s / ${status.max_retries} |\n`;
+      statusText += `| **Default Provider** | \`${status.default_provider}\` |\n`;
+      statusText += `| **Secret Redaction** | ${status.redaction_mode === "off" ? "⚠️ off" : status.redaction_mode} |\n`;
+      if (status.record_mode !== "off") {
+        statusText += `| **Record / Replay** | ${status.record_mode === "replay" ? "replaying fixtures (offline)" : "recording fixtures"} |\n`;
+      }
+      statusText += `| **Transport** | ${status.http_url ? `HTTP \`${status.http_url}\` (${status.http_sessions} session(s))` : "stdio"} |\n`;
+
+      statusText += `| **Config File** | ${status.config.path ? `\`${status.config.path}\`` : "_(none)_"}` +
+        `${status.config.error ? ` ⚠️ reload failed: ${status.config.error}` : ""} |\n`;
+      if (status.config.presets.length > 0) {
+        statusText += `| **Presets** | ${status.config.presets.map(name => `\`${name}\``).join(", ")} |\n`;
+      }
+      statusText += `| **Log** | ${status.log.file ? `\`${status.log.file}\`` : "_(stderr only)_"} (level ${status.log.level}) |\n`;
+      const errorCategories = Object.entries(status.log.errors_by_category).map(([category, count]) => `${category}: ${count}`);
+      statusText += `| **Errors (last hour)** | ${status.log.errors_last_hour === 0 ? "✓ none" : `⚠️ ${status.log.errors_last_hour} (${errorCategories.join(", ")})`} |\n`;
+
+      if (status.providers.length > 1) {
+        statusText += `\n## Providers\n\n`;
+        statusText += `| Provider | Type | API | Model | API Key | Circuit |\n`;
+        statusText += `|----------|------|-----|-------|---------|---------|\n`;
+        for (const p of status.providers) {
+          const model = `\`${p.active_model}\`${p.fallback_used ? " ⚠️ fallback" : ""}`;
+          statusText += `| \`${p.name}\`${p.base_url ? ` (${p.base_url})` : ""} | ${p.type} | ${p.api} | ${model} | ` +
+            `${p.api_key_configured ? "✓" : "⚠️ missing"} | ${p.circuit_breaker} |\n`;
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: statusText }],
+        structuredContent: status,
+      };
     }
+  );
+}
+
+// =============================================================================
+// MCP Resources
+// =============================================================================
 
-    statusText += `| **Fallback Model** | \`${status.fallback_model}\` |\n`;
-    statusText += `| **Default Reasoning** | \`${status.default_reasoning}\` (adaptive) |\n`;
-    statusText += `| **Character Limit** | ${status.character_limit.toLocaleString()} |\n`;
-    statusText += `| **Server Version** | ${status.server_version} |\n`;
-    statusText += `| **API Type** | ${status.api_type} |\n`;
-    statusText += `| **API Key** | ${status.api_key_configured ? "✓ configured" : "⚠️ missing"} |\n`;
+/** gpt://responses/{id} entries for the stored answers, newest first */
+function listResponseResources(): Resource[] {
+  return responseStore.list().map(entry => ({
+    uri: `gpt://responses/${entry.id}`,
+    name: entry.id,
+    title: `${entry.tool} · ${entry.model} · ${entry.created_at}`,
+    description: entry.text.slice(0, 120).replace(/\s+/g, " ") + (entry.text.length > 120 ? "…" : ""),
+    mimeType: "text/markdown",
+    size: Buffer.byteLength(entry.text, "utf8"),
+  }));
+}
 
-    return {
-      content: [{ type: "text", text: statusText }],
-      structuredContent: status,
-    };
-  }
-);
+/** gpt://conversations/{id} entries for the stored sessions, most recent first */
+function listConversationResources(): Resource[] {
+  return sessionStore.list().map(session => ({
+    uri: `gpt://conversations/${session.id}`,
+    name: session.id,
+    title: `${session.title ?? session.id} · ${session.turn_count} turn(s)`,
+    description: `Conversation with ${session.model}, updated ${session.updated_at}`,
+    mimeType: "text/markdown",
+  }));
+}
+
+/** gpt://usage/{period} entries, one per period */
+function listUsageResources(): Resource[] {
+  return USAGE_PERIODS.map(period => ({
+    uri: `gpt://usage/${period}`,
+    name: `usage-${period}`,
+    title: `GPT usage (${period})`,
+    mimeType: "application/json",
+  }));
+}
+
+const CONFIG_RESOURCE: Resource = {
+  uri: "gpt://config",
+  name: "config",
+  title: "GPT server configuration",
+  description: "Config file, defaults, presets, providers and templates",
+  mimeType: "application/json",
+};
+
+/** Read a single JSON resource */
+function jsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+/** URI template variables are string | string[]; take the single value */
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/** Register the gpt:// resources on a server instance */
+function registerResources(server: McpServer): void {
+  server.registerResource(
+    "config",
+    CONFIG_RESOURCE.uri,
+    { title: CONFIG_RESOURCE.title, description: CONFIG_RESOURCE.description, mimeType: CONFIG_RESOURCE.mimeType },
+    (uri) => jsonContents(uri, {
+      config_file: serverConfig.status(),
+      presets: serverConfig.current.presets,
+      default_provider: providers.defaultName,
+      providers: providers.list().map(provider => provider.status()),
+      templates: [...templates.values()].map(t => ({ name: t.name, description: t.description, source: t.source })),
+      capability_check: CAPABILITY_MODE,
+    })
+  );
+
+  server.registerResource(
+    "usage",
+    new ResourceTemplate("gpt://usage/{period}", {
+      list: () => ({ resources: listUsageResources() }),
+      complete: { period: () => [...USAGE_PERIODS] },
+    }),
+    {
+      title: "GPT usage",
+      description: `Token usage and estimated cost by model (periods: ${USAGE_PERIODS.join(", ")})`,
+      mimeType: "application/json",
+    },
+    (uri, variables) => {
+      const period = variable(variables.period);
+      if (!(USAGE_PERIODS as readonly string[]).includes(period)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown usage period "${period}". Periods: ${USAGE_PERIODS.join(", ")}`);
+      }
+      return jsonContents(uri, buildUsageReport(periodRange(period), "model"));
+    }
+  );
+
+  server.registerResource(
+    "response",
+    new ResourceTemplate("gpt://responses/{id}", {
+      list: () => ({ resources: listResponseResources() }),
+    }),
+    {
+      title: "GPT response",
+      description: "Full, unpaginated text of an earlier answer, followed by its metadata (kept for GPT_RESPONSE_TTL_MS)",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const id = variable(variables.id);
+      const entry = await responseStore.get(id);
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Response "${id}" not found or expired`);
+      }
+      const { text, ...metadata } = entry;
+      return {
+        contents: [
+          { uri: uri.href, mimeType: "text/markdown", text },
+          { uri: uri.href, mimeType: "application/json", text: JSON.stringify(metadata, null, 2) },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    "conversation",
+    new ResourceTemplate("gpt://conversations/{id}", {
+      list: () => ({ resources: listConversationResources() }),
+      complete: { id: value => sessionStore.list().map(session => session.id).filter(id => id.startsWith(value)) },
+    }),
+    {
+      title: "GPT conversation",
+      description: "Transcript of a server-side conversation session",
+      mimeType: "text/markdown",
+    },
+    (uri, variables) => {
+      const id = variable(variables.id);
+      const session = sessionStore.get(id);
+      if (!session) {
+        throw new McpError(ErrorCode.InvalidParams, `Conversation "${id}" not found`);
+      }
+      let text = `# ${session.title ?? `Conversation ${session.id}`}\n\n` +
+        `_Model \`${session.settings.model}\` · ${session.turn_count} turn(s) · ` +
+        `${session.usage.total_tokens} total tokens · started ${session.created_at}_\n`;
+      for (const turn of session.turns) {
+        text += `\n## ${turn.role === "user" ? "User" : "Assistant"}\n\n${turn.content}\n`;
+      }
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text }] };
+    }
+  );
+
+  // The SDK lists every resource at once; serve resources/list in pages instead
+  installPaginatedResourceList(server, async () => [
+    CONFIG_RESOURCE,
+    ...listUsageResources(),
+    ...listResponseResources(),
+    ...listConversationResources(),
+  ], RESOURCE_PAGE_SIZE);
+}
 
 // =============================================================================
 // Server Startup
 // =============================================================================
 
+/**
+ * Create a server instance with every tool, prompt and resource. Stdio uses
+ * one; the HTTP transport creates one per client session. All instances share
+ * the stores, usage ledger and providers.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+  resourceSubscriptions.attach(server);
+  logger.attach(server);
+
+  registerGenerateTool(server);
+  registerMessagesTool(server);
+  registerConversationStartTool(server);
+  registerConversationReplyTool(server);
+  registerConversationListTool(server);
+  registerConversationDeleteTool(server);
+  registerTemplatePrompts(server);
+  registerRunTemplateTool(server);
+  registerCompareTool(server);
+  registerReviewTool(server);
+  registerBatchTool(server);
+  registerBatchResultsTool(server);
+  registerJobStatusTool(server);
+  registerJobResultTool(server);
+  registerJobCancelTool(server);
+  registerReadMoreTool(server);
+  registerUsageTool(server);
+  registerModelsTool(server);
+  registerStatusTool(server);
+  registerResources(server);
+  return server;
+}
+
+/** Whether a host name only accepts local connections */
+function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+if (TRANSPORT !== "stdio" && TRANSPORT !== "http") {
+  console.error(`ERROR: Transport must be "stdio" or "http" (got "${TRANSPORT}")`);
+  process.exit(1);
+}
+
+if (TRANSPORT === "http") {
+  if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 0 || HTTP_PORT > 65535) {
+    console.error(`ERROR: Invalid HTTP port "${HTTP_PORT}" (--port / GPT_MCP_HTTP_PORT)`);
+    process.exit(1);
+  }
+  if (HTTP_AUTH_TOKENS.length === 0 && !isLoopbackHost(HTTP_HOST)) {
+    console.error(
+      `ERROR: GPT_MCP_AUTH_TOKENS is required when serving HTTP on a non-loopback address (${HTTP_HOST}). ` +
+      `Set one or more comma-separated tokens, or bind to 127.0.0.1.`
+    );
+    process.exit(1);
+  }
+}
+
+// HTTP server, when running with the HTTP transport
+let httpServer: McpHttpServer | undefined;
+
+/** Serve over HTTP until SIGINT/SIGTERM, then shut down gracefully */
+async function serveHttp(backend: string): Promise<void> {
+  const server = new McpHttpServer(createServer, {
+    host: HTTP_HOST,
+    port: HTTP_PORT,
+    authTokens: HTTP_AUTH_TOKENS,
+    allowedOrigins: HTTP_ALLOWED_ORIGINS,
+    sessionIdleMs: HTTP_SESSION_IDLE_MS,
+    maxBodyBytes: HTTP_MAX_BODY_BYTES,
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+  await server.listen();
+  httpServer = server;
+
+  let stopping = false;
+  const shutdown = (signal: string): void => {
+    if (stopping) {
+      // Second signal: stop waiting for in-flight requests
+      process.exit(1);
+    }
+    stopping = true;
+    logger.info("server", `${signal} received, closing ${server.sessionCount} session(s)...`);
+    server.close().then(
+      () => process.exit(0),
+      error => {
+        logger.error("server", `Error during shutdown: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    );
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  logger.info(
+    "server",
+    `${SERVER_NAME} v${SERVER_VERSION} running on ${server.url}/mcp (${backend}, ` +
+    `auth: ${HTTP_AUTH_TOKENS.length > 0 ? `${HTTP_AUTH_TOKENS.length} token(s)` : "none"})`
+  );
+}
+
+/**
+ * Validate the configured models and restore the persisted state. Runs once
+ * before the first server instance is created.
+ */
+export async function initializeServer(): Promise<void> {
+  // Validate configured models before starting server
+  await validateConfiguredModels();
+
+  // Restore persisted conversation sessions, the usage ledger, batch and background jobs
+  await sessionStore.load();
+  await usageLedger.load();
+  await batchJobs.load();
+  await jobStore.load();
+}
+
+/** Whether this module was started as the program (not imported, e.g. by the tests) */
+function isEntryPoint(): boolean {
+  if (!process.argv[1]) {
+    return false;
+  }
+  try {
+    // npm installs the bin as a symlink to dist/index.js
+    return realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+  } catch {
+    return false;
+  }
+}
+
 async function main(): Promise<void> {
-  // Validate configured model before starting server
-  await validateConfiguredModel();
+  await initializeServer();
+
+  // Pick up config file edits (page size changes apply to stored responses too)
+  serverConfig.onChange(config => {
+    responseStore.setPageSize(PAGE_SIZE_OVERRIDE ?? config.defaults.page_size ?? DEFAULT_PAGE_SIZE);
+    resourceSubscriptions.updated("gpt://config");
+  });
+  serverConfig.watch();
+
+  // Expire stored responses in the background
+  setInterval(() => {
+    responseStore.sweep().catch(error => {
+      logger.warning("responses", `Could not expire stored responses: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, RESPONSE_SWEEP_INTERVAL_MS).unref();
+
+  const provider = providers.default;
+  const backend = `provider: ${provider.name}, model: ${provider.activeModel}, API: ${formatApiType(provider.status().api)}`;
+
+  if (TRANSPORT === "http") {
+    await serveHttp(backend);
+    return;
+  }
 
   const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error(`${SERVER_NAME} v${SERVER_VERSION} running on stdio (model: ${ACTIVE_MODEL}, API: Responses)`);
+  await createServer().connect(transport);
+  logger.info("server", `${SERVER_NAME} v${SERVER_VERSION} running on stdio (${backend})`);
 }
 
-main().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
+if (isEntryPoint()) {
+  main().catch((error) => {
+    logger.log("critical", "server", `Fatal error: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
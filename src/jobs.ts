@@ -0,0 +1,182 @@
+/**
+ * Background Jobs
+ *
+ * Persistent record of gpt_generate / gpt_messages calls started with
+ * `background: true`. A job runs either upstream in Responses API background
+ * mode (the job keeps the response id and is polled) or in a local runner
+ * inside this server. The finished response is kept with the job, so its
+ * result can still be fetched after a restart.
+ *
+ * Local jobs cannot survive a restart: jobs that were still running when the
+ * server stopped are marked as failed when the store is loaded.
+ */
+
+import { randomUUID } from "node:crypto";
+import type OpenAI from "openai";
+import type { ContextReport } from "./context.js";
+import { UserFacingError } from "./errors.js";
+import type { FileContextReport } from "./files.js";
+import type { JsonSchema } from "./schema.js";
+import { JsonFile } from "./storage.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Where a job runs */
+export type JobRunner = "responses" | "local";
+
+/** Job status (the Responses API status names) */
+export type JobStatus = "queued" | "in_progress" | "completed" | "incomplete" | "failed" | "cancelled";
+
+/** Call details needed to build the tool result once the job has finished */
+export interface JobResultContext {
+  /** JSON Schema the answer is validated against (gpt_generate) */
+  schema?: JsonSchema;
+  files?: FileContextReport;
+  /** Number of input messages (gpt_messages) */
+  message_count?: number;
+  /** How the messages were fitted into the context window (gpt_messages) */
+  context_report?: ContextReport;
+  /** Capability warnings raised when the job was started */
+  warnings: string[];
+}
+
+/** A background job */
+export interface BackgroundJob {
+  id: string;
+  /** Tool that started the job */
+  tool: string;
+  provider: string;
+  model: string;
+  runner: JobRunner;
+  /** Responses API id (runner "responses") */
+  response_id?: string;
+  status: JobStatus;
+  context: JobResultContext;
+  /** Final response, once the job has finished */
+  response?: OpenAI.Responses.Response;
+  error?: { category: string; message: string };
+  /** Set once the usage of the job is in the ledger */
+  usage_recorded: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface JobFile {
+  version: 1;
+  jobs: BackgroundJob[];
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown job, or a job request that cannot be run in the background */
+export class JobError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Whether a job has reached a final status */
+export function isJobFinished(status: JobStatus): boolean {
+  return status !== "queued" && status !== "in_progress";
+}
+
+// =============================================================================
+// Job Store
+// =============================================================================
+
+/**
+ * JSON-file backed record of background jobs.
+ * Written through to disk on every change; only the newest `maxFinished`
+ * finished jobs are kept.
+ */
+export class JobStore {
+  private jobs = new Map<string, BackgroundJob>();
+  private readonly file: JsonFile<JobFile>;
+
+  constructor(filePath: string, private readonly maxFinished: number) {
+    this.file = new JsonFile<JobFile>(filePath);
+  }
+
+  /**
+   * Load jobs from disk. A missing file means no jobs. Local jobs that were
+   * still running are marked as failed (their runner died with the server).
+   */
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    this.jobs.clear();
+    let interrupted = false;
+    for (const job of data?.jobs ?? []) {
+      if (job.runner === "local" && !isJobFinished(job.status)) {
+        job.status = "failed";
+        job.error = { category: "cancelled", message: "The server restarted before the job finished. Start it again." };
+        job.updated_at = new Date().toISOString();
+        interrupted = true;
+      }
+      this.jobs.set(job.id, job);
+    }
+    if (interrupted) {
+      await this.save();
+    }
+  }
+
+  /** Record a new job */
+  async create(fields: Omit<BackgroundJob, "id" | "usage_recorded" | "created_at" | "updated_at">): Promise<BackgroundJob> {
+    const now = new Date().toISOString();
+    const job: BackgroundJob = { id: `job_${randomUUID()}`, ...fields, usage_recorded: false, created_at: now, updated_at: now };
+    this.jobs.set(job.id, job);
+    this.prune();
+    await this.save();
+    return job;
+  }
+
+  /** Look up a job, throwing a JobError for unknown ids */
+  get(id: string): BackgroundJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new JobError(`Job "${id}" not found. Call gpt_job_status without job_id to list jobs.`);
+    }
+    return job;
+  }
+
+  /** Update fields of a job and persist */
+  async update(
+    id: string,
+    changes: Partial<Pick<BackgroundJob, "status" | "response_id" | "response" | "error" | "usage_recorded">>
+  ): Promise<BackgroundJob> {
+    const job = this.get(id);
+    Object.assign(job, changes, { updated_at: new Date().toISOString() });
+    await this.save();
+    return job;
+  }
+
+  /** Jobs, newest first */
+  list(): BackgroundJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /** Number of jobs that have not finished yet */
+  get activeCount(): number {
+    return [...this.jobs.values()].filter(job => !isJobFinished(job.status)).length;
+  }
+
+  /** Drop the oldest finished jobs beyond the limit */
+  private prune(): void {
+    const finished = this.list().filter(job => isJobFinished(job.status));
+    for (const job of finished.slice(this.maxFinished)) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.file.write({ version: 1, jobs: [...this.jobs.values()] });
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Logging
+ *
+ * Structured logger shared by all modules. Every event has a level (the MCP
+ * / syslog levels), the component that logged it, a message and optional
+ * data. Events at or above the configured level go to stderr and to an
+ * optional JSONL log file that is rotated by size. Connected clients receive
+ * them as MCP logging notifications (notifications/message), filtered by the
+ * level each client asked for with logging/setLevel.
+ *
+ * Events about one tool call (audit records, per-call warnings) carry a
+ * scope and are only sent to the client session that made the call; other
+ * events go to every client.
+ *
+ * Audit records (one per upstream model call) are always written to the log
+ * file, whatever the level.
+ */
+
+import { appendFileSync, mkdirSync, renameSync, rmSync, statSync } from "node:fs";
+import path from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LoggingLevelSchema, SetLevelRequestSchema, type LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import type { TokenUsage } from "./sessions.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Log levels, least severe first */
+export const LOG_LEVELS = LoggingLevelSchema.options;
+
+export type LogLevel = LoggingLevel;
+
+/** One log event (one line of the log file) */
+export interface LogEvent {
+  time: string;
+  level: LogLevel;
+  /** Component that logged the event, e.g. "http" or "audit" */
+  logger: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/** Client session an event belongs to (`session` is undefined on stdio) */
+export interface LogScope {
+  session: string | undefined;
+}
+
+/** Audit record of an upstream model call */
+export interface AuditRecord {
+  /** MCP request id of the tool call */
+  request_id?: string | number;
+  /** HTTP session id (HTTP transport only) */
+  session_id?: string;
+  tool: string;
+  provider: string;
+  model: string;
+  stream: boolean;
+  /** Request parameters; prompt bodies only when enabled */
+  parameters: Record<string, unknown>;
+  latency_ms: number;
+  /** Response status (completed, incomplete, ...) */
+  status?: string;
+  usage?: TokenUsage;
+  outcome: "ok" | "error";
+  error_category?: string;
+  error?: string;
+}
+
+export interface LoggerOptions {
+  /** Minimum level written to stderr and the log file (and the default for clients) */
+  level: LogLevel;
+  /** JSONL log file; none = stderr only */
+  file?: string;
+  /** Rotate the log file once it would grow beyond this size */
+  maxBytes: number;
+  /** Rotated files kept next to the log file (<file>.1 is the newest) */
+  maxFiles: number;
+}
+
+/** Errors logged within a time window */
+export interface ErrorCounts {
+  total: number;
+  /** Keyed by error category, or by component for errors without one */
+  by_category: Record<string, number>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SEVERITY = new Map<LogLevel, number>(LOG_LEVELS.map((level, index) => [level, index]));
+
+// Error timestamps kept for the error counts
+const MAX_TRACKED_ERRORS = 10_000;
+
+/** Severity of a level (higher = more severe) */
+function severity(level: LogLevel): number {
+  return SEVERITY.get(level) ?? 0;
+}
+
+// =============================================================================
+// Logger
+// =============================================================================
+
+/**
+ * The server's logger. Starts at level "info" without a log file until
+ * `configure` is called.
+ */
+export class Logger {
+  private options: LoggerOptions = { level: "info", maxBytes: 10 * 1024 * 1024, maxFiles: 5 };
+  private fileSize = 0;
+  private fileFailed = false;
+  private readonly clients = new Map<McpServer, LogLevel>();
+  private readonly errors: { time: number; category: string }[] = [];
+
+  /** Apply settings and prepare the log file's directory */
+  configure(options: LoggerOptions): void {
+    this.options = options;
+    this.fileFailed = false;
+    if (options.file) {
+      try {
+        mkdirSync(path.dirname(options.file), { recursive: true });
+        this.fileSize = statSync(options.file).size;
+      } catch {
+        this.fileSize = 0;
+      }
+    }
+  }
+
+  get level(): LogLevel {
+    return this.options.level;
+  }
+
+  get file(): string | undefined {
+    return this.options.file;
+  }
+
+  debug(logger: string, message: string, data?: Record<string, unknown>, scope?: LogScope): void {
+    this.log("debug", logger, message, data, scope);
+  }
+
+  info(logger: string, message: string, data?: Record<string, unknown>, scope?: LogScope): void {
+    this.log("info", logger, message, data, scope);
+  }
+
+  warning(logger: string, message: string, data?: Record<string, unknown>, scope?: LogScope): void {
+    this.log("warning", logger, message, data, scope);
+  }
+
+  error(logger: string, message: string, data?: Record<string, unknown>, scope?: LogScope): void {
+    this.log("error", logger, message, data, scope);
+  }
+
+  /** Log an event; with a scope, only the client session in it is notified */
+  log(level: LogLevel, logger: string, message: string, data?: Record<string, unknown>, scope?: LogScope): void {
+    this.emit({ time: new Date().toISOString(), level, logger, message, ...(data ? { data } : {}) }, false, scope);
+  }
+
+  /**
+   * Log an upstream call; failures count as errors (cancellations as warnings).
+   * Only the client session that made the call is notified.
+   */
+  audit(record: AuditRecord): void {
+    const level: LogLevel = record.outcome === "ok" ? "info" : record.error_category === "cancelled" ? "warning" : "error";
+    const message = `${record.tool} ${record.provider}/${record.model} ` +
+      (record.outcome === "ok" ? record.status ?? "ok" : `failed (${record.error_category})`) +
+      ` in ${record.latency_ms} ms`;
+    this.emit(
+      { time: new Date().toISOString(), level, logger: "audit", message, data: { ...record } },
+      true,
+      { session: record.session_id }
+    );
+  }
+
+  /** Errors logged in the last `windowMs` */
+  errorCounts(windowMs: number): ErrorCounts {
+    const since = Date.now() - windowMs;
+    const counts: ErrorCounts = { total: 0, by_category: {} };
+    for (const entry of this.errors) {
+      if (entry.time >= since) {
+        counts.total++;
+        counts.by_category[entry.category] = (counts.by_category[entry.category] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Forward events to a client as logging notifications. The server declares
+   * the logging capability; the client's logging/setLevel applies to it alone.
+   * It is detached again when it closes.
+   */
+  attach(server: McpServer): void {
+    this.clients.set(server, this.options.level);
+    server.server.registerCapabilities({ logging: {} });
+    server.server.setRequestHandler(SetLevelRequestSchema, request => {
+      this.clients.set(server, request.params.level);
+      return {};
+    });
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      onclose?.();
+      this.clients.delete(server);
+    };
+  }
+
+  private emit(event: LogEvent, alwaysToFile: boolean, scope?: LogScope): void {
+    const eventSeverity = severity(event.level);
+    if (eventSeverity >= severity("error")) {
+      this.trackError(event);
+    }
+
+    const enabled = eventSeverity >= severity(this.options.level);
+    if (enabled) {
+      const prefix = eventSeverity >= severity("error") ? "Error: " : event.level === "warning" ? "Warning: " : "";
+      console.error(`${prefix}${event.message}`);
+    }
+    if (enabled || alwaysToFile) {
+      this.writeFile(event);
+    }
+
+    for (const [server, level] of this.clients) {
+      // Transports with sessions (HTTP, SSE) know their id; stdio has none
+      if (scope && server.server.transport?.sessionId !== scope.session) {
+        continue;
+      }
+      if (eventSeverity >= severity(level)) {
+        this.send(server, event);
+      }
+    }
+  }
+
+  private trackError(event: LogEvent): void {
+    const category = event.data?.error_category ?? event.data?.category;
+    this.errors.push({ time: Date.now(), category: typeof category === "string" ? category : event.logger });
+    if (this.errors.length > MAX_TRACKED_ERRORS) {
+      this.errors.splice(0, this.errors.length - MAX_TRACKED_ERRORS);
+    }
+  }
+
+  /** Append an event to the log file, rotating it first if it would grow too large */
+  private writeFile(event: LogEvent): void {
+    const file = this.options.file;
+    if (!file) {
+      return;
+    }
+    const line = JSON.stringify(event) + "\n";
+    try {
+      if (this.fileSize > 0 && this.fileSize + Buffer.byteLength(line) > this.options.maxBytes) {
+        this.rotate(file);
+      }
+      appendFileSync(file, line);
+      this.fileSize += Buffer.byteLength(line);
+      this.fileFailed = false;
+    } catch (error) {
+      // Report once per failure streak, on stderr only
+      if (!this.fileFailed) {
+        this.fileFailed = true;
+        console.error(`Warning: Could not write log file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /** Shift <file>.1 ... <file>.N-1 up by one and move the current file to <file>.1 */
+  private rotate(file: string): void {
+    rmSync(`${file}.${this.options.maxFiles}`, { force: true });
+    for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+      try {
+        renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      } catch {
+        // Not rotated that far yet
+      }
+    }
+    renameSync(file, `${file}.1`);
+    this.fileSize = 0;
+  }
+
+  /** Send an event to a client; never logs its own failures */
+  private send(server: McpServer, event: LogEvent): void {
+    // Only once the client has initialized the session
+    if (!server.isConnected() || !server.server.getClientVersion()) {
+      return;
+    }
+    server.server.sendLoggingMessage({
+      level: event.level,
+      logger: event.logger,
+      data: { message: event.message, ...event.data },
+    }).catch(() => {
+      // The client went away - it is detached when the transport closes
+    });
+  }
+}
+
+/** Logger shared by all modules; index.ts configures it at startup */
+export const logger = new Logger();
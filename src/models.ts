@@ -0,0 +1,307 @@
+/**
+ * Model Catalog and Capabilities
+ *
+ * A local capability table (reasoning support and effort levels, sampling
+ * parameters, context window, output limit, vision and built-in tools) and a
+ * cached per-provider model list. Every request is checked against both
+ * before it is sent: unknown models and image inputs to text-only models are
+ * rejected, other incompatible parameters are dropped with a warning (or
+ * rejected, depending on the check mode).
+ */
+
+import type OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Reasoning effort levels supported by GPT-5.x models */
+export type ReasoningEffort = "none" | "low" | "medium" | "high";
+
+/** What a model accepts */
+export interface ModelCapabilities {
+  /** Whether the model is a reasoning model */
+  reasoning: boolean;
+  /** Accepted reasoning.effort values (empty for non-reasoning models) */
+  reasoning_efforts: ReasoningEffort[];
+  /** Whether temperature and top_p are accepted */
+  sampling: boolean;
+  context_window: number;
+  max_output_tokens: number;
+  /** Whether image inputs are accepted */
+  vision: boolean;
+  /** Whether built-in tools (web search, file search, code interpreter) are accepted */
+  tools: boolean;
+}
+
+/** Capabilities keyed by model id or id prefix */
+export type CapabilityTable = Record<string, ModelCapabilities>;
+
+/**
+ * How incompatible parameters are handled:
+ * "drop" removes them with a warning, "reject" fails the call, "off" skips
+ * all checks.
+ */
+export type CapabilityMode = "drop" | "reject" | "off";
+
+/** Model list of a provider */
+export interface ModelListing {
+  /** Model ids in the order the API lists them */
+  ids: string[];
+  fetched_at: string;
+}
+
+// =============================================================================
+// Capability Table
+// =============================================================================
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+
+const GPT_5: ModelCapabilities = {
+  reasoning: true,
+  reasoning_efforts: REASONING_EFFORTS,
+  sampling: false,
+  context_window: 400_000,
+  max_output_tokens: 128_000,
+  vision: true,
+  tools: true,
+};
+
+const GPT_4_1: ModelCapabilities = {
+  reasoning: false,
+  reasoning_efforts: [],
+  sampling: true,
+  context_window: 1_047_576,
+  max_output_tokens: 32_768,
+  vision: true,
+  tools: true,
+};
+
+const GPT_4O: ModelCapabilities = {
+  reasoning: false,
+  reasoning_efforts: [],
+  sampling: true,
+  context_window: 128_000,
+  max_output_tokens: 16_384,
+  vision: true,
+  tools: true,
+};
+
+const O_SERIES: ModelCapabilities = {
+  reasoning: true,
+  reasoning_efforts: REASONING_EFFORTS,
+  sampling: false,
+  context_window: 200_000,
+  max_output_tokens: 100_000,
+  vision: true,
+  tools: true,
+};
+
+/**
+ * Default capabilities. Keys match by longest prefix (like the price table),
+ * so "gpt-5" also covers point releases and dated snapshots without a closer
+ * match. Override or extend with GPT_MODEL_CAPABILITIES(_FILE).
+ */
+export const DEFAULT_CAPABILITIES: CapabilityTable = {
+  "gpt-5": GPT_5,
+  "gpt-5.1": { ...GPT_5, reasoning_efforts: ["none", ...REASONING_EFFORTS] },
+  "gpt-5.2": { ...GPT_5, reasoning_efforts: ["none", ...REASONING_EFFORTS] },
+  "gpt-5-chat": { ...GPT_4O, tools: false },
+  "gpt-4.1": GPT_4_1,
+  "gpt-4o": GPT_4O,
+  "o3": O_SERIES,
+  "o3-mini": { ...O_SERIES, vision: false },
+  "o4-mini": O_SERIES,
+};
+
+/** Find the capabilities of a model: exact match first, then longest prefix */
+export function findCapabilities(table: CapabilityTable, model: string): ModelCapabilities | undefined {
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Reasoning effort used when a call sets none: the server default if the
+ * model accepts it, the lowest accepted level otherwise, and "none" for
+ * non-reasoning models. Models not in the table get the server default.
+ */
+export function defaultReasoningEffort(
+  capabilities: ModelCapabilities | undefined,
+  serverDefault: ReasoningEffort
+): ReasoningEffort {
+  if (!capabilities) {
+    return serverDefault;
+  }
+  if (!capabilities.reasoning) {
+    return "none";
+  }
+  if (serverDefault === "none" || capabilities.reasoning_efforts.includes(serverDefault)) {
+    return serverDefault;
+  }
+  return capabilities.reasoning_efforts[0] ?? serverDefault;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown model or a parameter the model does not accept */
+export class ModelCapabilityError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelCapabilityError";
+  }
+}
+
+// =============================================================================
+// Request Checks
+// =============================================================================
+
+/** Whether a request input contains images */
+function hasImageInput(input: OpenAI.Responses.ResponseCreateParams["input"]): boolean {
+  if (!Array.isArray(input)) {
+    return false;
+  }
+  return input.some(item =>
+    "content" in item && Array.isArray(item.content) &&
+    item.content.some(part => (part as { type?: string }).type === "input_image")
+  );
+}
+
+/** Closest accepted effort level (ties go to the lower level) */
+function nearestEffort(effort: ReasoningEffort, accepted: ReasoningEffort[]): ReasoningEffort | undefined {
+  const order: ReasoningEffort[] = ["none", "low", "medium", "high"];
+  const target = order.indexOf(effort);
+  return [...accepted].sort((a, b) =>
+    Math.abs(order.indexOf(a) - target) - Math.abs(order.indexOf(b) - target) ||
+    order.indexOf(a) - order.indexOf(b)
+  )[0];
+}
+
+/**
+ * Check a request against the model's capabilities.
+ * In "drop" mode incompatible parameters are removed or clamped in place and
+ * a warning is returned for each; in "reject" mode the first one throws a
+ * ModelCapabilityError. Image inputs to a text-only model always throw.
+ */
+export function applyCapabilities(
+  request: OpenAI.Responses.ResponseCreateParams,
+  model: string,
+  capabilities: ModelCapabilities,
+  mode: Exclude<CapabilityMode, "off">
+): string[] {
+  const warnings: string[] = [];
+  const incompatible = (message: string, fix: () => string): void => {
+    if (mode === "reject") {
+      throw new ModelCapabilityError(`${message}.`);
+    }
+    warnings.push(`${message}; ${fix()}.`);
+  };
+
+  if (!capabilities.vision && hasImageInput(request.input)) {
+    throw new ModelCapabilityError(`Model "${model}" does not accept image inputs.`);
+  }
+
+  if (!capabilities.sampling) {
+    for (const param of ["temperature", "top_p"] as const) {
+      if (request[param] != null) {
+        incompatible(`Model "${model}" does not accept ${param}`, () => {
+          delete request[param];
+          return "dropped";
+        });
+      }
+    }
+  }
+
+  const effort = request.reasoning?.effort as ReasoningEffort | null | undefined;
+  if (effort) {
+    if (!capabilities.reasoning) {
+      incompatible(`Model "${model}" does not support reasoning_effort`, () => {
+        delete request.reasoning;
+        return "dropped";
+      });
+    } else if (!capabilities.reasoning_efforts.includes(effort)) {
+      const nearest = nearestEffort(effort, capabilities.reasoning_efforts);
+      incompatible(
+        `Model "${model}" does not support reasoning_effort "${effort}" ` +
+        `(supported: ${capabilities.reasoning_efforts.join(", ")})`,
+        () => {
+          if (!nearest || nearest === "none") {
+            delete request.reasoning;
+            return "dropped";
+          }
+          request.reasoning = { ...request.reasoning, effort: nearest };
+          return `using "${nearest}"`;
+        }
+      );
+    }
+  }
+
+  if (request.max_output_tokens != null && request.max_output_tokens > capabilities.max_output_tokens) {
+    incompatible(
+      `max_output_tokens ${request.max_output_tokens} exceeds the limit of model "${model}" (${capabilities.max_output_tokens})`,
+      () => {
+        request.max_output_tokens = capabilities.max_output_tokens;
+        return "clamped";
+      }
+    );
+  }
+
+  if (!capabilities.tools && request.tools && request.tools.length > 0) {
+    incompatible(`Model "${model}" does not support built-in tools`, () => {
+      delete request.tools;
+      delete request.include;
+      return "dropped";
+    });
+  }
+
+  return warnings;
+}
+
+// =============================================================================
+// Model Catalog
+// =============================================================================
+
+/**
+ * Cached model lists, one per provider.
+ * Lists are fetched on first use and refreshed after `ttlMs`; concurrent
+ * lookups share one request.
+ */
+export class ModelCatalog {
+  private listings = new Map<string, ModelListing>();
+  private pending = new Map<string, Promise<ModelListing>>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  /** Model list of a provider, fetched with `fetch` when missing, stale or `refresh` is set */
+  async list(provider: string, fetch: () => Promise<string[]>, refresh = false): Promise<ModelListing> {
+    const cached = this.listings.get(provider);
+    if (cached && !refresh && Date.now() - Date.parse(cached.fetched_at) < this.ttlMs) {
+      return cached;
+    }
+
+    let pending = this.pending.get(provider);
+    if (!pending) {
+      pending = fetch()
+        .then(ids => {
+          const listing = { ids, fetched_at: new Date().toISOString() };
+          this.listings.set(provider, listing);
+          return listing;
+        })
+        .finally(() => this.pending.delete(provider));
+      this.pending.set(provider, pending);
+    }
+    return pending;
+  }
+
+  /** Cached list of a provider (even if stale), without fetching */
+  cached(provider: string): ModelListing | undefined {
+    return this.listings.get(provider);
+  }
+}
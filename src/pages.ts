@@ -0,0 +1,354 @@
+/**
+ * Response Pages
+ *
+ * Keeps the full text of every model answer in a TTL store (in memory,
+ * optionally backed by a directory on disk) and serves it in pages, so long
+ * answers are paginated instead of truncated. Pages break on paragraph or
+ * code-fence boundaries where possible; a page that has to end inside a
+ * fenced block closes the fence and the next page reopens it.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger.js";
+import type { TokenUsage } from "./sessions.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A stored model answer */
+export interface StoredResponse {
+  /** Responses API id, used as the response handle */
+  id: string;
+  text: string;
+  model: string;
+  tool: string;
+  usage?: TokenUsage;
+  created_at: string;
+  expires_at: string;
+}
+
+/** One page of a stored response */
+export interface ResponsePage {
+  response_handle: string;
+  text: string;
+  /** 1-based page number */
+  page: number;
+  total_pages: number;
+  total_characters: number;
+  next_cursor: string | null;
+}
+
+/** Store settings */
+export interface ResponseStoreOptions {
+  /** Maximum characters per page */
+  pageSize: number;
+  /** How long responses are kept */
+  ttlMs: number;
+  /** Maximum responses kept in memory (oldest are evicted first) */
+  maxEntries: number;
+  /** Optional directory for disk-backed storage */
+  dir?: string;
+}
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+// Don't break a page before this fraction of the page size if avoidable
+const MIN_PAGE_FILL = 0.5;
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*)$/;
+
+/** Line-start offsets of the text and the fence opening each line is inside */
+function scanFences(text: string): { lineStarts: number[]; openFence: (string | null)[] } {
+  const lineStarts: number[] = [];
+  const openFence: (string | null)[] = [];
+  let current: string | null = null;
+  let currentMarker = "";
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    lineStarts.push(offset);
+    // openFence[i] = fence line that is open at the START of line i
+    openFence.push(current);
+    const match = FENCE_PATTERN.exec(line);
+    if (match) {
+      const marker = match[2];
+      if (current === null) {
+        current = line.trim();
+        currentMarker = marker;
+      } else if (match[3].trim() === "" && marker[0] === currentMarker[0] && marker.length >= currentMarker.length) {
+        current = null;
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return { lineStarts, openFence };
+}
+
+/**
+ * Split text into pages of at most `pageSize` characters (plus any fence
+ * lines added to keep code blocks balanced).
+ *
+ * Preferred break points, in order: a blank line outside a code block, any
+ * line end outside a code block, a line end inside a code block (the fence
+ * is closed and reopened), and finally a hard cut.
+ */
+export function paginate(text: string, pageSize: number): string[] {
+  // Smaller pages would never advance through the text
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new RangeError(`Page size must be a positive integer (got ${pageSize}).`);
+  }
+  if (text.length <= pageSize) {
+    return [text];
+  }
+
+  const { lineStarts, openFence } = scanFences(text);
+  const pages: string[] = [];
+  let start = 0;
+  let reopen: string | null = null;
+
+  // Fence open at an absolute offset that is a line start
+  const fenceAt = (offset: number): string | null => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return openFence[lo];
+  };
+
+  while (start < text.length) {
+    const prefix = reopen ? `${reopen}\n` : "";
+    // At least one character per page, even after a long reopened fence
+    const budget = Math.max(1, pageSize - prefix.length);
+
+    if (text.length - start <= budget) {
+      pages.push(prefix + text.slice(start));
+      break;
+    }
+
+    const limit = start + budget;
+    const minEnd = start + Math.floor(budget * MIN_PAGE_FILL);
+    let end = -1;
+    let fence: string | null = null;
+
+    // 1. Paragraph break outside a code block
+    for (let i = text.lastIndexOf("\n\n", limit - 2); i >= minEnd; i = text.lastIndexOf("\n\n", i - 1)) {
+      if (fenceAt(i + 2) === null) {
+        end = i + 2;
+        break;
+      }
+    }
+
+    // 2. Any line break (closing the fence if inside one)
+    if (end === -1) {
+      const closeBudget = 4; // room for "\n```"
+      const i = text.lastIndexOf("\n", limit - closeBudget - 1);
+      if (i >= minEnd) {
+        end = i + 1;
+        fence = fenceAt(end);
+      }
+    }
+
+    // 3. Hard cut
+    if (end === -1 || end <= start) {
+      end = limit;
+      fence = null;
+    }
+
+    let page = prefix + text.slice(start, end);
+    if (fence) {
+      const marker = /^\s*([`~]{3,})/.exec(fence)?.[1] ?? "```";
+      page = page.replace(/\n?$/, "\n") + marker;
+    }
+    pages.push(page);
+
+    reopen = fence;
+    start = end;
+  }
+
+  return pages;
+}
+
+// =============================================================================
+// Cursors
+// =============================================================================
+
+/** Encode an opaque cursor for a page (0-based index) */
+export function encodeCursor(id: string, pageIndex: number): string {
+  return Buffer.from(JSON.stringify({ id, p: pageIndex }), "utf8").toString("base64url");
+}
+
+/** Decode a cursor, or undefined if it is malformed */
+export function decodeCursor(cursor: string): { id: string; pageIndex: number } | undefined {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as { id?: unknown; p?: unknown };
+    if (typeof data.id === "string" && typeof data.p === "number" && Number.isInteger(data.p) && data.p >= 0) {
+      return { id: data.id, pageIndex: data.p };
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Response Store
+// =============================================================================
+
+/**
+ * TTL store for full responses.
+ * Always in memory; with `dir` set, responses are also written to disk and
+ * read back on a memory miss (e.g. after a restart).
+ */
+export class ResponseStore {
+  private entries = new Map<string, StoredResponse>();
+  private pageCache = new Map<string, string[]>();
+
+  constructor(readonly options: ResponseStoreOptions) {}
+
+  /** Store a response and return its first page */
+  put(response: Omit<StoredResponse, "created_at" | "expires_at">): ResponsePage {
+    const now = Date.now();
+    const entry: StoredResponse = {
+      ...response,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.options.ttlMs).toISOString(),
+    };
+
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    this.evict();
+
+    if (this.options.dir) {
+      this.writeToDisk(entry).catch(error => {
+        logger.warning("responses", `Could not persist response ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+
+    return this.pageOf(entry, 0);
+  }
+
+  /** Look up a response (memory first, then disk). Expired entries are gone. */
+  async get(id: string): Promise<StoredResponse | undefined> {
+    let entry = this.entries.get(id);
+    if (!entry && this.options.dir) {
+      entry = await this.readFromDisk(id);
+    }
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.parse(entry.expires_at) <= Date.now()) {
+      await this.remove(id);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /** Fetch a page (0-based index). Returns undefined if the response is gone. */
+  async page(id: string, pageIndex: number): Promise<ResponsePage | undefined> {
+    const entry = await this.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    return this.pageOf(entry, pageIndex);
+  }
+
+  /** Change the page size; pages of stored responses are recomputed */
+  setPageSize(pageSize: number): void {
+    if (pageSize !== this.options.pageSize) {
+      this.options.pageSize = pageSize;
+      this.pageCache.clear();
+    }
+  }
+
+  /** Non-expired responses in memory, newest first */
+  list(): StoredResponse[] {
+    const now = Date.now();
+    return [...this.entries.values()]
+      .filter(entry => Date.parse(entry.expires_at) > now)
+      .reverse();
+  }
+
+  /** Drop expired responses from memory and disk */
+  async sweep(): Promise<void> {
+    const now = Date.now();
+    for (const entry of [...this.entries.values()]) {
+      if (Date.parse(entry.expires_at) <= now) {
+        await this.remove(entry.id);
+      }
+    }
+    if (!this.options.dir) {
+      return;
+    }
+    let files: string[];
+    try {
+      files = await fs.readdir(this.options.dir);
+    } catch {
+      return;
+    }
+    for (const file of files.filter(f => f.endsWith(".json"))) {
+      const entry = await this.readFromDisk(file.slice(0, -".json".length));
+      if (entry && Date.parse(entry.expires_at) <= now) {
+        await this.remove(entry.id);
+      }
+    }
+  }
+
+  private pageOf(entry: StoredResponse, pageIndex: number): ResponsePage {
+    let pages = this.pageCache.get(entry.id);
+    if (!pages) {
+      pages = paginate(entry.text, this.options.pageSize);
+      this.pageCache.set(entry.id, pages);
+    }
+    const index = Math.min(pageIndex, pages.length - 1);
+    return {
+      response_handle: entry.id,
+      text: pages[index],
+      page: index + 1,
+      total_pages: pages.length,
+      total_characters: entry.text.length,
+      next_cursor: index + 1 < pages.length ? encodeCursor(entry.id, index + 1) : null,
+    };
+  }
+
+  /** Keep at most maxEntries in memory (disk copies are kept) */
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.pageCache.delete(oldest);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+    this.pageCache.delete(id);
+    if (this.options.dir) {
+      await fs.rm(this.filePath(id), { force: true });
+    }
+  }
+
+  private filePath(id: string): string {
+    // Response ids are API-generated; keep only safe characters anyway
+    return path.join(this.options.dir!, `${id.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+  }
+
+  private async writeToDisk(entry: StoredResponse): Promise<void> {
+    await fs.mkdir(this.options.dir!, { recursive: true });
+    await fs.writeFile(this.filePath(entry.id), JSON.stringify(entry), "utf8");
+  }
+
+  private async readFromDisk(id: string): Promise<StoredResponse | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8")) as StoredResponse;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Provider Backends
+ *
+ * Named provider profiles for OpenAI, Azure OpenAI and OpenAI-compatible
+ * servers (vLLM, Ollama, LM Studio, ...). Each profile defines the base URL,
+ * auth scheme, API key env var, API version and which API the backend speaks:
+ * the Responses API, only Chat Completions, or "auto" (try Responses first and
+ * fall back to Chat Completions when the endpoint does not exist).
+ *
+ * Every provider gets its own SDK client, circuit breaker and validated model.
+ * With a recorder, the client's traffic is recorded to or replayed from
+ * fixtures.
+ */
+
+import OpenAI, { AzureOpenAI, type ClientOptions } from "openai";
+import { UserFacingError } from "./errors.js";
+import type { Recorder, RecordingFetch } from "./recording.js";
+import type { CircuitBreaker } from "./resilience.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Kind of backend - selects the SDK client and request dialect */
+export type ProviderType = "openai" | "azure" | "compatible";
+
+/** How the API key is sent */
+export type AuthScheme = "bearer" | "api-key" | "none";
+
+/** Which API the backend supports */
+export type ProviderApi = "responses" | "chat" | "auto";
+
+/** A named provider profile */
+export interface ProviderProfile {
+  name: string;
+  type: ProviderType;
+  /** Base URL (Azure: the resource endpoint, e.g. https://x.openai.azure.com) */
+  base_url?: string;
+  auth: AuthScheme;
+  /** Env var holding the API key */
+  api_key_env?: string;
+  /** API version query parameter (required for Azure) */
+  api_version?: string;
+  api: ProviderApi;
+  /** Default model (Azure: deployment name) */
+  default_model?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/** Per-provider status reported by gpt_status */
+export interface ProviderStatus {
+  name: string;
+  type: ProviderType;
+  base_url: string | null;
+  /** Configured API; "auto" until a call has shown which one works */
+  api: ProviderApi;
+  active_model: string;
+  configured_model: string | null;
+  fallback_used: boolean;
+  api_key_configured: boolean;
+  circuit_breaker: "closed" | "open" | "half-open";
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Unknown provider, missing credentials or a feature the backend lacks */
+export class ProviderError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/** Env var read for the API key when a profile does not name one */
+function defaultKeyEnv(type: ProviderType): string | undefined {
+  if (type === "openai") return "OPENAI_API_KEY";
+  if (type === "azure") return "AZURE_OPENAI_API_KEY";
+  return undefined;
+}
+
+/**
+ * A configured backend: SDK client, circuit breaker and model state.
+ * Retries are handled by the caller (withRetry), never by the SDK.
+ */
+export class Provider {
+  readonly client: OpenAI;
+  /** Model used when a call does not name one */
+  activeModel: string;
+  /** Whether the configured model was not found and activeModel is a fallback */
+  modelFallbackUsed = false;
+  /** API in use; "auto" switches to "chat" once /responses is found missing */
+  private resolvedApi: ProviderApi;
+
+  constructor(
+    readonly profile: ProviderProfile,
+    readonly breaker: CircuitBreaker,
+    readonly configuredModel: string | undefined,
+    fallbackModel: string,
+    timeoutMs: number,
+    private readonly recorder?: Recorder
+  ) {
+    this.activeModel = configuredModel || fallbackModel;
+    this.resolvedApi = profile.api;
+    this.client = createClient(profile, this.apiKey, timeoutMs, recorder?.fetchFor(profile.name));
+  }
+
+  get name(): string {
+    return this.profile.name;
+  }
+
+  /** Env var the API key is read from */
+  get apiKeyEnv(): string | undefined {
+    return this.profile.api_key_env ?? defaultKeyEnv(this.profile.type);
+  }
+
+  get apiKey(): string | undefined {
+    const env = this.apiKeyEnv;
+    return env ? process.env[env] || undefined : undefined;
+  }
+
+  /** Whether requests can be authenticated (always true for auth "none" and in replay mode) */
+  get apiKeyConfigured(): boolean {
+    return this.profile.auth === "none" || !!this.recorder?.offline || !!this.apiKey;
+  }
+
+  /** Whether calls go to the Responses API (as opposed to Chat Completions) */
+  get usesResponses(): boolean {
+    return this.resolvedApi !== "chat";
+  }
+
+  /** Whether a Responses call may still turn out to be unsupported */
+  get detectingApi(): boolean {
+    return this.resolvedApi === "auto";
+  }
+
+  /** Switch an "auto" provider to Chat Completions */
+  useChatCompletions(): void {
+    this.resolvedApi = "chat";
+  }
+
+  /** Throw a ProviderError if no API key is available */
+  assertConfigured(): void {
+    if (!this.apiKeyConfigured) {
+      throw new ProviderError(
+        `Provider "${this.name}" has no API key. Set the ${this.apiKeyEnv ?? "api_key_env"} environment variable.`
+      );
+    }
+  }
+
+  status(): ProviderStatus {
+    return {
+      name: this.name,
+      type: this.profile.type,
+      base_url: this.profile.base_url ?? null,
+      api: this.resolvedApi,
+      active_model: this.activeModel,
+      configured_model: this.configuredModel ?? null,
+      fallback_used: this.modelFallbackUsed,
+      api_key_configured: this.apiKeyConfigured,
+      circuit_breaker: this.breaker.state,
+    };
+  }
+}
+
+/** Build the SDK client for a profile */
+function createClient(
+  profile: ProviderProfile,
+  apiKey: string | undefined,
+  timeoutMs: number,
+  fetch: RecordingFetch | undefined
+): OpenAI {
+  // The SDK's fetch type is its Node shim's; ours is the global one
+  const fetchOption = fetch ? { fetch: fetch as unknown as NonNullable<ClientOptions["fetch"]> } : {};
+
+  const headers: Record<string, string | null> = { ...profile.headers };
+
+  if (profile.type === "azure") {
+    return new AzureOpenAI({
+      endpoint: profile.base_url,
+      apiVersion: profile.api_version,
+      // Bearer tokens (Entra ID) go through the token provider, keys via api-key
+      ...(profile.auth === "bearer"
+        ? { azureADTokenProvider: async () => apiKey ?? "" }
+        : { apiKey: apiKey ?? "missing" }),
+      defaultHeaders: headers,
+      maxRetries: 0,
+      timeout: timeoutMs,
+      ...fetchOption,
+    });
+  }
+
+  // The SDK always sends a bearer token; replace or drop it as configured
+  if (profile.auth === "api-key") {
+    headers["api-key"] = apiKey ?? "";
+    headers.Authorization = null;
+  } else if (profile.auth === "none") {
+    headers.Authorization = null;
+  }
+
+  return new OpenAI({
+    apiKey: apiKey ?? "missing",
+    baseURL: profile.base_url,
+    defaultHeaders: headers,
+    defaultQuery: profile.api_version ? { "api-version": profile.api_version } : undefined,
+    maxRetries: 0,
+    timeout: timeoutMs,
+    ...fetchOption,
+  });
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/** All configured providers, looked up by name */
+export class ProviderRegistry {
+  private readonly providers = new Map<string, Provider>();
+
+  constructor(providers: Provider[], readonly defaultName: string) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+    if (!this.providers.has(defaultName)) {
+      throw new ProviderError(`Default provider "${defaultName}" is not configured`);
+    }
+  }
+
+  get default(): Provider {
+    return this.providers.get(this.defaultName)!;
+  }
+
+  /** Look up a provider; undefined selects the default */
+  get(name?: string): Provider {
+    if (name === undefined) {
+      return this.default;
+    }
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new ProviderError(
+        `Unknown provider "${name}". Configured providers: ${[...this.providers.keys()].join(", ")}`
+      );
+    }
+    return provider;
+  }
+
+  list(): Provider[] {
+    return [...this.providers.values()];
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * Record / Replay
+ *
+ * Offline mode for upstream traffic. In mode "record" the SDK clients send
+ * every request as usual and write the request and its response to a
+ * fixture file. In mode "replay" they answer from those fixtures without
+ * touching the network (and without an API key); a request without a
+ * fixture fails.
+ *
+ * Fixtures are keyed by a hash of the provider name, method, path and the
+ * normalized body (JSON keys sorted, multipart boundaries fixed), so they do
+ * not depend on the host, the headers or the API key. A request made several
+ * times (polling a background response, say) records every response; replay
+ * serves them in order and repeats the last one. Streamed responses are
+ * stored as their raw server-sent events.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+import { logger } from "./logger.js";
+import { JsonFile } from "./storage.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const RECORD_MODES = ["record", "replay", "off"] as const;
+
+export type RecordMode = typeof RECORD_MODES[number];
+
+/** fetch function handed to the SDK clients */
+export type RecordingFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** The parts of a request its fixture is keyed by */
+interface RecordedRequest {
+  provider: string;
+  method: string;
+  /** Path and query, without the host */
+  path: string;
+  /** Parsed JSON body, or the raw text of other bodies */
+  body?: unknown;
+}
+
+interface RecordedResponse {
+  status: number;
+  /** Content type and retry hints only; nothing that identifies the account */
+  headers: Record<string, string>;
+  /** Text bodies (JSON, server-sent events, JSONL) */
+  body?: string;
+  /** Binary bodies */
+  body_base64?: string;
+}
+
+/** One fixture file: a request and every response recorded for it */
+interface Fixture {
+  version: 1;
+  key: string;
+  request: RecordedRequest;
+  responses: RecordedResponse[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Response headers kept in fixtures
+const RECORDED_HEADERS = ["content-type", "retry-after", "retry-after-ms"];
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** A request without a fixture in mode "replay", or an unreadable fixture */
+export class RecordingError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingError";
+  }
+}
+
+/**
+ * The SDK wraps errors thrown by fetch in an APIConnectionError. Return the
+ * RecordingError inside instead, so a missing fixture is not retried as a
+ * network error.
+ */
+export function unwrapRecordingError(error: unknown): unknown {
+  return error instanceof OpenAI.APIConnectionError && error.cause instanceof RecordingError ? error.cause : error;
+}
+
+// =============================================================================
+// Request Normalization
+// =============================================================================
+
+/** JSON value with object keys in sorted order */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/** Read a request body as sent by the SDK: a string, bytes or a multipart stream */
+async function readBody(body: unknown): Promise<Buffer | undefined> {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === "string") {
+    return Buffer.from(body, "utf8");
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body);
+  }
+  if (body instanceof ArrayBuffer) {
+    return Buffer.from(body);
+  }
+  // Multipart uploads arrive as a wrapper around a readable stream
+  const stream = (body as { body?: AsyncIterable<Uint8Array> }).body ?? body;
+  if (stream && typeof stream === "object" && Symbol.asyncIterator in stream) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Uint8Array>) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  throw new RecordingError(`Unsupported request body (${Object.prototype.toString.call(body)})`);
+}
+
+/** Request header value, whatever form the headers come in */
+function headerValue(headers: RequestInit["headers"], name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const entries = headers instanceof Headers ? [...headers.entries()]
+    : Array.isArray(headers) ? headers
+    : Object.entries(headers);
+  return entries.find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+/** The request as stored in its fixture, with a key that ignores headers and random multipart boundaries */
+function normalizeRequest(provider: string, url: string, init: RequestInit | undefined, body: Buffer | undefined) {
+  const { pathname, search } = new URL(url);
+  const request: RecordedRequest = { provider, method: (init?.method ?? "GET").toUpperCase(), path: pathname + search };
+
+  if (body && body.length > 0) {
+    let text = body.toString("utf8");
+    const boundary = /boundary=([^;]+)/.exec(headerValue(init?.headers, "content-type") ?? "")?.[1];
+    if (boundary) {
+      text = text.split(boundary).join("BOUNDARY");
+    }
+    try {
+      request.body = sortKeys(JSON.parse(text));
+    } catch {
+      request.body = text;
+    }
+  }
+
+  const key = createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16);
+  const slug = `${request.method}${pathname}`.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60);
+  return { request, key, fileName: `${slug}-${key}.json` };
+}
+
+// =============================================================================
+// Responses
+// =============================================================================
+
+/** Whether a body can be stored as text */
+function isTextContent(contentType: string): boolean {
+  return /^text\/|json|event-stream|ndjson|jsonl/i.test(contentType);
+}
+
+/** Fixture form of a response with its body already read */
+function toRecordedResponse(response: Response, body: Buffer): RecordedResponse {
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+  return isTextContent(headers["content-type"] ?? "")
+    ? { status: response.status, headers, body: body.toString("utf8") }
+    : { status: response.status, headers, body_base64: body.toString("base64") };
+}
+
+/** Rebuild a response from its fixture */
+function fromRecordedResponse(recorded: RecordedResponse): Response {
+  const body = recorded.body_base64 !== undefined ? Buffer.from(recorded.body_base64, "base64") : recorded.body ?? "";
+  // Null-body statuses must not carry a body
+  const empty = recorded.status === 204 || recorded.status === 304;
+  return new Response(empty ? null : body, { status: recorded.status, headers: recorded.headers });
+}
+
+// =============================================================================
+// Recorder
+// =============================================================================
+
+/**
+ * Records upstream traffic to, or replays it from, a fixture directory.
+ * One recorder serves all providers; each gets its own fetch function.
+ */
+export class Recorder {
+  /** Record: fixtures written in this run. Replay: fixtures loaded so far */
+  private readonly fixtures = new Map<string, Fixture>();
+  private readonly files = new Map<string, JsonFile<Fixture>>();
+  /** Replay: responses served per fixture */
+  private readonly served = new Map<string, number>();
+
+  constructor(readonly mode: RecordMode, readonly dir: string) {}
+
+  /** Whether requests are answered from fixtures (no network, no API key) */
+  get offline(): boolean {
+    return this.mode === "replay";
+  }
+
+  /** fetch function for a provider's SDK client; undefined when the mode is "off" */
+  fetchFor(provider: string): RecordingFetch | undefined {
+    if (this.mode === "off") {
+      return undefined;
+    }
+    return async (url, init) => {
+      const body = await readBody(init?.body);
+      const { request, key, fileName } = normalizeRequest(provider, url, init, body);
+      return this.mode === "replay"
+        ? this.replay(request, key, fileName)
+        : this.record(request, key, fileName, url, init, body);
+    };
+  }
+
+  private file(fileName: string): JsonFile<Fixture> {
+    let file = this.files.get(fileName);
+    if (!file) {
+      file = new JsonFile<Fixture>(path.join(this.dir, fileName));
+      this.files.set(fileName, file);
+    }
+    return file;
+  }
+
+  /** Send the request and save the response once its body is complete */
+  private async record(
+    request: RecordedRequest,
+    key: string,
+    fileName: string,
+    url: string,
+    init: RequestInit | undefined,
+    body: Buffer | undefined
+  ): Promise<Response> {
+    const response = await fetch(url, { method: init?.method, headers: init?.headers, signal: init?.signal, body: body && new Uint8Array(body) });
+    const save = (data: Buffer): Promise<void> => {
+      // The first response of a run replaces what an earlier run recorded
+      const fixture = this.fixtures.get(key) ?? { version: 1, key, request, responses: [] };
+      fixture.responses.push(toRecordedResponse(response, data));
+      this.fixtures.set(key, fixture);
+      return this.file(fileName).write(fixture);
+    };
+    const saveFailed = (error: unknown): void => {
+      logger.warning("recording", `Could not write fixture ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    };
+
+    // Streams are passed on as they arrive and saved when they end
+    if (response.body && /event-stream/i.test(response.headers.get("content-type") ?? "")) {
+      const [forCaller, forFixture] = response.body.tee();
+      void new Response(forFixture).arrayBuffer()
+        .then(data => save(Buffer.from(data)))
+        .catch(saveFailed);
+      return new Response(forCaller, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    await save(data).catch(saveFailed);
+    return new Response(data.length > 0 ? data : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /** Answer from the fixture: the next recorded response, then the last one again */
+  private async replay(request: RecordedRequest, key: string, fileName: string): Promise<Response> {
+    let fixture = this.fixtures.get(key);
+    if (!fixture) {
+      // Read directly: JsonFile moves damaged files aside, fixtures must stay as they are
+      const filePath = path.join(this.dir, fileName);
+      let raw: string | undefined;
+      try {
+        raw = await fs.readFile(filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw new RecordingError(`Fixture ${fileName} is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (raw !== undefined) {
+        try {
+          fixture = JSON.parse(raw) as Fixture;
+        } catch (error) {
+          throw new RecordingError(`Fixture ${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (!fixture || !Array.isArray(fixture.responses) || fixture.responses.length === 0) {
+        throw new RecordingError(
+          `No recorded response for ${request.method} ${request.path} (provider "${request.provider}"): ` +
+          `${path.join(this.dir, fileName)} does not exist. Record it with GPT_RECORD_MODE=record.`
+        );
+      }
+      this.fixtures.set(key, fixture);
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return fromRecordedResponse(fixture.responses[Math.min(index, fixture.responses.length - 1)]);
+  }
+}
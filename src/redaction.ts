@@ -0,0 +1,309 @@
+/**
+ * Secret Redaction
+ *
+ * Scans outgoing requests for secrets before they reach a provider: API keys
+ * (OpenAI, Anthropic, AWS, GitHub), JWTs, PEM private keys, credentials in
+ * .env-style lines, high-entropy strings and custom patterns from the config
+ * file. Depending on the mode, secrets are replaced with placeholders
+ * ("redact"), the request is refused ("block") or only reported ("warn").
+ * Findings never carry the secret itself, only a masked form.
+ */
+
+import type OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const REDACTION_MODES = ["redact", "block", "warn", "off"] as const;
+
+/** What happens to a request that contains secrets */
+export type RedactionMode = typeof REDACTION_MODES[number];
+
+/** A custom pattern from the config file */
+export interface CustomSecretPattern {
+  /** Secret type, used in placeholders and reports */
+  name: string;
+  /** Regular expression; a capture group named `secret` limits what is redacted */
+  pattern: string;
+  /** Extra regex flags (i, m, s, u) */
+  flags?: string;
+}
+
+/** `redaction` section of the config file */
+export interface RedactionConfig {
+  mode?: RedactionMode;
+  /** Detect high-entropy strings (default: true) */
+  entropy?: boolean;
+  patterns?: CustomSecretPattern[];
+  /** Values matching one of these regular expressions are never reported */
+  allow?: string[];
+}
+
+/** A compiled detector */
+interface SecretDetector {
+  type: string;
+  label: string;
+  /** Global regex with indices; the `secret` group (if any) is the secret */
+  regex: RegExp;
+}
+
+/** Active redaction settings */
+export interface RedactionPolicy {
+  mode: RedactionMode;
+  detectors: SecretDetector[];
+  entropy: boolean;
+  allow: RegExp[];
+}
+
+/** A secret found in a request */
+export interface SecretFinding {
+  type: string;
+  label: string;
+  /** Where it was found, e.g. "instructions" or "input[2]" */
+  location: string;
+  /** Masked value, e.g. "sk-p…Q2 (51 chars)" */
+  masked: string;
+  /** Placeholder it was replaced with (mode "redact") */
+  placeholder?: string;
+}
+
+/** Outcome of scanning a request */
+export interface RedactionResult {
+  /** Request to send: with placeholders in mode "redact", else the original */
+  request: OpenAI.Responses.ResponseCreateParams;
+  findings: SecretFinding[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Built-in detectors, most specific first (earlier matches win on overlap)
+const BUILTIN_DETECTORS: SecretDetector[] = [
+  {
+    type: "private_key",
+    label: "Private key",
+    regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/gd,
+  },
+  { type: "anthropic_api_key", label: "Anthropic API key", regex: /\bsk-ant-[A-Za-z0-9_-]{20,}/gd },
+  { type: "openai_api_key", label: "OpenAI API key", regex: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/gd },
+  { type: "aws_access_key_id", label: "AWS access key id", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/gd },
+  {
+    type: "aws_secret_access_key",
+    label: "AWS secret access key",
+    regex: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gid,
+  },
+  { type: "github_token", label: "GitHub token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/gd },
+  { type: "jwt", label: "JWT", regex: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/gd },
+  {
+    // KEY=value lines of .env files and shell exports (URLs and numbers are settings, not secrets)
+    type: "credential",
+    label: "Credential",
+    regex: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY)[A-Z0-9_]*[ \t]*[=:][ \t]*["']?(?![a-z]+:\/\/|\d+\b)(?<secret>[^\s"'#$][^\s"'#]{7,})/gmd,
+  },
+];
+
+// High-entropy candidates: long runs of base64/base64url characters
+const ENTROPY_CANDIDATE = /(?<![\w+/=-])[\w+/=-]{32,}(?![\w+/=-])/g;
+
+// Bits per character above which a candidate is reported (hex stays below 4)
+const ENTROPY_THRESHOLD = 4.2;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** A request refused because it contains secrets (mode "block") */
+export class SecretPolicyError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretPolicyError";
+  }
+}
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * Compile the redaction settings. `modeOverride` (GPT_REDACTION_MODE) wins
+ * over the config file. Throws on an invalid custom pattern.
+ */
+export function createRedactionPolicy(config: RedactionConfig | undefined, modeOverride?: RedactionMode): RedactionPolicy {
+  const custom = (config?.patterns ?? []).map(({ name, pattern, flags = "" }) => {
+    try {
+      return { type: name, label: name, regex: new RegExp(pattern, `gd${flags.replace(/[gd]/g, "")}`) };
+    } catch (error) {
+      throw new Error(`redaction.patterns "${name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  const allow = (config?.allow ?? []).map(pattern => {
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`redaction.allow: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return {
+    mode: modeOverride ?? config?.mode ?? "redact",
+    detectors: [...BUILTIN_DETECTORS, ...custom],
+    entropy: config?.entropy ?? true,
+    allow,
+  };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/** A secret located in a string */
+interface SecretMatch {
+  detector: Pick<SecretDetector, "type" | "label">;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/** Shannon entropy in bits per character */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/** Whether a candidate looks like a random token rather than a word or a hash */
+function looksRandom(value: string): boolean {
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && entropy(value) >= ENTROPY_THRESHOLD;
+}
+
+/** Find the secrets in a string, in order of position */
+function findSecrets(text: string, policy: RedactionPolicy): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const add = (detector: SecretMatch["detector"], start: number, end: number): void => {
+    const value = text.slice(start, end);
+    if (
+      end > start &&
+      !matches.some(match => start < match.end && end > match.start) &&
+      !policy.allow.some(allowed => allowed.test(value))
+    ) {
+      matches.push({ detector, start, end, value });
+    }
+  };
+
+  for (const detector of policy.detectors) {
+    for (const match of text.matchAll(detector.regex)) {
+      const [start, end] = match.indices?.groups?.secret ?? [match.index!, match.index! + match[0].length];
+      add(detector, start, end);
+    }
+  }
+  if (policy.entropy) {
+    for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+      if (looksRandom(match[0])) {
+        add({ type: "high_entropy", label: "High-entropy string" }, match.index!, match.index! + match[0].length);
+      }
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Masked form of a secret: a short prefix and suffix for long values, nothing for short ones */
+export function maskSecret(value: string): string {
+  if (value.length < 16) {
+    return `*** (${value.length} chars)`;
+  }
+  return `${value.slice(0, 4)}…${value.slice(-2)} (${value.length} chars)`;
+}
+
+/** One-line description of a finding, for warnings and errors */
+export function describeFinding(finding: SecretFinding): string {
+  return `${finding.label} ${finding.masked} in ${finding.location}` +
+    (finding.placeholder ? `, replaced with ${finding.placeholder}` : "");
+}
+
+// =============================================================================
+// Request Scanning
+// =============================================================================
+
+/**
+ * Scan the text an outgoing request carries: instructions, the input string,
+ * and the text parts and function outputs of input items. In mode "redact"
+ * every secret is replaced with a placeholder; the same value gets the same
+ * placeholder throughout the request.
+ */
+export function scanRequest(request: OpenAI.Responses.ResponseCreateParams, policy: RedactionPolicy): RedactionResult {
+  if (policy.mode === "off") {
+    return { request, findings: [] };
+  }
+
+  const findings: SecretFinding[] = [];
+  const placeholders = new Map<string, string>();
+  const counters = new Map<string, number>();
+  const reported = new Set<string>();
+
+  const scan = (text: string, location: string): string => {
+    const matches = findSecrets(text, policy);
+    let redacted = "";
+    let offset = 0;
+    for (const { detector, start, end, value } of matches) {
+      let placeholder = placeholders.get(value);
+      if (!placeholder) {
+        const count = (counters.get(detector.type) ?? 0) + 1;
+        counters.set(detector.type, count);
+        placeholder = `[REDACTED:${detector.type}_${count}]`;
+        placeholders.set(value, placeholder);
+      }
+      if (!reported.has(`${location}\0${placeholder}`)) {
+        reported.add(`${location}\0${placeholder}`);
+        findings.push({
+          type: detector.type,
+          label: detector.label,
+          location,
+          masked: maskSecret(value),
+          placeholder: policy.mode === "redact" ? placeholder : undefined,
+        });
+      }
+      redacted += text.slice(offset, start) + placeholder;
+      offset = end;
+    }
+    return matches.length > 0 ? redacted + text.slice(offset) : text;
+  };
+
+  const scanItem = (item: OpenAI.Responses.ResponseInputItem, location: string): OpenAI.Responses.ResponseInputItem => {
+    if ("content" in item && typeof item.content === "string") {
+      return { ...item, content: scan(item.content, location) } as OpenAI.Responses.ResponseInputItem;
+    }
+    if ("content" in item && Array.isArray(item.content)) {
+      const content = (item.content as unknown[]).map(part =>
+        part && typeof part === "object" && "text" in part && typeof part.text === "string"
+          ? { ...part, text: scan(part.text, location) }
+          : part
+      );
+      return { ...item, content } as OpenAI.Responses.ResponseInputItem;
+    }
+    if (item.type === "function_call_output" && typeof item.output === "string") {
+      return { ...item, output: scan(item.output, location) };
+    }
+    return item;
+  };
+
+  const redacted: OpenAI.Responses.ResponseCreateParams = { ...request };
+  if (typeof request.instructions === "string") {
+    redacted.instructions = scan(request.instructions, "instructions");
+  }
+  if (typeof request.input === "string") {
+    redacted.input = scan(request.input, "input");
+  } else if (Array.isArray(request.input)) {
+    redacted.input = request.input.map((item, index) => scanItem(item, `input[${index}]`));
+  }
+
+  return { request: policy.mode === "redact" && findings.length > 0 ? redacted : request, findings };
+}
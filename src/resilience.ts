@@ -0,0 +1,347 @@
+/**
+ * Resilient OpenAI Calls
+ *
+ * Retry, backoff, timeout and circuit-breaker policy shared by every tool.
+ *
+ * - Errors are classified into categories; only rate limits, server errors,
+ *   timeouts and network errors are retried.
+ * - Backoff is exponential with full jitter and honours `Retry-After` /
+ *   rate-limit reset headers.
+ * - A circuit breaker fails fast after repeated upstream failures and lets a
+ *   single trial request through after a cooldown.
+ */
+
+import OpenAI from "openai";
+import { UserFacingError } from "./errors.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Retry and circuit breaker settings */
+export interface RetryPolicy {
+  /** Per-request timeout in milliseconds */
+  timeoutMs: number;
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Consecutive upstream failures that open the circuit */
+  circuitThreshold: number;
+  /** How long the circuit stays open before a trial request */
+  circuitCooldownMs: number;
+}
+
+/** Error categories reported in structured error output */
+export type ErrorCategory =
+  | "auth"
+  | "permission"
+  | "not_found"
+  | "bad_request"
+  | "rate_limit"
+  | "quota"
+  | "server"
+  | "timeout"
+  | "network"
+  | "cancelled"
+  | "circuit_open"
+  | "budget"
+  | "unknown";
+
+/** Circuit breaker states */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Structured description of a failed call */
+export interface ErrorDetails {
+  category: ErrorCategory;
+  message: string;
+  status?: number;
+  retryable: boolean;
+  attempts: number;
+  total_wait_ms: number;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Thrown when the circuit breaker rejects a call without contacting the API */
+export class CircuitOpenError extends Error {
+  constructor(readonly retryInMs: number) {
+    super(`OpenAI API temporarily unavailable after repeated failures. Retry in ${Math.ceil(retryInMs / 1000)}s.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/** Final error of a call, carrying the retry statistics */
+export class RetryError extends Error {
+  constructor(
+    readonly cause: unknown,
+    readonly category: ErrorCategory,
+    readonly attempts: number,
+    readonly totalWaitMs: number
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = "RetryError";
+  }
+}
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+/** Classify an error thrown by the OpenAI SDK (or the breaker) */
+export function categorizeError(error: unknown): ErrorCategory {
+  if (error instanceof RetryError) {
+    return error.category;
+  }
+  if (error instanceof CircuitOpenError) {
+    return "circuit_open";
+  }
+  // The server's own checks (budget caps, unknown ids, invalid arguments, ...)
+  if (error instanceof UserFacingError) {
+    return error.category;
+  }
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return "cancelled";
+  }
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return "timeout";
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return "network";
+  }
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status;
+    if (status === 401) return "auth";
+    if (status === 403) return "permission";
+    if (status === 404) return "not_found";
+    if (status === 402) return "quota";
+    if (status === 429) {
+      // insufficient_quota is a 429 too, but retrying won't help
+      return error.code === "insufficient_quota" ? "quota" : "rate_limit";
+    }
+    if (status === 408) return "timeout";
+    if (status === 409 || (status !== undefined && status >= 500)) return "server";
+    if (status !== undefined && status >= 400) return "bad_request";
+  }
+  return "unknown";
+}
+
+/** Whether a category is worth retrying */
+export function isRetryableCategory(category: ErrorCategory): boolean {
+  return category === "rate_limit" ||
+    category === "server" ||
+    category === "timeout" ||
+    category === "network";
+}
+
+/** Structured details of a failed call for tool error results */
+export function describeError(error: unknown, message: string): ErrorDetails {
+  const category = categorizeError(error);
+  const cause = error instanceof RetryError ? error.cause : error;
+  return {
+    category,
+    message,
+    status: cause instanceof OpenAI.APIError ? cause.status : undefined,
+    retryable: isRetryableCategory(category),
+    attempts: error instanceof RetryError ? error.attempts : 1,
+    total_wait_ms: error instanceof RetryError ? error.totalWaitMs : 0,
+  };
+}
+
+// =============================================================================
+// Backoff
+// =============================================================================
+
+/** Parse durations like "1s", "6m0s", "250ms" used by x-ratelimit-reset-* */
+function parseResetDuration(value: string): number | undefined {
+  const pattern = /(\d+(?:\.\d+)?)(ms|s|m|h)/g;
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(pattern)) {
+    matched = true;
+    const n = Number(amount);
+    total += unit === "ms" ? n : unit === "s" ? n * 1000 : unit === "m" ? n * 60_000 : n * 3_600_000;
+  }
+  return matched ? total : undefined;
+}
+
+/**
+ * Delay requested by the server, from Retry-After style headers.
+ * Returns undefined when the server gave no hint.
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) {
+    return undefined;
+  }
+  const headers = error.headers;
+
+  const ms = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(ms)) {
+    return ms;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const resets = [headers["x-ratelimit-reset-requests"], headers["x-ratelimit-reset-tokens"]]
+    .filter((value): value is string => typeof value === "string")
+    .map(parseResetDuration)
+    .filter((value): value is number => value !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/** Exponential backoff with full jitter, or the server's hint if given */
+function backoffDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const hinted = retryAfterMs(error);
+  if (hinted !== undefined) {
+    return Math.min(hinted, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Sleep that ends early (with an abort error) when the signal fires */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OpenAI.APIUserAbortError());
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new OpenAI.APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// =============================================================================
+// Circuit Breaker
+// =============================================================================
+
+/**
+ * Consecutive-failure circuit breaker.
+ * Opens after `threshold` upstream failures; after the cooldown a single
+ * trial call is allowed (half-open) and its outcome closes or reopens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  get state(): CircuitState {
+    if (this.failures < this.threshold) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open";
+  }
+
+  /** Throw CircuitOpenError if calls are currently rejected */
+  check(): void {
+    const state = this.state;
+    if (state === "open") {
+      throw new CircuitOpenError(this.cooldownMs - (Date.now() - this.openedAt));
+    }
+    if (state === "half-open") {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(0);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /** Record an upstream failure (only retryable categories count) */
+  recordFailure(category: ErrorCategory): void {
+    if (!isRetryableCategory(category)) {
+      this.trialInFlight = false;
+      return;
+    }
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+// =============================================================================
+// Retry Loop
+// =============================================================================
+
+/** Per-call options for withRetry */
+export interface RetryOptions {
+  policy: RetryPolicy;
+  breaker: CircuitBreaker;
+  /** Caller's abort signal - cancels the call and any pending backoff */
+  signal?: AbortSignal;
+  /** Extra veto, e.g. don't retry a stream that already produced output */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Run an OpenAI call with the retry policy and circuit breaker.
+ * On final failure throws a RetryError with attempts, total wait and category.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, breaker, signal } = options;
+  let attempts = 0;
+  let totalWaitMs = 0;
+
+  for (;;) {
+    try {
+      breaker.check();
+    } catch (error) {
+      throw new RetryError(error, "circuit_open", attempts, totalWaitMs);
+    }
+
+    attempts++;
+    try {
+      const result = await fn();
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      const category = categorizeError(error);
+      breaker.recordFailure(category);
+
+      const retry = isRetryableCategory(category) &&
+        attempts <= policy.maxRetries &&
+        !signal?.aborted &&
+        (options.shouldRetry?.(error) ?? true);
+      if (!retry) {
+        throw new RetryError(error, category, attempts, totalWaitMs);
+      }
+
+      const delay = backoffDelay(policy, attempts - 1, error);
+      try {
+        await sleep(delay, signal);
+      } catch (abortError) {
+        throw new RetryError(abortError, "cancelled", attempts, totalWaitMs);
+      }
+      totalWaitMs += delay;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Resource Listing and Subscriptions
+ *
+ * Plumbing for the server's MCP resources (gpt://responses/{id}, usage,
+ * config, ...): a paginated resources/list handler, and resources/subscribe
+ * support so clients get `notifications/resources/updated` when a resource
+ * they watch changes.
+ *
+ * The McpServer SDK class lists all resources in one response and has no
+ * subscription support, so both are installed on the underlying Server.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+function encodeListCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset }), "utf8").toString("base64url");
+}
+
+function decodeListCursor(cursor: string): number {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as { o?: unknown };
+    if (typeof data.o === "number" && Number.isInteger(data.o) && data.o >= 0) {
+      return data.o;
+    }
+  } catch {
+    // fall through
+  }
+  throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+}
+
+/**
+ * Replace the SDK's resources/list handler with a paginated one.
+ * `list` returns every resource; pages are `pageSize` long. Must be called
+ * after the first registerResource (which installs the SDK handlers).
+ */
+export function installPaginatedResourceList(
+  server: McpServer,
+  list: () => Promise<Resource[]>,
+  pageSize: number
+): void {
+  server.server.setRequestHandler(ListResourcesRequestSchema, async request => {
+    const offset = request.params?.cursor ? decodeListCursor(request.params.cursor) : 0;
+    const resources = await list();
+    const end = offset + pageSize;
+    return {
+      resources: resources.slice(offset, end),
+      nextCursor: end < resources.length ? encodeListCursor(end) : undefined,
+    };
+  });
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+/**
+ * Tracks resources/subscribe requests and sends change notifications.
+ * Each connected client has its own McpServer (one over stdio, one per HTTP
+ * session); notifications go to every attached server whose client
+ * subscribed. Failures are logged, never thrown into the code that changed
+ * the resource.
+ */
+export class ResourceSubscriptions {
+  private readonly servers = new Map<McpServer, Set<string>>();
+
+  /** Enable subscriptions on a server; it is detached again when it closes */
+  attach(server: McpServer): void {
+    const subscribed = new Set<string>();
+    this.servers.set(server, subscribed);
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, request => {
+      subscribed.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+      subscribed.delete(request.params.uri);
+      return {};
+    });
+    server.server.onclose = () => {
+      this.servers.delete(server);
+    };
+  }
+
+  /** Notify subscribers of `uri` */
+  updated(uri: string): void {
+    for (const [server, subscribed] of this.servers) {
+      if (subscribed.has(uri)) {
+        this.send(server, uri);
+      }
+    }
+  }
+
+  /** Notify subscribers of every resource under `prefix` (e.g. "gpt://usage/") */
+  updatedUnder(prefix: string): void {
+    for (const [server, subscribed] of this.servers) {
+      for (const uri of subscribed) {
+        if (uri.startsWith(prefix)) {
+          this.send(server, uri);
+        }
+      }
+    }
+  }
+
+  /** Tell clients that resources were added or removed */
+  listChanged(): void {
+    for (const server of this.servers.keys()) {
+      server.sendResourceListChanged();
+    }
+  }
+
+  private send(server: McpServer, uri: string): void {
+    if (!server.isConnected()) {
+      return;
+    }
+    server.server.sendResourceUpdated({ uri }).catch(error => {
+      logger.warning("resources", `Could not send resource update for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
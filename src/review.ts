@@ -0,0 +1,573 @@
+/**
+ * Code Review
+ *
+ * Support for gpt_review: gathers a diff from a local git repository (a ref
+ * range, the staged changes or the uncommitted changes) or takes a patch as
+ * given, splits it into per-file sections with the surrounding lines of the
+ * new version, and packs the sections into chunks that each fit one model
+ * call. The findings of all chunks are merged into one list without
+ * duplicates.
+ *
+ * Git runs with the same limits as the agent functions, and files are only
+ * read inside the workspace roots.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { checkRef, runGit, type LocalFunctionOptions } from "./agent.js";
+import { UserFacingError } from "./errors.js";
+import { fenceFor, isBinary, readHead, resolveWorkspaceFile, resolveWorkspacePath, type SkippedFile } from "./files.js";
+import type { JsonSchema } from "./schema.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Severities, most severe first */
+export const REVIEW_SEVERITIES = ["critical", "high", "medium", "low", "info"] as const;
+
+export type ReviewSeverity = typeof REVIEW_SEVERITIES[number];
+
+export const REVIEW_CATEGORIES = [
+  "bug",
+  "security",
+  "performance",
+  "error_handling",
+  "concurrency",
+  "maintainability",
+  "testing",
+  "documentation",
+  "style",
+] as const;
+
+export type ReviewCategory = typeof REVIEW_CATEGORIES[number];
+
+/** One problem found in the change */
+export interface ReviewFinding {
+  /** Path relative to the repository root */
+  file: string;
+  /** Line range in the new version of the file */
+  start_line: number;
+  end_line: number;
+  severity: ReviewSeverity;
+  category: ReviewCategory;
+  title: string;
+  explanation: string;
+  suggested_fix: string | null;
+}
+
+/** What to review */
+export type ReviewSource =
+  | { type: "range"; range: string }
+  | { type: "staged" }
+  | { type: "uncommitted" }
+  | { type: "patch"; patch: string };
+
+/** Limits of diff gathering and chunking (git and file limits as in agent mode) */
+export interface ReviewOptions extends LocalFunctionOptions {
+  /** Lines of the new version shown before and after each hunk */
+  contextLines: number;
+  /** Maximum characters of diff and context per model call */
+  maxChunkChars: number;
+  /** Maximum model calls per review */
+  maxChunks: number;
+}
+
+/** A hunk of a unified diff */
+interface DiffHunk {
+  header: string;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  /** Hunk body: context, added and removed lines */
+  lines: string[];
+}
+
+/** The changes to one file */
+export interface DiffFile {
+  path: string;
+  /** Path before a rename */
+  old_path?: string;
+  status: "added" | "deleted" | "modified" | "renamed";
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+/** The text sent in one model call and the files it covers */
+export interface ReviewChunk {
+  files: string[];
+  text: string;
+}
+
+/** The review split into model calls */
+export interface ReviewPlan {
+  /** Repository root (unset for a patch outside a repository) */
+  repository?: string;
+  /** Files with changes, reviewed or not */
+  files: number;
+  chunks: ReviewChunk[];
+  /** Files left out, or only partly reviewed, and why */
+  skipped: SkippedFile[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Lock files and other generated files that are not worth a review
+const GENERATED_FILE = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|Pipfile\.lock|composer\.lock|Gemfile\.lock|go\.sum)$/;
+
+/** JSON Schema of the answer to one review call (Structured Outputs, strict) */
+export const REVIEW_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "Two or three sentences on the change and its overall quality",
+    },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          file: { type: "string", description: "Path of the file as shown in the diff" },
+          start_line: { type: "integer", description: "First line in the new version of the file" },
+          end_line: { type: "integer", description: "Last line in the new version of the file" },
+          severity: { type: "string", enum: [...REVIEW_SEVERITIES] },
+          category: { type: "string", enum: [...REVIEW_CATEGORIES] },
+          title: { type: "string", description: "One-line summary of the problem" },
+          explanation: { type: "string", description: "What is wrong and why it matters" },
+          suggested_fix: {
+            type: ["string", "null"],
+            description: "How to fix it, with corrected code where it helps; null if there is no clear fix",
+          },
+        },
+        required: ["file", "start_line", "end_line", "severity", "category", "title", "explanation", "suggested_fix"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["summary", "findings"],
+  additionalProperties: false,
+};
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Nothing to review, or a source git cannot read */
+export class ReviewError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+// =============================================================================
+// Diff Parsing
+// =============================================================================
+
+/** Path of a ---/+++ line without its a/ or b/ prefix (undefined for /dev/null) */
+function diffPath(value: string): string | undefined {
+  const target = value.replace(/\t.*$/, "").trim();
+  if (target === "/dev/null") {
+    return undefined;
+  }
+  return target.replace(/^"(.*)"$/, "$1").replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse a unified diff (git or plain) into its files and hunks. Lines
+ * outside a file section, such as the header of a mail patch, are ignored.
+ */
+export function parseDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  // The hunk being read and the old/new lines it still has to come
+  let hunk: DiffHunk | undefined;
+  let oldLeft = 0;
+  let newLeft = 0;
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+  const startFile = (filePath: string): DiffFile => {
+    file = { path: filePath, status: "modified", binary: false, hunks: [] };
+    hunk = undefined;
+    files.push(file);
+    return file;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+      startFile(match?.[2] ?? line.slice("diff --git ".length));
+      continue;
+    }
+    if (hunk) {
+      if (line.startsWith("-")) {
+        oldLeft--;
+      } else if (line.startsWith("+")) {
+        newLeft--;
+      } else if (!line.startsWith("\\")) {
+        oldLeft--;
+        newLeft--;
+      }
+      hunk.lines.push(line);
+      if (oldLeft <= 0 && newLeft <= 0) {
+        hunk = undefined;
+      }
+      continue;
+    }
+    // "\ No newline at end of file" after the last line of a hunk
+    if (line.startsWith("\\") && file && file.hunks.length > 0) {
+      file.hunks[file.hunks.length - 1].lines.push(line);
+      continue;
+    }
+    // A plain diff starts a file with its ---/+++ pair (git's pair follows its own header)
+    if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ") && (!file || file.hunks.length > 0)) {
+      const oldPath = diffPath(line.slice(4));
+      const newPath = diffPath(lines[index + 1].slice(4));
+      const current = startFile(newPath ?? oldPath ?? "unknown");
+      current.status = !oldPath ? "added" : !newPath ? "deleted" : "modified";
+      index++;
+      continue;
+    }
+    if (!file) {
+      continue;
+    }
+
+    const header = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (header) {
+      hunk = {
+        header: line,
+        old_lines: header[1] === undefined ? 1 : Number(header[1]),
+        new_start: Number(header[2]),
+        new_lines: header[3] === undefined ? 1 : Number(header[3]),
+        lines: [],
+      };
+      oldLeft = hunk.old_lines;
+      newLeft = hunk.new_lines;
+      file.hunks.push(hunk);
+      if (oldLeft <= 0 && newLeft <= 0) {
+        hunk = undefined;
+      }
+    } else if (line.startsWith("--- ")) {
+      const oldPath = diffPath(line.slice(4));
+      if (!oldPath) {
+        file.status = "added";
+      }
+    } else if (line.startsWith("+++ ")) {
+      const newPath = diffPath(line.slice(4));
+      if (newPath) {
+        file.path = newPath;
+      } else {
+        file.status = "deleted";
+      }
+    } else if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      file.old_path = line.slice("rename from ".length);
+      file.status = "renamed";
+    } else if (line.startsWith("rename to ")) {
+      file.path = line.slice("rename to ".length);
+      file.status = "renamed";
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.binary = true;
+    }
+  }
+  return files;
+}
+
+// =============================================================================
+// Diff Gathering
+// =============================================================================
+
+/** Reads the new version of a changed file, as lines (undefined if it cannot be read) */
+type NewVersionReader = (filePath: string) => Promise<string[] | undefined>;
+
+/** git diff arguments selecting the source */
+function diffArguments(source: Exclude<ReviewSource, { type: "patch" }>): string[] {
+  switch (source.type) {
+    case "range":
+      return [checkRef(source.range)];
+    case "staged":
+      return ["--cached"];
+    case "uncommitted":
+      return ["HEAD"];
+  }
+}
+
+/**
+ * Where the new version of the files lives: the head of a range ("a..b" or
+ * "a...b", HEAD when left out), the index for staged changes, or the working
+ * tree (uncommitted changes, a single ref compared with the working tree, a
+ * patch).
+ */
+function newVersionReader(source: ReviewSource, repository: string | undefined, options: ReviewOptions): NewVersionReader {
+  const gitShow = (spec: string): NewVersionReader => async filePath => {
+    const output = await runGit(["show", `${spec}:${filePath}`], repository!, { ...options, maxOutputChars: options.maxFileBytes });
+    return output.split("\n");
+  };
+
+  const range = source.type === "range" ? /\.{2,3}(.*)$/.exec(source.range) : undefined;
+  if (range) {
+    return gitShow(range[1] || "HEAD");
+  }
+  if (source.type === "staged") {
+    return gitShow("");
+  }
+  return async filePath => {
+    const target = await resolveWorkspaceFile(path.join(repository ?? options.roots[0], filePath), options.roots);
+    const stat = await fs.stat(target);
+    const buffer = await readHead(target, Math.min(stat.size, options.maxFileBytes));
+    return isBinary(buffer) ? undefined : buffer.toString("utf8").split("\n");
+  };
+}
+
+/**
+ * Gather the diff to review and split it into chunks. `directory` selects
+ * the repository (default: the first workspace root); `paths` limits the
+ * diff to these paths (git pathspecs, relative to `directory`).
+ */
+export async function planReview(
+  source: ReviewSource,
+  directory: string | undefined,
+  paths: string[] | undefined,
+  options: ReviewOptions
+): Promise<ReviewPlan> {
+  const { path: cwd } = await resolveWorkspacePath(directory ?? ".", options.roots);
+
+  let repository: string | undefined;
+  try {
+    repository = (await runGit(["rev-parse", "--show-toplevel"], cwd, options)).trim();
+  } catch (error) {
+    if (source.type !== "patch") {
+      throw new ReviewError(`"${directory ?? cwd}" is not inside a git repository: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  let diff: string;
+  if (source.type === "patch") {
+    diff = source.patch;
+  } else {
+    for (const pathspec of paths ?? []) {
+      if (pathspec.startsWith("-") || pathspec.split(/[\\/]/).includes("..")) {
+        throw new ReviewError(`Invalid path "${pathspec}".`);
+      }
+    }
+    try {
+      diff = await runGit(
+        ["diff", "--no-color", "--no-ext-diff", "--find-renames", ...diffArguments(source), "--", ...(paths ?? ["."])],
+        cwd,
+        options
+      );
+    } catch (error) {
+      throw new ReviewError(`git diff failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const files = parseDiff(diff);
+  if (files.length === 0) {
+    throw new ReviewError(
+      source.type === "patch"
+        ? "The patch contains no file changes (expected a unified diff)."
+        : "There are no changes to review."
+    );
+  }
+
+  const skipped: SkippedFile[] = [];
+  const sections: { path: string; text: string }[] = [];
+  const readNewVersion = newVersionReader(source, repository, options);
+
+  for (const file of files) {
+    if (file.binary) {
+      skipped.push({ path: file.path, reason: "binary file" });
+    } else if (file.status === "deleted") {
+      skipped.push({ path: file.path, reason: "deleted file" });
+    } else if (GENERATED_FILE.test(file.path)) {
+      skipped.push({ path: file.path, reason: "lock file" });
+    } else if (file.hunks.length === 0) {
+      skipped.push({ path: file.path, reason: file.status === "renamed" ? "renamed without changes" : "no content changes" });
+    } else {
+      const lines = options.contextLines > 0 ? await readNewVersion(file.path).catch(() => undefined) : undefined;
+      sections.push(...splitFile(file, lines, options, skipped));
+    }
+  }
+
+  // Pack the sections into chunks, in diff order
+  const chunks: ReviewChunk[] = [];
+  for (const section of sections) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + section.text.length + 2 <= options.maxChunkChars) {
+      last.text += `\n\n${section.text}`;
+      if (!last.files.includes(section.path)) {
+        last.files.push(section.path);
+      }
+    } else if (chunks.length < options.maxChunks) {
+      chunks.push({ files: [section.path], text: section.text });
+    } else if (!skipped.some(entry => entry.path === section.path)) {
+      skipped.push({ path: section.path, reason: `limit of ${options.maxChunks} review call(s) reached` });
+    }
+  }
+
+  return { repository, files: files.length, chunks, skipped };
+}
+
+// =============================================================================
+// Chunking
+// =============================================================================
+
+/** Hunk with the new line number in front of every line that exists in the new version */
+function renderHunk(hunk: DiffHunk): string {
+  let lineNumber = hunk.new_start;
+  const body = hunk.lines.map(line => {
+    if (line.startsWith("-") || line.startsWith("\\")) {
+      return `      ${line}`;
+    }
+    return `${String(lineNumber++).padStart(5)} ${line}`;
+  });
+  return [hunk.header, ...body].join("\n");
+}
+
+/** Numbered lines of the new version around the hunks, overlapping windows merged */
+function renderContext(hunks: DiffHunk[], lines: string[], contextLines: number): string {
+  const windows: [number, number][] = [];
+  for (const hunk of hunks) {
+    const start = Math.max(1, hunk.new_start - contextLines);
+    const end = Math.min(lines.length, hunk.new_start + Math.max(hunk.new_lines, 1) - 1 + contextLines);
+    const last = windows[windows.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else if (start <= end) {
+      windows.push([start, end]);
+    }
+  }
+  return windows.map(([start, end]) => {
+    const content = lines.slice(start - 1, end).map((line, index) => `${String(start + index).padStart(5)} ${line}`).join("\n");
+    const fence = fenceFor(content);
+    return `Lines ${start}-${end} of the new version:\n${fence}\n${content}\n${fence}`;
+  }).join("\n\n");
+}
+
+/** One file section: header, numbered diff and context */
+function renderSection(file: DiffFile, hunks: DiffHunk[], lines: string[] | undefined, contextLines: number, part: string): string {
+  const status = file.status === "renamed" ? `renamed from ${file.old_path}` : file.status;
+  const diff = hunks.map(renderHunk).join("\n");
+  const fence = fenceFor(diff);
+  let text = `## File: ${file.path} (${status})${part}\n\nDiff (new line numbers on the left):\n${fence}diff\n${diff}\n${fence}`;
+  if (lines && contextLines > 0 && file.status !== "added") {
+    const context = renderContext(hunks, lines, contextLines);
+    if (context) {
+      text += `\n\n${context}`;
+    }
+  }
+  return text;
+}
+
+/**
+ * Render a file as one section, or as several when it does not fit a chunk:
+ * hunks are grouped in order, a hunk too large even without context is cut
+ * (and reported as partly reviewed).
+ */
+function splitFile(
+  file: DiffFile,
+  lines: string[] | undefined,
+  options: ReviewOptions,
+  skipped: SkippedFile[]
+): { path: string; text: string }[] {
+  const whole = renderSection(file, file.hunks, lines, options.contextLines, "");
+  if (whole.length <= options.maxChunkChars) {
+    return [{ path: file.path, text: whole }];
+  }
+
+  const groups: DiffHunk[][] = [];
+  for (const hunk of file.hunks) {
+    const group = groups[groups.length - 1];
+    if (group && renderSection(file, [...group, hunk], lines, options.contextLines, " (part 99 of 99)").length <= options.maxChunkChars) {
+      group.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  }
+
+  return groups.map((group, index) => {
+    const part = groups.length > 1 ? ` (part ${index + 1} of ${groups.length})` : "";
+    let text = renderSection(file, group, lines, options.contextLines, part);
+    if (text.length > options.maxChunkChars) {
+      text = renderSection(file, group, undefined, 0, part);
+    }
+    if (text.length > options.maxChunkChars) {
+      skipped.push({ path: file.path, reason: `partly reviewed: the hunk at line ${group[0].new_start} was cut to fit a chunk` });
+      const note = "\n[hunk cut to fit the review chunk]";
+      text = text.slice(0, options.maxChunkChars - note.length) + note;
+    }
+    return { path: file.path, text };
+  });
+}
+
+// =============================================================================
+// Findings
+// =============================================================================
+
+/** Rank of a severity (0 = most severe) */
+export function severityRank(severity: ReviewSeverity): number {
+  return REVIEW_SEVERITIES.indexOf(severity);
+}
+
+/** Finding with a clean path and a sane line range */
+function normalizeFinding(finding: ReviewFinding): ReviewFinding {
+  const start = Math.max(1, Math.floor(finding.start_line) || 1);
+  return {
+    ...finding,
+    file: finding.file.trim().replace(/^[ab]\//, "").replace(/^\.\//, ""),
+    start_line: start,
+    end_line: Math.max(start, Math.floor(finding.end_line) || start),
+    suggested_fix: finding.suggested_fix?.trim() || null,
+  };
+}
+
+/** Whether two findings describe the same problem: same file and category, overlapping lines */
+function isDuplicate(a: ReviewFinding, b: ReviewFinding): boolean {
+  const sameTitle = a.title.trim().toLowerCase() === b.title.trim().toLowerCase();
+  const overlap = a.start_line <= b.end_line + 2 && b.start_line <= a.end_line + 2;
+  return a.file === b.file && overlap && (a.category === b.category || sameTitle);
+}
+
+/**
+ * Merge the findings of all chunks: drop those below `minSeverity`, keep one
+ * of each duplicate (the most severe; a missing fix is taken from the
+ * duplicate) and sort by severity, file and line.
+ */
+export function mergeFindings(
+  findings: ReviewFinding[],
+  minSeverity: ReviewSeverity
+): { findings: ReviewFinding[]; duplicates: number } {
+  const candidates = findings
+    .map(normalizeFinding)
+    .filter(finding => severityRank(finding.severity) <= severityRank(minSeverity))
+    .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+
+  const merged: ReviewFinding[] = [];
+  let duplicates = 0;
+  for (const finding of candidates) {
+    const existing = merged.find(entry => isDuplicate(entry, finding));
+    if (existing) {
+      duplicates++;
+      existing.suggested_fix ??= finding.suggested_fix;
+      existing.start_line = Math.min(existing.start_line, finding.start_line);
+      existing.end_line = Math.max(existing.end_line, finding.end_line);
+    } else {
+      merged.push(finding);
+    }
+  }
+
+  merged.sort((a, b) =>
+    severityRank(a.severity) - severityRank(b.severity) ||
+    a.file.localeCompare(b.file) ||
+    a.start_line - b.start_line
+  );
+  return { findings: merged, duplicates };
+}
@@ -0,0 +1,134 @@
+/**
+ * Structured Output
+ *
+ * Helpers for schema-constrained generation: loading a JSON Schema given
+ * inline or as a file path, and parsing + validating the model's answer
+ * against it before it is returned to the client.
+ */
+
+import { Ajv, type ErrorObject } from "ajv";
+import { promises as fs } from "node:fs";
+import { UserFacingError } from "./errors.js";
+import { resolveWorkspaceFile } from "./files.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A JSON Schema object as accepted by the Responses API */
+export type JsonSchema = Record<string, unknown>;
+
+/** Result of validating model output against a schema */
+export type ValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Missing, unreadable or invalid JSON schema */
+export class JsonSchemaError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonSchemaError";
+  }
+}
+
+// =============================================================================
+// Schema Loading
+// =============================================================================
+
+/**
+ * Resolve the JSON Schema for a request.
+ * Exactly one of `inline` or `file` must be given; file paths follow the
+ * workspace root rules of the `files` parameter.
+ */
+export async function loadJsonSchema(
+  inline: JsonSchema | undefined,
+  file: string | undefined,
+  roots: string[]
+): Promise<JsonSchema> {
+  if (inline && file) {
+    throw new JsonSchemaError("Provide either json_schema or json_schema_file, not both.");
+  }
+  if (inline) {
+    return inline;
+  }
+  if (!file) {
+    throw new JsonSchemaError("No JSON schema provided.");
+  }
+
+  const schemaPath = await resolveWorkspaceFile(file, roots);
+  let raw: string;
+  try {
+    raw = await fs.readFile(schemaPath, "utf8");
+  } catch (error) {
+    throw new JsonSchemaError(`Cannot read JSON schema file "${file}" (${(error as NodeJS.ErrnoException).code ?? "read error"}).`);
+  }
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(raw);
+  } catch {
+    // The parser's message quotes the file, keep it out of the result
+    throw new JsonSchemaError(`JSON schema file "${file}" is not valid JSON.`);
+  }
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new JsonSchemaError(`JSON schema file "${file}" must contain a JSON object.`);
+  }
+
+  return schema as JsonSchema;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const ajv = new Ajv({
+  allErrors: true,
+  strict: false,
+  validateFormats: false,
+});
+
+/** Format an Ajv error as "<json pointer>: <message>" */
+function formatError(error: ErrorObject): string {
+  const location = error.instancePath || "(root)";
+  return `${location}: ${error.message ?? "is invalid"}`;
+}
+
+/**
+ * Parse model output as JSON and validate it against the schema.
+ * Never throws - parse and schema errors are returned as messages.
+ */
+export function validateStructuredOutput(schema: JsonSchema, text: string): ValidationResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  let validate;
+  try {
+    validate = ajv.compile(schema);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Invalid JSON schema: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  try {
+    if (!validate(value)) {
+      return { valid: false, errors: (validate.errors ?? []).map(formatError) };
+    }
+    return { valid: true, value };
+  } finally {
+    // Schemas are per-request - don't let Ajv's cache grow (or clash on $id)
+    ajv.removeSchema(schema);
+  }
+}
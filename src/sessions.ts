@@ -0,0 +1,191 @@
+/**
+ * Conversation Sessions
+ *
+ * Server-side storage for multi-turn conversations used by the
+ * gpt_conversation_* tools. Each session keeps its settings, the full turn
+ * history and the id of the last Responses API response, so the next turn can
+ * be chained with `previous_response_id` instead of resending the history.
+ *
+ * Sessions are persisted to a local JSON file so they survive a restart.
+ */
+
+import { randomUUID } from "node:crypto";
+import { JsonFile } from "./storage.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Token usage counters, shared by single turns and cumulative totals */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  /** Part of output_tokens spent on reasoning (if reported) */
+  reasoning_tokens?: number;
+  total_tokens: number;
+}
+
+/** A single stored message in a conversation */
+export interface SessionTurn {
+  role: "user" | "assistant";
+  content: string;
+  /** Responses API id of the response that produced an assistant turn */
+  response_id?: string;
+  created_at: string;
+}
+
+/** Generation settings fixed when the session is started */
+export interface SessionSettings {
+  /** Provider profile (sessions created before providers existed use the default) */
+  provider?: string;
+  model: string;
+  instructions?: string;
+  reasoning_effort?: "none" | "low" | "medium" | "high";
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+}
+
+/** A persisted conversation session */
+export interface Session {
+  id: string;
+  title?: string;
+  settings: SessionSettings;
+  turns: SessionTurn[];
+  /** Number of completed user/assistant exchanges */
+  turn_count: number;
+  /** Id of the last response, used as `previous_response_id` for chaining */
+  last_response_id?: string;
+  usage: TokenUsage;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Summary returned by gpt_conversation_list */
+export interface SessionSummary {
+  id: string;
+  title?: string;
+  model: string;
+  turn_count: number;
+  usage: TokenUsage;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SessionFile {
+  version: 1;
+  sessions: Session[];
+}
+
+// =============================================================================
+// Session Store
+// =============================================================================
+
+/**
+ * JSON-file backed session store.
+ * All mutations are written through to disk immediately (atomic rename).
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private readonly file: JsonFile<SessionFile>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<SessionFile>(filePath);
+  }
+
+  /** Load sessions from disk. A missing file means an empty store. */
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    this.sessions.clear();
+    for (const session of data?.sessions ?? []) {
+      this.sessions.set(session.id, session);
+    }
+  }
+
+  /** Create and persist a new, empty session */
+  async create(settings: SessionSettings, title?: string): Promise<Session> {
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: `conv_${randomUUID()}`,
+      title,
+      settings,
+      turns: [],
+      turn_count: 0,
+      usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+      created_at: now,
+      updated_at: now,
+    };
+    this.sessions.set(session.id, session);
+    await this.save();
+    return session;
+  }
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  /** List sessions, most recently updated first */
+  list(): SessionSummary[] {
+    return [...this.sessions.values()]
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .map(session => ({
+        id: session.id,
+        title: session.title,
+        model: session.settings.model,
+        turn_count: session.turn_count,
+        usage: session.usage,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+      }));
+  }
+
+  /**
+   * Record a completed exchange (user input + assistant answer) and persist it.
+   */
+  async appendExchange(
+    id: string,
+    userContent: string,
+    assistantContent: string,
+    responseId: string,
+    usage?: TokenUsage
+  ): Promise<Session> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new Error(`Conversation "${id}" not found`);
+    }
+
+    const now = new Date().toISOString();
+    session.turns.push(
+      { role: "user", content: userContent, created_at: now },
+      { role: "assistant", content: assistantContent, response_id: responseId, created_at: now }
+    );
+    session.turn_count++;
+    session.last_response_id = responseId;
+    if (usage) {
+      session.usage = {
+        input_tokens: session.usage.input_tokens + usage.input_tokens,
+        output_tokens: session.usage.output_tokens + usage.output_tokens,
+        // Sessions saved before reasoning tokens were counted have none
+        reasoning_tokens: (session.usage.reasoning_tokens ?? 0) + (usage.reasoning_tokens ?? 0),
+        total_tokens: session.usage.total_tokens + usage.total_tokens,
+      };
+    }
+    session.updated_at = now;
+
+    await this.save();
+    return session;
+  }
+
+  /** Delete a session. Returns false if it did not exist. */
+  async delete(id: string): Promise<boolean> {
+    const existed = this.sessions.delete(id);
+    if (existed) {
+      await this.save();
+    }
+    return existed;
+  }
+
+  private save(): Promise<void> {
+    return this.file.write({ version: 1, sessions: [...this.sessions.values()] });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * JSON File Storage
+ *
+ * Small helper for the server's persistent state (sessions, usage ledger,
+ * ...): reads a JSON document from disk and writes it back atomically
+ * (temp file + rename), serializing writes so concurrent tool calls cannot
+ * interleave them. A file that is not valid JSON is moved aside and treated
+ * as missing, so one damaged file cannot stop the server from starting.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+export class JsonFile<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Read and parse the file. Returns undefined if it does not exist, or if it
+   * is not valid JSON; the damaged file is then kept as `<file>.corrupt-<time>`.
+   */
+  async read(): Promise<T | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      const corruptPath = `${this.filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+      await fs.rename(this.filePath, corruptPath);
+      logger.warning(
+        "storage",
+        `${this.filePath} is not valid JSON (${error instanceof Error ? error.message : String(error)}); ` +
+        `moved it to ${corruptPath} and starting empty.`
+      );
+      return undefined;
+    }
+  }
+
+  /** Write the document atomically, after any write already in progress */
+  write(data: T): Promise<void> {
+    const write = async (): Promise<void> => {
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(tmpPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
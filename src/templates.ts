@@ -0,0 +1,321 @@
+/**
+ * Prompt Templates
+ *
+ * Built-in second-opinion prompts (code review, design critique, debugging,
+ * test ideas) and user templates loaded from a directory of Markdown files.
+ * A template file has a front-matter block with its arguments, preset and
+ * default model, followed by the request text:
+ *
+ *   ---
+ *   description: Review a migration for locking problems
+ *   preset: reviewer
+ *   arguments:
+ *     - name: sql
+ *       description: The migration
+ *       required: true
+ *   ---
+ *   Review this migration: {{sql}}
+ *
+ * `{{name}}` inserts an argument; `{{#name}}...{{/name}}` is kept only when
+ * the argument is given. Front matter supports the YAML subset shown above
+ * (scalars and lists of scalars or flat maps); field validation is passed in
+ * by the caller (the zod schema lives with the other schemas in index.ts).
+ */
+
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { UserFacingError } from "./errors.js";
+import { logger } from "./logger.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An argument of a template */
+export interface TemplateArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+/** Front-matter fields of a template */
+export interface TemplateMeta {
+  title?: string;
+  description: string;
+  arguments: TemplateArgument[];
+  /** Preset from the config file used to run the template */
+  preset?: string;
+  /** Default model (call parameters still win) */
+  model?: string;
+}
+
+/** A prompt template */
+export interface PromptTemplate extends TemplateMeta {
+  name: string;
+  /** Request text with {{argument}} placeholders */
+  body: string;
+  /** "builtin" or the template file */
+  source: string;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Invalid template file, unknown template or missing arguments */
+export class TemplateError extends UserFacingError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+// =============================================================================
+// Built-in Templates
+// =============================================================================
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "code_review",
+    title: "Code Review",
+    description: "Independent review of a change: bugs, risks, readability and missing tests",
+    arguments: [
+      { name: "code", description: "The code or diff to review", required: true },
+      { name: "context", description: "What the change is meant to do", required: false },
+      { name: "focus", description: "Aspects to concentrate on (e.g. security, performance)", required: false },
+    ],
+    body: `You are a senior engineer giving an independent code review.
+
+{{#context}}The change is meant to: {{context}}
+
+{{/context}}{{#focus}}Concentrate on: {{focus}}
+
+{{/focus}}Review the code below. List concrete problems ordered by severity (bugs, security, error handling, performance, readability, missing tests). For each, quote the relevant line, explain the impact and suggest a fix. Say explicitly if you find nothing significant.
+
+{{code}}`,
+    source: "builtin",
+  },
+  {
+    name: "design_critique",
+    title: "Design Critique",
+    description: "Critique of a design or architecture proposal with alternatives",
+    arguments: [
+      { name: "design", description: "The design, proposal or ADR", required: true },
+      { name: "constraints", description: "Requirements and constraints the design must meet", required: false },
+    ],
+    body: `You are a software architect reviewing a design proposal.
+
+{{#constraints}}Constraints and requirements:
+{{constraints}}
+
+{{/constraints}}Critique the design below: weak assumptions, failure modes, scaling and operational concerns, and what will be hard to change later. Propose at least one alternative and compare the trade-offs. End with the open questions you would ask the author.
+
+{{design}}`,
+    source: "builtin",
+  },
+  {
+    name: "debug_second_opinion",
+    title: "Debugging Second Opinion",
+    description: "Fresh hypotheses for a bug, given the symptoms and what was tried",
+    arguments: [
+      { name: "problem", description: "Symptoms, error messages and how to reproduce", required: true },
+      { name: "code", description: "Relevant code", required: false },
+      { name: "attempts", description: "What has been tried already", required: false },
+      { name: "hypothesis", description: "The current theory", required: false },
+    ],
+    body: `You are helping debug a problem as a second pair of eyes.
+
+Problem:
+{{problem}}
+{{#attempts}}
+Already tried:
+{{attempts}}
+{{/attempts}}{{#hypothesis}}
+Current theory: {{hypothesis}}
+{{/hypothesis}}{{#code}}
+Relevant code:
+{{code}}
+{{/code}}
+List the most likely root causes, most likely first. For each, give the evidence for it and the quickest experiment that confirms or rules it out. Challenge the current theory if the evidence does not support it.`,
+    source: "builtin",
+  },
+  {
+    name: "test_cases",
+    title: "Test Case Brainstorm",
+    description: "Test cases for a piece of code or a spec, including edge cases",
+    arguments: [
+      { name: "code", description: "The code or specification to test", required: true },
+      { name: "framework", description: "Test framework to write the cases for", required: false },
+      { name: "focus", description: "Areas to concentrate on", required: false },
+    ],
+    body: `You are a test engineer brainstorming test cases.
+
+{{#focus}}Concentrate on: {{focus}}
+
+{{/focus}}List test cases for the code below, grouped into happy path, edge cases, error handling and concurrency/state where relevant. Give each a short name, the input and the expected result.{{#framework}} Then write the most important ones as {{framework}} tests.{{/framework}}
+
+{{code}}`,
+    source: "builtin",
+  },
+];
+
+// =============================================================================
+// Front Matter
+// =============================================================================
+
+/** Parse a scalar: quoted string, boolean, number or plain string */
+function parseScalar(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("\"") && trimmed.endsWith("\"") && trimmed.length >= 2) {
+    return JSON.parse(trimmed);
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length >= 2) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  if (trimmed === "true" || trimmed === "false") {
+    return trimmed === "true";
+  }
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return trimmed;
+}
+
+/**
+ * Split a template file into front matter (parsed) and body.
+ * Supports `key: value`, and `key:` followed by a list of scalars
+ * (`- value`) or flat maps (`- name: x` with further indented keys).
+ */
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, unknown> = {};
+  let list: unknown[] | undefined;
+  let item: Record<string, unknown> | undefined;
+
+  match[1].split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "" || line.trim().startsWith("#")) {
+      return;
+    }
+    const fail = (): never => {
+      throw new TemplateError(`Front matter line ${index + 2}: cannot parse "${line.trim()}"`);
+    };
+
+    // Top-level key
+    if (!/^\s/.test(line)) {
+      const pair = /^([\w-]+):(.*)$/.exec(line) ?? fail();
+      list = undefined;
+      item = undefined;
+      if (pair[2].trim() === "") {
+        list = [];
+        data[pair[1]] = list;
+      } else {
+        data[pair[1]] = parseScalar(pair[2]);
+      }
+      return;
+    }
+
+    if (!list) {
+      fail();
+    }
+
+    // List item: scalar or the first key of a map
+    const entry = /^\s+-\s+(.*)$/.exec(line);
+    if (entry) {
+      const pair = /^([\w-]+):(.*)$/.exec(entry[1]);
+      if (pair) {
+        item = { [pair[1]]: parseScalar(pair[2]) };
+        list!.push(item);
+      } else {
+        item = undefined;
+        list!.push(parseScalar(entry[1]));
+      }
+      return;
+    }
+
+    // Further key of the current map item
+    const pair = /^\s+([\w-]+):(.*)$/.exec(line);
+    if (!pair || !item) {
+      fail();
+    }
+    item![pair![1]] = parseScalar(pair![2]);
+  });
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Load the templates of a directory (`<name>.md` files). Files that cannot be
+ * parsed are skipped with a warning. A missing directory yields no templates.
+ */
+export function loadTemplateDir(
+  dir: string,
+  parseMeta: (data: Record<string, unknown>) => TemplateMeta
+): PromptTemplate[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const templates: PromptTemplate[] = [];
+  for (const file of readdirSync(dir).filter(f => f.endsWith(".md")).sort()) {
+    const name = file.slice(0, -".md".length);
+    const filePath = path.join(dir, file);
+    try {
+      if (!/^[\w-]+$/.test(name)) {
+        throw new TemplateError("template names may only contain letters, digits, '_' and '-'");
+      }
+      const { data, body } = parseFrontMatter(readFileSync(filePath, "utf8"));
+      const meta = parseMeta(data);
+      for (const arg of meta.arguments) {
+        if (!body.includes(`{{${arg.name}}}`) && !body.includes(`{{#${arg.name}}}`)) {
+          logger.warning("templates", `Template ${filePath} does not use its argument "${arg.name}"`);
+        }
+      }
+      templates.push({ ...meta, name, body: body.trim(), source: filePath });
+    } catch (error) {
+      logger.warning("templates", `Skipping template ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return templates;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a template with the given arguments.
+ * Throws a TemplateError for unknown or missing required arguments.
+ */
+export function renderTemplate(template: PromptTemplate, args: Record<string, string | undefined>): string {
+  const known = new Set(template.arguments.map(arg => arg.name));
+  for (const name of Object.keys(args)) {
+    if (!known.has(name)) {
+      throw new TemplateError(
+        `Unknown argument "${name}" for template "${template.name}". ` +
+        `Arguments: ${[...known].join(", ") || "(none)"}`
+      );
+    }
+  }
+  const missing = template.arguments.filter(arg => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new TemplateError(
+      `Template "${template.name}" requires: ${missing.map(arg => arg.name).join(", ")}`
+    );
+  }
+
+  const value = (name: string): string => (known.has(name) ? args[name]?.trim() ?? "" : "");
+  return template.body
+    .replace(/\{\{#([\w-]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, section: string) => (value(name) ? section : ""))
+    // Tidy up after removed sections, before argument values go in
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\{\{([\w-]+)\}\}/g, (_, name: string) => value(name))
+    .trim();
+}
@@ -0,0 +1,297 @@
+/**
+ * Usage Ledger
+ *
+ * Persistent token usage ledger with cost estimation and budget caps.
+ *
+ * Every model call is recorded per UTC day, model and tool - including cached
+ * input and reasoning tokens - and priced with a configurable price table.
+ * Optional daily, monthly and per-call budgets refuse a request before it is
+ * sent when it would exceed a cap.
+ */
+
+import { UserFacingError } from "./errors.js";
+import { JsonFile } from "./storage.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Price of a model in USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  cached_input?: number;
+  output: number;
+}
+
+/** Price table keyed by model name or model prefix */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Token counts of a single call, as reported by the API */
+export interface UsageCounts {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  total_tokens: number;
+}
+
+/** Aggregated usage for one day, model and tool */
+export interface LedgerEntry extends UsageCounts {
+  date: string;
+  model: string;
+  tool: string;
+  requests: number;
+  /** Estimated cost in USD, null if the model has no known price */
+  cost_usd: number | null;
+}
+
+/** Budget caps in USD (undefined = no cap) */
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+  per_call?: number;
+}
+
+/** Totals over a set of ledger entries */
+export interface UsageTotals extends UsageCounts {
+  requests: number;
+  cost_usd: number;
+  /** Requests whose model had no known price (not included in cost_usd) */
+  unpriced_requests: number;
+}
+
+interface LedgerFile {
+  version: 1;
+  entries: LedgerEntry[];
+}
+
+// =============================================================================
+// Prices
+// =============================================================================
+
+/**
+ * Default prices (USD per 1M tokens). Estimates only - override them with
+ * GPT_PRICES / GPT_PRICES_FILE. Keys match by longest prefix, so "gpt-5"
+ * also prices dated snapshots and point releases without a closer match.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-5": { input: 1.25, cached_input: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cached_input: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cached_input: 0.005, output: 0.4 },
+  "gpt-4.1": { input: 2, cached_input: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cached_input: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cached_input: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cached_input: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cached_input: 0.075, output: 0.6 },
+  "o3": { input: 2, cached_input: 0.5, output: 8 },
+  "o4-mini": { input: 1.1, cached_input: 0.275, output: 4.4 },
+};
+
+/** Find the price for a model: exact match first, then longest prefix */
+export function findPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/** Estimated cost of a call in USD, or null if the model has no price */
+export function estimateCost(prices: PriceTable, model: string, counts: Pick<UsageCounts, "input_tokens" | "cached_input_tokens" | "output_tokens">): number | null {
+  const price = findPrice(prices, model);
+  if (!price) {
+    return null;
+  }
+  const cached = Math.min(counts.cached_input_tokens, counts.input_tokens);
+  const cachedPrice = price.cached_input ?? price.input;
+  return (
+    (counts.input_tokens - cached) * price.input +
+    cached * cachedPrice +
+    counts.output_tokens * price.output
+  ) / 1_000_000;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** Thrown before a request is sent when it would exceed a budget cap */
+export class BudgetExceededError extends UserFacingError {
+  constructor(readonly limit: keyof BudgetLimits, message: string) {
+    super(message, "budget");
+    this.name = "BudgetExceededError";
+  }
+}
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+/** Current UTC date as YYYY-MM-DD */
+export function utcDate(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+/**
+ * JSON-file backed usage ledger.
+ * Entries are aggregated per (date, model, tool), so the file stays small.
+ */
+export class UsageLedger {
+  private entries = new Map<string, LedgerEntry>();
+  private readonly file: JsonFile<LedgerFile>;
+
+  constructor(
+    filePath: string,
+    readonly prices: PriceTable,
+    readonly limits: BudgetLimits
+  ) {
+    this.file = new JsonFile<LedgerFile>(filePath);
+  }
+
+  /** Load the ledger from disk. A missing file means an empty ledger. */
+  async load(): Promise<void> {
+    const data = await this.file.read();
+    this.entries.clear();
+    for (const entry of data?.entries ?? []) {
+      this.entries.set(`${entry.date}|${entry.model}|${entry.tool}`, entry);
+    }
+  }
+
+  /**
+   * Record a completed call and persist the ledger.
+   * `priceFactor` scales the cost (e.g. 0.5 for Batch API calls).
+   */
+  async record(tool: string, model: string, counts: UsageCounts, priceFactor = 1): Promise<LedgerEntry> {
+    const date = utcDate();
+    const key = `${date}|${model}|${tool}`;
+    const listCost = estimateCost(this.prices, model, counts);
+    const cost = listCost === null ? null : listCost * priceFactor;
+
+    const entry = this.entries.get(key) ?? {
+      date,
+      model,
+      tool,
+      requests: 0,
+      input_tokens: 0,
+      cached_input_tokens: 0,
+      output_tokens: 0,
+      reasoning_tokens: 0,
+      total_tokens: 0,
+      cost_usd: cost === null ? null : 0,
+    };
+
+    entry.requests++;
+    entry.input_tokens += counts.input_tokens;
+    entry.cached_input_tokens += counts.cached_input_tokens;
+    entry.output_tokens += counts.output_tokens;
+    entry.reasoning_tokens += counts.reasoning_tokens;
+    entry.total_tokens += counts.total_tokens;
+    if (cost !== null) {
+      entry.cost_usd = (entry.cost_usd ?? 0) + cost;
+    }
+
+    this.entries.set(key, entry);
+    await this.file.write({ version: 1, entries: [...this.entries.values()] });
+    return entry;
+  }
+
+  /** Entries with since <= date <= until (inclusive, YYYY-MM-DD) */
+  query(since?: string, until?: string): LedgerEntry[] {
+    return [...this.entries.values()]
+      .filter(entry => (!since || entry.date >= since) && (!until || entry.date <= until))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.model.localeCompare(b.model) || a.tool.localeCompare(b.tool));
+  }
+
+  /** Sum a set of entries */
+  static total(entries: LedgerEntry[]): UsageTotals {
+    const totals: UsageTotals = {
+      requests: 0,
+      input_tokens: 0,
+      cached_input_tokens: 0,
+      output_tokens: 0,
+      reasoning_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      unpriced_requests: 0,
+    };
+    for (const entry of entries) {
+      totals.requests += entry.requests;
+      totals.input_tokens += entry.input_tokens;
+      totals.cached_input_tokens += entry.cached_input_tokens;
+      totals.output_tokens += entry.output_tokens;
+      totals.reasoning_tokens += entry.reasoning_tokens;
+      totals.total_tokens += entry.total_tokens;
+      if (entry.cost_usd === null) {
+        totals.unpriced_requests += entry.requests;
+      } else {
+        totals.cost_usd += entry.cost_usd;
+      }
+    }
+    return totals;
+  }
+
+  /** Estimated spend today (UTC) */
+  spentToday(): number {
+    return UsageLedger.total(this.query(utcDate(), utcDate())).cost_usd;
+  }
+
+  /** Estimated spend this calendar month (UTC) */
+  spentThisMonth(): number {
+    const today = utcDate();
+    return UsageLedger.total(this.query(`${today.slice(0, 7)}-01`, today)).cost_usd;
+  }
+
+  /**
+   * Refuse a call whose estimated cost would exceed a budget cap.
+   * Calls for models without a known price cannot be checked and pass.
+   * For a batch, `estimate` covers all `calls`; the per-call cap applies to
+   * their average and `priceFactor` scales the cost as in record().
+   */
+  checkBudget(
+    model: string,
+    estimate: Pick<UsageCounts, "input_tokens" | "output_tokens">,
+    { calls = 1, priceFactor = 1 }: { calls?: number; priceFactor?: number } = {}
+  ): void {
+    const { daily, monthly, per_call: perCall } = this.limits;
+    if (daily === undefined && monthly === undefined && perCall === undefined) {
+      return;
+    }
+
+    const listCost = estimateCost(this.prices, model, { ...estimate, cached_input_tokens: 0 });
+    if (listCost === null) {
+      return;
+    }
+    const cost = listCost * priceFactor;
+
+    if (perCall !== undefined && cost / calls > perCall) {
+      throw new BudgetExceededError(
+        "per_call",
+        `Estimated cost ${formatUsd(cost / calls)}${calls > 1 ? " per call" : ""} exceeds the per-call budget of ${formatUsd(perCall)}. Lower max_output_tokens or shorten the input.`
+      );
+    }
+    if (daily !== undefined) {
+      const spent = this.spentToday();
+      if (spent + cost > daily) {
+        throw new BudgetExceededError(
+          "daily",
+          `Daily budget of ${formatUsd(daily)} would be exceeded (spent ${formatUsd(spent)} today, this ${calls > 1 ? "batch" : "call"} ~${formatUsd(cost)}).`
+        );
+      }
+    }
+    if (monthly !== undefined) {
+      const spent = this.spentThisMonth();
+      if (spent + cost > monthly) {
+        throw new BudgetExceededError(
+          "monthly",
+          `Monthly budget of ${formatUsd(monthly)} would be exceeded (spent ${formatUsd(spent)} this month, this ${calls > 1 ? "batch" : "call"} ~${formatUsd(cost)}).`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * End-to-end tests of the MCP tools over an in-memory transport.
+ *
+ * Upstream calls are answered from the fixtures in test/fixtures (replay
+ * mode), so no API key or network is needed. To record them again against
+ * the real API, run with GPT_RECORD_MODE=record and OPENAI_API_KEY set.
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "gpt-mcp-test-"));
+
+// The server reads its configuration when the module is loaded
+process.env.GPT_RECORD_MODE ??= "replay";
+process.env.GPT_RECORD_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+process.env.GPT_MCP_DATA_DIR = dataDir;
+process.env.GPT_CONFIG_FILE = path.join(dataDir, "gpt-mcp.config.json");
+process.env.GPT_LOG_FILE = "off";
+process.env.GPT_LOG_LEVEL = "critical";
+for (const name of ["GPT_MODEL", "GPT_PROVIDER", "GPT_PROVIDERS", "GPT_PROVIDERS_FILE", "GPT_SESSIONS_FILE", "GPT_USAGE_FILE"]) {
+  delete process.env[name];
+}
+
+const { createServer, initializeServer } = await import("../src/index.js");
+
+interface ToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+let client: Client;
+
+async function callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+  const result = await client.callTool({ name, arguments: args }) as ToolResult;
+  assert.notEqual(result.isError, true, result.content.map(part => part.text).join("\n"));
+  return result;
+}
+
+before(async () => {
+  await initializeServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  client = new Client({ name: "gpt-mcp-server-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("gpt_generate", () => {
+  test("returns the answer with its usage", async () => {
+    const result = await callTool("gpt_generate", {
+      input: "What is 2 + 2? Answer with one digit.",
+      reasoning_effort: "low",
+      response_format: "json",
+    });
+    const output = result.structuredContent!;
+    assert.equal(output.text, "4");
+    assert.equal(output.status, "completed");
+    assert.deepEqual(output.usage, {
+      input_tokens: 24,
+      output_tokens: 12,
+      reasoning_tokens: 0,
+      total_tokens: 36,
+    });
+  });
+});
+
+describe("gpt_messages", () => {
+  test("sends the history and returns the next assistant message", async () => {
+    const result = await callTool("gpt_messages", {
+      messages: [
+        { role: "developer", content: "Answer in one word." },
+        { role: "user", content: "What is the capital of France?" },
+      ],
+      reasoning_effort: "low",
+      response_format: "json",
+    });
+    assert.equal(result.structuredContent!.text, "Paris.");
+  });
+});
+
+describe("gpt_status", () => {
+  test("reports replay mode and the default provider", async () => {
+    const result = await callTool("gpt_status", {});
+    const status = result.structuredContent!;
+    assert.equal(status.record_mode, process.env.GPT_RECORD_MODE);
+    assert.equal(status.default_provider, "openai");
+    assert.equal(status.active_model, "gpt-5.4");
+  });
+});
+
+describe("gpt_conversation_reply", () => {
+  test("replays the stored history when the previous response is gone", async () => {
+    const started = await callTool("gpt_conversation_start", {
+      input: "Remember the number 7.",
+      reasoning_effort: "low",
+      response_format: "json",
+    });
+    const sessionId = started.structuredContent!.session_id;
+
+    // The upstream answers previous_response_not_found for the chained call
+    const reply = await callTool("gpt_conversation_reply", {
+      session_id: sessionId,
+      input: "Which number did I ask you to remember?",
+      response_format: "json",
+    });
+    assert.equal(reply.structuredContent!.chained, false);
+    assert.equal(reply.structuredContent!.turn, 2);
+    assert.match(String(reply.structuredContent!.text), /7/);
+  });
+});